@@ -12,6 +12,7 @@ import { getEventEmitter } from '../core/observability/AgentEventEmitter';
 import { AbstractClassifier } from '../core/AbstractClassifier';
 import { IAgentPromptTemplate } from '../core/IPromptTemplate';
 import { McpConfigurator } from '../helpers/McpConfigurator';
+import { LLMProvider } from '../core/llm';
 
 export class AgentBuilder {
   private coreConfig: AgentCoreConfig;
@@ -20,6 +21,7 @@ export class AgentBuilder {
   private promptStrategy: InferStrategy;
   private streamParser: ReActLLMResponseStreamParser | undefined;
   private mcpConfigPath: string | undefined;
+  private llmProvider: LLMProvider | undefined;
 
   constructor(
     coreConfig: AgentCoreConfig, 
@@ -65,6 +67,16 @@ export class AgentBuilder {
     return this;
   }
 
+  /**
+   * Uses the given provider instead of the one derived from llmConfig
+   * @param provider Provider instance, e.g. a MockLLMProvider for offline tests
+   * @returns This builder instance for method chaining
+   */
+  public withLLMProvider(provider: LLMProvider): AgentBuilder {
+    this.llmProvider = provider;
+    return this;
+  }
+
   // Default ReAct implementation
   public create(): BaseAgent<readonly ClassificationTypeConfig[], ReActClassifier<readonly ClassificationTypeConfig[]>, ReActPromptTemplate<readonly ClassificationTypeConfig[]>>;
   
@@ -157,6 +169,10 @@ export class AgentBuilder {
       this.context,
       this.promptStrategy
     );
+
+    if (this.llmProvider) {
+      agent.setLLMProvider(this.llmProvider);
+    }
     
     // Register MCP tools if enabled
     if (this.mcpConfigPath !== undefined) {
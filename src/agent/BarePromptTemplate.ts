@@ -12,11 +12,15 @@ export class BarePromptTemplate<T extends ReadonlyArray<ClassificationTypeConfig
   }
 
   async getSystemPrompt(sessionContext: SessionContext): Promise<string> {
-    return `
+    const base_prompt = `
 You are designated as: {role}
 Your goal: {goal}
 Your capabilities: {capabilities}
     `.trim();
+
+    // Goals and domain the conversation is about, if any
+    const conversation_state = sessionContext.getConversationState();
+    return conversation_state ? `${base_prompt}\n\n${conversation_state}` : base_prompt;
   }
 
   async getAssistantPrompt(sessionContext: SessionContext): Promise<string> {
@@ -11,6 +11,11 @@ import { Session } from '../core/Session';
 import { LoggingConfig } from '../core/configs';
 import { JSONOutput, Tool, ToolOutput } from '../core/Tool';
 import { logger } from '../core/Logger';
+import { LLMProvider, TokenUsageSummary } from '../core/llm';
+import { AgentRunResult } from '../core/AgentRun';
+import { LearnProcedureOptions, ProcedureExecution } from '../core/memory/modules/procedural/ProceduralMemory';
+import { IProceduralMemoryUnit } from '../core/memory/modules/procedural/types';
+import { ForgetSubjectAudit } from '../core/memory/AgentMemorySystem';
 
 export abstract class BaseAgent<
   T extends readonly ClassificationTypeConfig[],
@@ -76,6 +81,11 @@ export abstract class BaseAgent<
   public setQueryPreProcessor(queryPreProcessor: QueryPreProcessor | null): void {
     this.core.setQueryPreProcessor(queryPreProcessor);
   }
+
+  public setLLMProvider(provider: LLMProvider): void {
+    this.core.setLLMProvider(provider);
+  }
+
   public getExecutionContext(): ExecutionContext {
     return this.core.executionContext;
   }
@@ -100,6 +110,13 @@ export abstract class BaseAgent<
     return this.core.capabilities;
   } 
 
+  /**
+   * Token usage across all sessions of this agent
+   */
+  public getTokenUsage(): TokenUsageSummary {
+    return this.core.getTokenUsage();
+  }
+
   public getInstructions(): Instruction[] {
     return this.core.getInstructions();
   }
@@ -167,6 +184,11 @@ export abstract class BaseAgent<
       }
     }
     
+    // Sessions persisted before a restart pick up where they left off
+    for (const session of await this.core.restoreSessions()) {
+      this.attachDefaultHandlers(session);
+    }
+
     this.core.start();
   }
 
@@ -177,7 +199,24 @@ export abstract class BaseAgent<
     }
     
     const session = await this.core.createSession(owner, prompt);
+    this.attachDefaultHandlers(session);
+    return session;
+  }
 
+  /**
+   * Resume a session persisted by the configured session store, e.g. after a restart
+   */
+  public async resumeSession(sessionId: string): Promise<Session> {
+    const loaded = this.core.getSessionContext(sessionId);
+    if (loaded) {
+      return loaded.getSession();
+    }
+    const session = await this.core.resumeSession(sessionId);
+    this.attachDefaultHandlers(session);
+    return session;
+  }
+
+  private attachDefaultHandlers(session: Session): void {
     session.onToolResult((result: any, session: Session) => {
       this.defaultToolResultHandler(result, session);
     });
@@ -190,56 +229,27 @@ export abstract class BaseAgent<
     session.onException((raw: any, session: Session) => {
       this.defaultExceptionHandler(raw, session);
     });
-
-    return session;
   }
 
   private defaultToolResultHandler(result: any, session: Session): void {
     logger.debug("Tool result received:", result);
     
-    if (result.status === 'success') {
-      let content = '';
-      
-      // Process the tool result data
-      if (result.data instanceof JSONOutput) {
-        // Get the content directly from JSONOutput
-        let rawContent = result.data.getContent();
-        
-        // Check if it's a JSON with a content field structure that would cause nesting
-        try {
-          const parsed = JSON.parse(rawContent);
-          if (parsed && typeof parsed === 'object' && parsed.content) {
-            // If the output already has a content field, use the content directly
-            // to avoid nesting issues and double stringification
-            content = typeof parsed.content === 'string' ? 
-              parsed.content : JSON.stringify(parsed.content);
-          } else {
-            // Use the parsed object directly to avoid double stringification
-            content = typeof parsed === 'string' ? parsed : JSON.stringify(parsed);
-          }
-        } catch (e) {
-          // If parsing fails, use the original content
-          content = rawContent;
-        }
-      } else if (typeof result.data === 'object' && result.data !== null) {
-        // For regular objects, check if they have a content field to avoid nesting
-        if (result.data.content) {
-          // Use the content directly if it's a string, otherwise stringify it once
-          content = typeof result.data.content === 'string' ? 
-            result.data.content : JSON.stringify(result.data.content);
-        } else {
-          // Use the data directly if it's a string, otherwise stringify it once
-          content = typeof result.data === 'string' ? 
-            result.data : JSON.stringify(result.data);
-        }
-      } else {
-        // For primitive values, convert to string directly
-        content = String(result.data);
-      }
-      
+    if (Array.isArray(result.results)) {
+      // All tool calls of one LLM turn go back as a single message, one tool result per call
+      const toolResults = result.results.map((callResult: any) => ({
+        tool_call_id: callResult.toolCallId,
+        content: this.formatToolResult(callResult)
+      }));
+      session.chat(toolResults.map((r: any) => r.content).join("\n"), "tool", {
+        tool_results: toolResults
+      }).catch(error => {
+        logger.error("Error sending tool results back to LLM:", error);
+      });
+    }
+    else if (result.status === 'success') {
       // Format tool result according to OpenAI convention
       // The content should be just the raw tool output without any additional formatting
-      session.chat(content, "tool", { 
+      session.chat(this.formatToolResult(result), "tool", { 
         tool_call_id: result.toolCallId,
         // Don't add the tool_call flag as it might cause additional processing
         // that leads to nesting
@@ -249,8 +259,7 @@ export abstract class BaseAgent<
     }
     else {
       // For failed tool executions, format error message
-      const errorMessage = `Error: ${result.error}`;
-      session.chat(errorMessage, "tool", { 
+      session.chat(this.formatToolResult(result), "tool", { 
         tool_call_id: result.toolCallId
         // Removed tool_call: true to prevent potential nesting
       }).catch(error => {
@@ -259,6 +268,53 @@ export abstract class BaseAgent<
     }
   }
 
+  private formatToolResult(result: any): string {
+    if (result.status !== 'success') {
+      return `Error: ${result.error}`;
+    }
+
+    let content = '';
+    
+    // Process the tool result data
+    if (result.data instanceof JSONOutput) {
+      // Get the content directly from JSONOutput
+      let rawContent = result.data.getContent();
+      
+      // Check if it's a JSON with a content field structure that would cause nesting
+      try {
+        const parsed = JSON.parse(rawContent);
+        if (parsed && typeof parsed === 'object' && parsed.content) {
+          // If the output already has a content field, use the content directly
+          // to avoid nesting issues and double stringification
+          content = typeof parsed.content === 'string' ? 
+            parsed.content : JSON.stringify(parsed.content);
+        } else {
+          // Use the parsed object directly to avoid double stringification
+          content = typeof parsed === 'string' ? parsed : JSON.stringify(parsed);
+        }
+      } catch (e) {
+        // If parsing fails, use the original content
+        content = rawContent;
+      }
+    } else if (typeof result.data === 'object' && result.data !== null) {
+      // For regular objects, check if they have a content field to avoid nesting
+      if (result.data.content) {
+        // Use the content directly if it's a string, otherwise stringify it once
+        content = typeof result.data.content === 'string' ? 
+          result.data.content : JSON.stringify(result.data.content);
+      } else {
+        // Use the data directly if it's a string, otherwise stringify it once
+        content = typeof result.data === 'string' ? 
+          result.data : JSON.stringify(result.data);
+      }
+    } else {
+      // For primitive values, convert to string directly
+      content = String(result.data);
+    }
+
+    return content;
+  }
+
   private defaultEventHandler(event: any, session: Session): void {
     logger.debug("Event received:", event);
     
@@ -355,26 +411,19 @@ export abstract class BaseAgent<
 
   public async enhancePrompt(message: string): Promise<string> {
     try {
-      let responseContent = "";
-      const stream = await this.core.llmClient.chat.completions.create({
+      const response = await this.core.streamOutsideSession({
         model: this.core.llmConfig?.model || "gpt-4",
         messages: [
           { role: "system", content: this.promptTemplate.getMetaPrompt() },
           { role: "user", content: message },
         ],
-        stream: true,
+      }, (delta) => {
+        this.core.bufferStreamDelta(delta);
       });
-
-      for await (const chunk of stream) {
-        const delta = chunk.choices[0]?.delta?.content || "";
-        responseContent += delta;
-        this.core.streamBuffer += delta;
-        this.core.processStreamBuffer();
-      }
       // Process any remaining content in the buffer
       this.core.processStreamBuffer(true);
 
-      return responseContent || "{}";
+      return response.content || "{}";
     } catch (error) {
       console.log(`Error interacting with LLM: ${error}`);
       throw error;
@@ -389,8 +438,20 @@ export abstract class BaseAgent<
     return this.core.getTool(name);
   }
 
+  public async learnProcedure(run: AgentRunResult, options: LearnProcedureOptions = {}): Promise<IProceduralMemoryUnit> {
+    return this.core.learnProcedure(run, options);
+  }
+
+  public async executeProcedure(id: string, inputs: Record<string, any> = {}): Promise<ProcedureExecution> {
+    return this.core.executeProcedure(id, inputs);
+  }
+
+  public async forgetSubject(subjectId: string): Promise<ForgetSubjectAudit> {
+    return this.core.forgetSubject(subjectId);
+  }
+
   public getSession(sessionId: string): Session | undefined {
-    return this.core.getSessionContext(sessionId).getSession();
+    return this.core.getSessionContext(sessionId)?.getSession();
   }
 
   /**
@@ -35,6 +35,14 @@ export class AgentRequestHandler {
             throw error;
         }
     }
+
+    async onCancel(sessionId: string, reason?: string): Promise<number> {
+        const session = this.agent.getSession(sessionId);
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+        return session.cancel(reason);
+    }
 }
 
 export interface CommunicationProtocol {
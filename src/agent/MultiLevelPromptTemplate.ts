@@ -64,11 +64,13 @@ Remember: Any response not conforming to this exact JSON structure will be treat
   } 
 
   async getSystemPrompt(sessionContext: SessionContext): Promise<string> {
+    // Goals and domain the conversation is about, if any
+    const conversation_state = sessionContext.getConversationState();
     const base_prompt = `
 You are designated as: {role}
 Your goal: {goal}
 Your capabilities: {capabilities}
-    `.trim();
+    `.trim() + (conversation_state ? `\n\n${conversation_state}` : "");
 
     const msg = sessionContext.getLatestMessage();
     this.logger.debug(`getSystemPrompt with Current message: ${msg.payload.input}`,
@@ -44,8 +44,17 @@ export class ReActClassifier<T extends readonly ClassificationTypeConfig[]> exte
       logger.debug('Validating content:', JSON.stringify(content, null, 2));
       
       // Validate against schema types
+      let typedContent = content;
       const matchingSchema = this.schemaTypes.find(type => {
         //logger.debug(`Checking schema type: ${type.name}`);
+        if (type.zodSchema) {
+          // Types with a Zod schema are matched by validation and handlers get the parsed value
+          const result = type.zodSchema.safeParse(content);
+          if (result.success) {
+            typedContent = result.data;
+          }
+          return result.success;
+        }
         const matches = Object.entries(type.schema).every(([key, schemaValue]) => {
           const contentValue = content[key];
           const isValid = this.validateSchemaValue(contentValue, schemaValue);
@@ -65,7 +74,7 @@ export class ReActClassifier<T extends readonly ClassificationTypeConfig[]> exte
       }
 
       const finalResponse = {
-        ...content,
+        ...typedContent,
         messageType: matchingSchema.name
       } as InferClassificationUnion<T>;
 
@@ -5,6 +5,8 @@ import { logger } from "../core/Logger";
 import { InferContext, InferMode, InferStrategy } from "../core/InferContext";
 import { InferContextBuilder } from "../core/InferContextBuilder";
 import { PromptManager, SessionContext } from "../core";
+import { classificationTypeToZod } from "../core/StructuredOutput";
+import { z } from "zod";
 
 interface SchemaFormatting {
   types: string;    // Types description
@@ -47,6 +49,7 @@ export class ReActPromptTemplate<
     }
 
     logger.info(`Mode used for prompt: ${mode.value}`);
+    sessionContext.setCurrentMode(mode.value);
     return mode;
   }
 
@@ -263,9 +266,11 @@ Extended Analysis Protocol:
    - Validate goal alignment
     `.trim();
 
-    return mode.value === 'react' ? 
-      `${base_prompt}\n\n${react_prompt}` : 
-      base_prompt;
+    // Goals and domain the conversation is about, if any
+    const conversation_state = sessionContext.getConversationState();
+    return [base_prompt, mode.value === 'react' ? react_prompt : '', conversation_state]
+      .filter(Boolean)
+      .join('\n\n');
   }
 
 
@@ -382,6 +387,30 @@ The final prompt you output should adhere to the following structure below. Do n
     }
   } 
 
+  /**
+   * Zod version of the MANDATORY RESPONSE FORMAT above, with response_content
+   * restricted to a tool invocation or one of the classification types
+   */
+  getResponseSchema(): z.ZodTypeAny {
+    const toolInvocation = z.object({
+      name: z.string(),
+      parameters: z.record(z.any()).optional(),
+    });
+    const [first, ...rest] = [...this.classificationTypes.map((type) => classificationTypeToZod(type)), toolInvocation];
+    const responseContent = rest.length > 0 ? z.union([first, rest[0], ...rest.slice(1)]) : first;
+
+    return z.object({
+      question_nature: z.string().optional(),
+      context: z.any().optional(),
+      primary_action: z.object({
+        response_purpose: z.enum(["TOOL_INVOCATION", "DIRECT_RESPONSE"]),
+        response_description: z.string(),
+        response_content: responseContent,
+      }),
+      additional_info: z.any().optional(),
+    });
+  }
+
   getClassificationTypes(): T {
     return this.classificationTypes;
   }
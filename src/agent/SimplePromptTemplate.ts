@@ -72,7 +72,9 @@ Core Responsibilities:
        - Validate tool outputs before integration
         `.trim();
 
-    return base_prompt;
+    // Goals and domain the conversation is about, if any
+    const conversation_state = sessionContext.getConversationState();
+    return conversation_state ? `${base_prompt}\n\n${conversation_state}` : base_prompt;
   }
 
   async getAssistantPrompt(sessionContext: SessionContext): Promise<string> {
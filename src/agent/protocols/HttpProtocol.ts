@@ -94,6 +94,24 @@ export class HttpProtocol extends BaseCommunicationProtocol {
                 );
               }
 
+              case '/cancel': {
+                logger.trace('Processing cancel request');
+                const { sessionId, reason } = data as {
+                  sessionId: string;
+                  reason?: string;
+                };
+                const dropped = await this.handler.onCancel(sessionId, reason);
+                return new Response(
+                  JSON.stringify({ status: 'Cancelled', dropped }), 
+                  { 
+                    headers: { 
+                      ...corsHeaders,
+                      'Content-Type': 'application/json' 
+                    } 
+                  }
+                );
+              }
+
               default:
                 logger.trace(`Unknown endpoint: ${url.pathname}`);
                 return new Response('Not found', { 
@@ -348,6 +348,36 @@ export class WebSocketProtocol extends BaseCommunicationProtocol {
               break;
             }
             
+            case 'cancel': {
+              logger.trace('[WebSocketProtocol] Processing cancel request');
+              const sessionId = data.sessionId || (ws.data as any).sessionId;
+
+              if (!sessionId) {
+                ws.send(JSON.stringify({
+                  type: 'error',
+                  error: 'Session ID is required'
+                }));
+                return;
+              }
+
+              try {
+                const dropped = await this.handler.onCancel(sessionId, data.reason);
+                ws.send(JSON.stringify({
+                  type: 'cancelled',
+                  sessionId,
+                  dropped
+                }));
+              } catch (error) {
+                logger.error(`[WebSocketProtocol] Failed to cancel session ${sessionId}: ${error}`);
+                ws.send(JSON.stringify({
+                  type: 'error',
+                  error: error instanceof Error ? error.message : String(error),
+                  sessionId
+                }));
+              }
+              break;
+            }
+            
             default:
               logger.warn(`[WebSocketProtocol] Unknown message type: ${data.type}`);
               ws.send(JSON.stringify({
@@ -7,6 +7,19 @@ import { Session } from "./Session";
 import { InferClassificationUnion } from "./TypeInference";
 import { ParsedLLMResponse, ResponseType } from "./ResponseTypes";
 import { logger } from "./Logger";
+import { ToolCallRequest } from "./ToolCallExecutor";
+
+/**
+ * A tool call in the OpenAI format the LLM returned, before any of its fields were checked
+ */
+interface UncheckedToolCall {
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: unknown;
+  };
+}
 
 export abstract class AbstractClassifier<T extends readonly ClassificationTypeConfig[]>
   implements IClassifier<T>
@@ -120,6 +133,32 @@ export abstract class AbstractClassifier<T extends readonly ClassificationTypeCo
     }
   }
 
+  /**
+   * Read one OpenAI-format tool call; calls without an id cannot be answered and are skipped
+   */
+  private toToolCallRequest(toolCall: UncheckedToolCall): ToolCallRequest | null {
+    if (!toolCall?.id) {
+      logger.warning('Skipping tool call without an id:', toolCall);
+      return null;
+    }
+
+    const toolName = toolCall.function?.name;
+    if (!toolName) {
+      return { toolCallId: toolCall.id, toolName: '', arguments: undefined, invalid: 'Tool call is missing a function name' };
+    }
+
+    let toolArguments = toolCall.function?.arguments;
+    if (typeof toolArguments === 'string') {
+      try {
+        // Tools without parameters may send no arguments at all
+        toolArguments = toolArguments.trim() ? JSON.parse(toolArguments) : {};
+      } catch {
+        return { toolCallId: toolCall.id, toolName, arguments: toolArguments, invalid: `Arguments for tool "${toolName}" are not valid JSON: ${toolArguments}` };
+      }
+    }
+    return { toolCallId: toolCall.id, toolName, arguments: toolArguments };
+  }
+
   public handleLLMResponse(
     response: string,
     session: Session
@@ -143,44 +182,21 @@ export abstract class AbstractClassifier<T extends readonly ClassificationTypeCo
       // Check if the response contains tool calls
       if (toolCallInfo.originalToolCalls && Array.isArray(toolCallInfo.originalToolCalls)) {
         // Process all tool calls in parallel
-        const toolCalls = toolCallInfo.originalToolCalls;
+        const toolCalls: UncheckedToolCall[] = toolCallInfo.originalToolCalls;
         
         // If there are tool calls, trigger handlers for each one
         if (toolCalls.length > 0) {
-          // Process each tool call in parallel
-          toolCalls.forEach(toolCall => {
-            if (toolCall.id && toolCall.function && toolCall.function.name) {
-              // Parse arguments if they're a string
-              let toolArguments = toolCall.function.arguments;
-              
-              if (typeof toolArguments === 'string') {
-                try {
-                  // Try to parse the arguments if they're a JSON string
-                  toolArguments = JSON.parse(toolArguments);
-                } catch {
-                  // If parsing fails, keep the original string
-                  logger.debug('Failed to parse tool arguments as JSON, using as-is');
-                }
-              }
-              
-              const categorizedResponse = {
-                type: ResponseType.TOOL_CALL,
-                id: toolCall.id,
-                name: toolCall.function.name,
-                arguments: toolArguments,
-                originalToolCalls: [toolCall],
-                structuredData: {
-                  id: toolCall.id,
-                  name: toolCall.function.name,
-                  arguments: toolArguments,
-                  originalToolCalls: [toolCall]
-                },
-                messageType: 'TOOL_INVOCATION'
-              };
-              
-              session.triggerToolCallsHandlers(categorizedResponse);
-            }
-          });
+          // All calls are handed to the session as one batch so their results come back together;
+          // a malformed call is answered with an error so the LLM can correct it
+          const batch = toolCalls
+            .map(toolCall => this.toToolCallRequest(toolCall))
+            .filter((call): call is ToolCallRequest => call !== null);
+
+          if (batch.length > 0) {
+            session.triggerToolCallBatch(batch).catch(error => {
+              logger.error('Error executing tool calls:', error);
+            });
+          }
           
           return ResponseType.TOOL_CALL;
         }
@@ -279,6 +295,10 @@ export abstract class AbstractClassifier<T extends readonly ClassificationTypeCo
       } else {
         session.triggerConversationHandlers(parsedLLMResponse);
         session.triggerConversationHandlers(answer);
+        // Results validated against a type's Zod schema are typed, so event handlers get them as well
+        if (this.schemaTypes.some(type => type.name === instruction && type.zodSchema)) {
+          session.triggerEventHandlers(parsedLLMResponse);
+        }
         return ResponseType.CONVERSATION;
       }
     } catch (error) {
@@ -287,6 +307,10 @@ export abstract class AbstractClassifier<T extends readonly ClassificationTypeCo
     }
   }
 
+  public getMessageType(response: string): string | undefined {
+    return this.tryExtractMessageType(response);
+  }
+
   protected tryExtractMessageType(response: string): string | undefined {
     const messageTypeRegex = /"messageType"\s*:\s*"([^"]+)"/;
     const match = response.match(messageTypeRegex);
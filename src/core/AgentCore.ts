@@ -1,30 +1,67 @@
-import { AgentCoreConfig, LLMConfig, Instruction, LoggingConfig, QueryPreProcessor } from "./configs";
+import { AgentCoreConfig, AgentRunLimits, GoalTrackingConfig, LLMConfig, Instruction, LoggingConfig, MemoryRetrievalConfig, QueryPreProcessor } from "./configs";
 import { PromptManager } from "./PromptManager";
 import { PriorityInbox } from "./PriorityInbox";
 import { Message } from "./Message";
 import { Tool, ToolOptions, ToolOutput } from "./Tool";
+import { ToolCallExecutor } from "./ToolCallExecutor";
 import { ExecutionContext } from "./ExecutionContext";
 import crypto from "crypto";
-import { OpenAI } from "openai";
 import { IAgentPromptTemplate } from "./IPromptTemplate";
 import { Session } from "./Session";
-import { SessionContext } from "./SessionContext";
+import { SessionContext, SessionState } from "./SessionContext";
+import { SessionStore, toStoredMessage, fromStoredMessage } from "./SessionStore";
 import { Subject } from "rxjs";
 import { IClassifier } from "./IClassifier";
 import { withTags, Logger } from './Logger';
 import { LLMErrorHandler } from './LLMErrorHandler';
 import { coreLoggers } from './logging';
 import { getEventEmitter } from "./observability/AgentEventEmitter";
+import { AgentEventBuilder } from "./observability/AgentEventBuilder";
+import type { AgentEvent } from "./observability/event_validation";
 import { ResponseType } from "./ResponseTypes";
 import { ConversationDataHandler } from "./ConversationDataHandler";
 
-import { AgentMemorySystem } from "./memory/AgentMemorySystem";
+import { AgentMemorySystem, ForgetSubjectAudit } from "./memory/AgentMemorySystem";
+import { MemoryType } from "./memory/base";
+import { memoryText } from "./memory/embedding/EmbeddingProvider";
+import { FactExtractor } from "./memory/modules/semantic/nlp/FactExtractor";
+import { DEFAULT_PII_DETECTORS, PiiRedactor } from "./memory/PiiRedactor";
+import { LearnProcedureOptions, ProcedureExecution } from "./memory/modules/procedural/ProceduralMemory";
+import { IProceduralMemoryUnit } from "./memory/modules/procedural/types";
+import type { AgentRunResult } from "./AgentRun";
+import { LLMProvider, LLMMessage, LLMChatRequest, LLMChatResponse, LLMStreamHandler, LLMToolDefinition } from "./llm/LLMProvider";
+import { LLMProviderFactory } from "./llm/LLMProviderFactory";
+import { LLMRouter } from "./llm/LLMRouter";
+import { CachingLLMProvider, FileResponseCacheStore, InMemoryResponseCacheStore, ResponseCacheStore } from "./llm/ResponseCache";
+import { TokenUsageTracker, TokenUsageSummary, TokenBudgetExceededError } from "./llm/TokenUsageTracker";
+import { TokenCounter } from "./context/metrics/TokenCounter";
+import { TokenMetric } from "./context/metrics/TokenMetric";
+import { AgeMetric } from "./context/metrics/AgeMetric";
+import { SmartHistoryManager } from "./context/SmartHistoryManager";
+import { SummarizationOptimizer } from "./context/optimizers/SummarizationOptimizer";
+import { SummarizationEngine } from "./context/engines/SummarizationEngine";
+import { TimeDecayOptimizer } from "./context/optimizers/TimeDecayOptimizer";
+import { ConversationMessage } from "./context/types";
+import { repairToolCallSequence } from "./context/ToolCallSequence";
+import { contextWindowFor } from "./llm/ContextWindows";
+import { StructuredOutputValidator, DEFAULT_MAX_REPAIR_ATTEMPTS } from "./StructuredOutput";
+import { MetricsCollector } from "./observability/MetricsCollector";
 
 // Special control sequence for stream completion
 const STREAM_CONTROL = {
   COMPLETE: "\0COMPLETE:",  // Null byte followed by completion reason
 };
 
+// First line of the system message carrying recalled memories
+const MEMORY_CONTEXT_HEADER = "Relevant memories:";
+
+// Response types of DefaultSchemaBuilder that move the goal of the user's request
+const DEFAULT_GOAL_TRACKING: Required<Omit<GoalTrackingConfig, "enabled">> = {
+  openOn: ["CLARIFICATION_NEEDED", "CONFIRMATION_NEEDED"],
+  completeOn: ["TASK_COMPLETE", "COMPLETED_TASK"],
+  pauseOn: ["ERROR_OR_UNABLE"],
+};
+
 // Update the StreamCallback type to include sessionId parameter
 export type StreamCallback = (
   delta: string, 
@@ -41,18 +78,29 @@ export class AgentCore {
   public instructions: Instruction[] = [];
   public llmConfig: LLMConfig | null;
   public executionContext: ExecutionContext = ExecutionContext.getInstance();
+  public runLimits: AgentRunLimits;
+  public toolCallExecutor: ToolCallExecutor;
   promptTemplate: IAgentPromptTemplate;
   private streamCallbacks: Set<StreamCallback> = new Set();
-  streamBuffer: string = "";
-  llmClient: OpenAI;
+  // Stream output not yet passed on to the callbacks, per session ("" outside a session)
+  private streamBuffers: Map<string, string> = new Map();
+  llmProvider: LLMProvider;
+  private tokenUsage: TokenUsageTracker;
+  private llmRouter: LLMRouter;
+  private structuredOutput: StructuredOutputValidator | null = null;
   toolRegistry: Map<string, Tool<any, any, any>> = new Map();
   instructionToolMap: { [key: string]: string } = {};
   queryPreProcessor: QueryPreProcessor | null = null;
 
   private memories: AgentMemorySystem;
+  private memoryRetrieval: MemoryRetrievalConfig | null;
+  private memoryContexts: Map<string, { messageId: string; content?: string }> = new Map();
+  private historyManager: SmartHistoryManager;
+  private goalTracking: GoalTrackingConfig | null;
   private inbox: PriorityInbox;
   private promptManager: PromptManager;
   private sessionContextManager: { [sessionId: string]: SessionContext } = {};
+  private sessionStore: SessionStore | null;
   private classifier: IClassifier<any>;
   private conversationHandlers: ConversationDataHandler[] = [];
 
@@ -74,19 +122,64 @@ export class AgentCore {
     this.goal = config.goal || "";
     this.capabilities = config.capabilities;
     this.instructions = config.instructions || [];
-    this.inbox = new PriorityInbox();
+    this.inbox = new PriorityInbox(config.inboxConfig, this.id);
+    this.runLimits = config.runLimits || {};
+    this.toolCallExecutor = new ToolCallExecutor(config.maxToolConcurrency);
+    this.sessionStore = config.sessionStore || null;
     this.llmConfig = llmConfig || null;
     this.classifier = classifier;
     this.promptTemplate = promptTemplate;
 
 
-    this.memories = new AgentMemorySystem();
+    this.memories = new AgentMemorySystem(config.memoryConfig);
+    this.memories.useTools(name => this.toolRegistry.get(name));
+    const privacy = config.memoryConfig?.privacy;
+    if (privacy && privacy.redaction !== false) {
+      this.memories.useRedactor(new PiiRedactor([...DEFAULT_PII_DETECTORS, ...(privacy.detectors ?? [])]));
+    }
+    const retrieval = config.memoryConfig?.retrieval;
+    this.memoryRetrieval = retrieval && retrieval.enabled !== false ? retrieval : null;
+    this.goalTracking = config.goalTracking?.enabled === false ? null : { ...DEFAULT_GOAL_TRACKING, ...config.goalTracking };
 
     if (this.llmConfig) {
-      this.llmClient = new OpenAI({
-        apiKey: this.llmConfig.apiKey,
-        baseURL: this.llmConfig.baseURL,
-      });
+      this.llmProvider = this.withResponseCache(LLMProviderFactory.create(this.llmConfig));
+      this.tokenUsage = new TokenUsageTracker(this.llmConfig.tokenBudget, this.llmConfig.pricing);
+      this.llmRouter = new LLMRouter(this.llmConfig.routing);
+
+      const contextWindow = this.llmConfig.contextWindow ?? {};
+      this.historyManager = this.memories.createHistoryManager([
+        new TokenMetric(contextWindow.optimizeAboveTokens),
+        new AgeMetric(contextWindow.maxMessageAgeMs),
+      ]);
+      const optimizers = contextWindow.optimizers ?? {
+        "time-decay": new TimeDecayOptimizer(undefined, contextWindow.maxMessageAgeMs),
+        summarization: new SummarizationOptimizer(
+          contextWindow.optimizeAboveTokens,
+          undefined,
+          new SummarizationEngine({
+            llm: () => this.llmProvider,
+            model: contextWindow.summaryModel ?? this.llmConfig.model,
+            goals: (sessionId) => (sessionId && this.sessionContextManager[sessionId]?.getConversationContext()?.getActiveGoals()) || [],
+            onResponse: (request, response, sessionId) => {
+              if (sessionId) this.recordTokenUsage(sessionId, request, response);
+            },
+          })
+        ),
+      };
+      for (const [name, optimizer] of Object.entries(optimizers)) {
+        this.historyManager.registerOptimizer(name, optimizer);
+      }
+
+      const extraction = config.memoryConfig?.factExtraction;
+      if (extraction && extraction.enabled !== false) {
+        const extractor = new FactExtractor(() => this.llmProvider, {
+          model: extraction.model ?? this.llmConfig.model,
+          onResponse: (request, response, sessionId) => {
+            if (sessionId) this.recordTokenUsage(sessionId, request, response);
+          },
+        });
+        this.memories.enableFactExtraction(extractor, extraction);
+      }
     } else {
       throw new Error("No LLM client found");
     }
@@ -124,6 +217,43 @@ export class AgentCore {
     this.queryPreProcessor = processor;
   }
 
+  /**
+   * Replace the provider created from llmConfig, e.g. with a MockLLMProvider in tests
+   */
+  public setLLMProvider(provider: LLMProvider): void {
+    this.llmProvider = this.withResponseCache(provider);
+  }
+
+  /**
+   * Wrap a provider in the response cache configured by llmConfig.responseCache
+   */
+  private withResponseCache(provider: LLMProvider): LLMProvider {
+    const config = this.llmConfig?.responseCache;
+    if (!config) {
+      return provider;
+    }
+
+    let store: ResponseCacheStore;
+    if (config.store === "file") {
+      if (!config.path) {
+        throw new Error("responseCache.path is required for the file store");
+      }
+      store = new FileResponseCacheStore(config.path, config.maxEntries);
+    } else if (config.store && config.store !== "memory") {
+      store = config.store;
+    } else {
+      store = new InMemoryResponseCacheStore(config.maxEntries);
+    }
+
+    return new CachingLLMProvider(provider, store, {
+      ttlMs: config.ttlMs,
+      maxTemperature: config.maxTemperature,
+      onLookup: (hit, request) => {
+        MetricsCollector.getInstance().recordMetric(this.id, hit ? 'cache_hits' : 'cache_misses', 1, { model: request.model });
+      },
+    });
+  }
+
   public addInstruction(
     name: string,
     description: string,
@@ -207,8 +337,8 @@ export class AgentCore {
     return toolName;
   }
 
-  public async receive(message: Message): Promise<void> {
-    this.inbox.enqueue(message);
+  public async receive(message: Message, priority?: string): Promise<void> {
+    this.inbox.enqueue(message, priority);
     //this.contextManager[message.sessionId].addMessage(message);  // Add message to context
   }
 
@@ -225,7 +355,10 @@ export class AgentCore {
     message: string,
     context: any
   ): Object {
-    return this.promptManager.debugPrompt(sessionContext, message, context);
+    const prompt = this.promptManager.debugPrompt(sessionContext, message, context);
+    // Memories injected into the session's latest prompt
+    const memories = this.memoryContexts.get(sessionContext.getSessionId())?.content;
+    return memories ? { ...prompt, memories } : prompt;
   }
 
   private cleanLLMResponse(response: string): string {
@@ -259,11 +392,21 @@ export class AgentCore {
     this.streamCallbacks.delete(callback);
   }
 
+  /**
+   * Add a stream delta to the session's buffer and pass complete lines on to the stream callbacks
+   */
+  bufferStreamDelta(delta: string, sessionId?: string): void {
+    const key = sessionId ?? "";
+    this.streamBuffers.set(key, (this.streamBuffers.get(key) ?? "") + delta);
+    this.processStreamBuffer(false, sessionId);
+  }
+
   processStreamBuffer(force: boolean = false, sessionId?: string) {
     // Split the buffer on newline characters
-    const lines = this.streamBuffer.split("\n");
+    const key = sessionId ?? "";
+    const lines = (this.streamBuffers.get(key) ?? "").split("\n");
     const completeLines = lines.slice(0, -1);
-    this.streamBuffer = lines[lines.length - 1]; // Incomplete line remains in the buffer
+    let buffer = lines[lines.length - 1]; // Incomplete line remains in the buffer
 
     // Process all complete lines
     for (const line of completeLines) {
@@ -278,17 +421,23 @@ export class AgentCore {
 
     // Flush the buffer if it's too large (threshold) or force flush is true
     const bufferThreshold = 100; // You can adjust this value as needed
-    if (force || this.streamBuffer.length > bufferThreshold) {
+    if (force || buffer.length > bufferThreshold) {
       for (const callback of this.streamCallbacks) {
-        if (callback && this.streamBuffer) {
+        if (callback && buffer) {
           try {
-            callback(this.streamBuffer, undefined, sessionId); // Flush with session ID
+            callback(buffer, undefined, sessionId); // Flush with session ID
           } catch (error) {
             this.logger.error(`Error in stream callback during force flush: ${error}`);
           }
         }
       }
-      this.streamBuffer = ""; // Clear the buffer after flushing
+      buffer = ""; // Clear the buffer after flushing
+    }
+
+    if (buffer) {
+      this.streamBuffers.set(key, buffer);
+    } else {
+      this.streamBuffers.delete(key);
     }
   }
 
@@ -297,6 +446,9 @@ export class AgentCore {
     await this.processConversationHandlers(message);
 
     const sessionContext = this.sessionContextManager[message.sessionId];
+    // Captured now so that a cancel() issued while this message is processed aborts it
+    const signal = sessionContext.getSession().getAbortSignal();
+    const run = sessionContext.getSession().getActiveRun();
 
     // Set current agent and session in event emitter
     const emitter = getEventEmitter();
@@ -308,6 +460,7 @@ export class AgentCore {
 
     this.logger.debug(`Sender: ${message.metadata?.sender}`);
     sessionContext.addMessage(message);
+    sessionContext.setLastInteractionTime();
 
     await this.remember(message);
 
@@ -318,31 +471,42 @@ export class AgentCore {
       // Only store the user message in memory (already done above)
       // Do NOT overwrite processedInput.payload.input here, as LLM prompt should be built with synthetic system message
     }
-    // Robust retry logic for LLM call (rate limit, transient errors)
-    const MAX_RETRIES = 5;
-    let attempts = 0;
-    let handled = false;
-    let response: string | undefined = undefined;
-    while (!handled && attempts < MAX_RETRIES) {
-      try {
-        response = await this.promptLLM(processedInput, preprocessResult ?? undefined);
-        handled = true;
-      } catch (err: any) {
-        if (this.isRecoverableLLMError(err) && attempts < MAX_RETRIES - 1) {
-          attempts++;
-          const delay = this.calculateBackoff(attempts);
-          this.logger.warn(`LLM error (retry ${attempts}): ${err?.message || err}. Retrying in ${delay}ms.`);
-          await this.sleep(delay);
-        } else {
-          this.logger.error(`Unrecoverable LLM error or max retries reached: ${err?.message || err}`);
-          this.escalateLLMErrorToUser(message, err, attempts);
-          handled = true;
-          return;
-        }
-      }
+    if (run && !run.beginIteration()) {
+      this.logger.info(`Run ${run.id} stopped before prompting the LLM for message ${message.id}`);
+      return;
     }
+
+    let response = await this.promptLLMWithRetries(processedInput, preprocessResult ?? undefined, signal);
     if (!response) {
-      this.logger.error(`Exited LLM retry loop without a response for message ${message.id}.`);
+      return;
+    }
+
+    // Re-ask with the validation errors until the answer matches the response schema
+    const structuredOutput = this.getStructuredOutputValidator();
+    for (let repairs = 0; structuredOutput && !signal.aborted; repairs++) {
+      const cleaned = this.cleanLLMResponse(response);
+      if (this.isExemptFromStructuredOutput(cleaned)) {
+        break;
+      }
+      const validation = structuredOutput.validate(cleaned);
+      if (validation.success) {
+        break;
+      }
+      if (repairs >= structuredOutput.maxRepairAttempts) {
+        this.logger.warn(`LLM response still fails schema validation after ${repairs} repair attempt(s): ${validation.errors.join("; ")}`);
+        break;
+      }
+      this.logger.info(`LLM response failed schema validation, asking again: ${validation.errors.join("; ")}`, withTags(["response"]));
+      response = await this.promptLLMWithRetries(processedInput, preprocessResult ?? undefined, signal, [
+        { role: "assistant", content: response },
+        { role: "user", content: structuredOutput.getRepairPrompt(validation.errors) },
+      ]);
+      if (!response) {
+        return;
+      }
+    }
+    if (signal.aborted) {
+      this.logger.info(`Discarding response for cancelled message ${message.id}`);
       return;
     }
 
@@ -359,8 +523,14 @@ export class AgentCore {
      * responses as results of tool execution or message routing are wrapped into new Message objects
      * and sent back to the inbox for next turn of processing.
     */
+    // Recorded before classification, which already starts any requested tools
+    run?.recordThink(cleanedResponse);
     const responseType =this.classifier.handleLLMResponse(cleanedResponse, session);
     this.logger.debug(`Response classified as: ${responseType}`, withTags(["response"]));
+    this.trackGoal(sessionContext, this.classifier.getMessageType?.(cleanedResponse));
+
+    // LLMErrorHandler answers with an error reply instead of throwing; it ends the run as failed
+    const errorReply = this.getErrorReply(cleanedResponse);
 
     /*
      * Only responses meant to be sent back to the user are added to memory for context.
@@ -380,10 +550,132 @@ export class AgentCore {
       //sessionContext.addMessage(conversationMessage);
 
       await this.remember(conversationMessage);
+      if (errorReply) {
+        run?.fail(errorReply);
+      } else {
+        run?.complete(extractedData);
+      }
     } else if (responseType === ResponseType.TOOL_CALL) {
       // Create a new message with the tool_calls and remember it
       const toolCallMessage = session.createMessage("", "assistant", { tool_calls: JSON.parse(cleanedResponse) });
       await this.remember(toolCallMessage);
+    } else if (responseType === ResponseType.ROUTING) {
+      // The routed message is handled elsewhere; this run has nothing left to wait for
+      run?.complete(this.promptTemplate.extractDataFromLLMResponse(cleanedResponse));
+    } else if (responseType === ResponseType.EXCEPTION) {
+      run?.fail(errorReply ?? `LLM response could not be parsed: ${cleanedResponse}`);
+    }
+  }
+
+  /**
+   * Open, complete or pause the goal of the user's request according to the
+   * type the response was classified as (see GoalTrackingConfig). A goal opened
+   * this way stays open while the user answers questions about it.
+   */
+  private trackGoal(sessionContext: SessionContext, messageType: string | undefined): void {
+    const goals = sessionContext.getConversationContext();
+    if (!this.goalTracking || !goals || !messageType) return;
+    const { openOn = [], completeOn = [], pauseOn = [] } = this.goalTracking;
+
+    const tracked = goals.getActiveGoals()
+      .filter((goal) => goal.metadata?.source === "classifier")
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+    if (openOn.includes(messageType) && !tracked) {
+      const request = [...sessionContext.getMessages()].reverse().find((message) => this.isFromUser(message));
+      if (!request) return;
+      const id = goals.addUserGoal({
+        description: request.payload.input,
+        metadata: { source: "classifier", messageId: request.id },
+      });
+      this.logger.debug(`Opened goal ${id} on ${messageType}`, withTags(["context"]), { sessionId: sessionContext.getSessionId() });
+    } else if (tracked && (completeOn.includes(messageType) || pauseOn.includes(messageType))) {
+      const status = completeOn.includes(messageType) ? "completed" : "paused";
+      goals.updateUserGoal(tracked.id, { status });
+      this.logger.debug(`Goal ${tracked.id} ${status} on ${messageType}`, withTags(["context"]), { sessionId: sessionContext.getSessionId() });
+    }
+  }
+
+  /**
+   * Prompt the LLM, retrying recoverable errors with backoff
+   * @returns undefined if the call was cancelled or failed for good
+   */
+  private async promptLLMWithRetries(
+    message: Message,
+    preprocessResult: { user: string; systemContext?: string } | undefined,
+    signal: AbortSignal,
+    followUp?: LLMMessage[]
+  ): Promise<string | undefined> {
+    // Robust retry logic for LLM call (rate limit, transient errors)
+    const MAX_RETRIES = 5;
+    let attempts = 0;
+    let handled = false;
+    let response: string | undefined = undefined;
+    while (!handled && attempts < MAX_RETRIES) {
+      try {
+        response = await this.promptLLM(message, preprocessResult, signal, followUp);
+        handled = true;
+      } catch (err: any) {
+        if (signal.aborted) {
+          this.logger.info(`LLM call for message ${message.id} was cancelled`);
+          return undefined;
+        }
+        if (this.isRecoverableLLMError(err) && attempts < MAX_RETRIES - 1) {
+          attempts++;
+          const delay = this.calculateBackoff(attempts);
+          this.logger.warn(`LLM error (retry ${attempts}): ${err?.message || err}. Retrying in ${delay}ms.`);
+          await this.sleep(delay);
+        } else {
+          this.logger.error(`Unrecoverable LLM error or max retries reached: ${err?.message || err}`);
+          this.escalateLLMErrorToUser(message, err, attempts);
+          this.sessionContextManager[message.sessionId]?.getSession().getActiveRun()?.fail(err?.message || String(err));
+          handled = true;
+          return undefined;
+        }
+      }
+    }
+    if (!response) {
+      this.logger.error(`Exited LLM retry loop without a response for message ${message.id}.`);
+    }
+    return response;
+  }
+
+  private getStructuredOutputValidator(): StructuredOutputValidator | null {
+    const config = this.llmConfig?.structuredOutput;
+    if (!config || !this.promptTemplate.getResponseSchema) {
+      return null;
+    }
+    if (!this.structuredOutput) {
+      this.structuredOutput = new StructuredOutputValidator(
+        this.promptTemplate.getResponseSchema(),
+        "agent_response",
+        config.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS
+      );
+    }
+    return this.structuredOutput;
+  }
+
+  /**
+   * Tool calls and error replies from LLMErrorHandler are not answers and are never re-asked
+   */
+  private isExemptFromStructuredOutput(response: string): boolean {
+    try {
+      const parsed = JSON.parse(response);
+      return Array.isArray(parsed) || parsed?.error === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The message of an error reply from LLMErrorHandler, or null for any other response
+   */
+  private getErrorReply(response: string): string | null {
+    try {
+      const parsed = JSON.parse(response);
+      return parsed?.error === true ? String(parsed.message ?? parsed.userMessage ?? "LLM request failed") : null;
+    } catch {
+      return null;
     }
   }
 
@@ -428,10 +720,30 @@ export class AgentCore {
     if (message.metadata?.sender === 'assistant' || message.metadata?.sender === 'tool') {
       await this.processConversationHandlers(message);
     }
-    
+
+    await this.persistMessage(message);
+    await this.storeInMemory(message);
+
+    // Turn boundaries drive the memory monitors, e.g. fact extraction after an answer
+    if (this.isFromUser(message)) {
+      await this.memories.processUserTurn(message.payload.input);
+    } else if (message.metadata?.sender === 'assistant' && !message.metadata?.context?.tool_calls) {
+      await this.memories.processAssistantTurn(message.payload.input);
+    }
+  }
+
+  // Messages of a session owned by a named user are sent under the owner's name
+  private isFromUser(message: Message): boolean {
+    const sender = message.metadata?.sender;
+    return sender === 'user' ||
+      (!!sender && sender !== 'assistant' && sender !== 'tool' &&
+        sender === this.sessionContextManager[message.sessionId]?.getSession().owner);
+  }
+
+  private async storeInMemory(message: Message) {
     // Convert object metadata to Map
     let sender;
-    if (message.metadata?.sender === 'user') {
+    if (this.isFromUser(message)) {
       sender = 'user';
     } else if (message.metadata?.sender === 'assistant') {
       sender = 'assistant';
@@ -443,11 +755,18 @@ export class AgentCore {
       message.metadata ? 
         Object.entries({
           role: sender,
+          messageId: message.id,
           timestamp: message.metadata.timestamp,
           priority: message.metadata.priority,
           ...message.metadata.context
         }) : []
     );
+
+    // Everything said in a session is attributed to its owner (see forgetSubject())
+    const owner = this.sessionContextManager[message.sessionId]?.getSession().owner;
+    if (owner) {
+      metadataMap.set('subjectId', owner);
+    }
     
     // Store content directly for most messages
     let content = message.payload.input;
@@ -461,6 +780,17 @@ export class AgentCore {
       metadataMap.delete('content');
     }
     
+    // A combined result of several tool calls is stored as one tool message per call
+    if (sender === 'tool' && Array.isArray(message.metadata?.context?.tool_results)) {
+      metadataMap.delete('tool_results');
+      for (const toolResult of message.metadata.context.tool_results) {
+        const resultMetadata = new Map(metadataMap);
+        resultMetadata.set('tool_call_id', String(toolResult.tool_call_id));
+        await this.memories.remember(toolResult.content, undefined, resultMetadata, message.sessionId);
+      }
+      return;
+    }
+
     // Handle tool responses
     if (sender === 'tool' && message.metadata?.context?.tool_call_id) {
       metadataMap.set('tool_call_id', message.metadata.context.tool_call_id);
@@ -487,7 +817,140 @@ export class AgentCore {
     return this.sessionContextManager[message.sessionId].getSession();
   }
 
-  private async promptLLM(message: Message, preprocessResult?: { user: string; systemContext?: string }): Promise<string> {
+  /**
+   * Recall long-term memories relevant to the message and format them as a
+   * context block within the configured token budget. The block is built once
+   * per message and reused by the further LLM turns answering it.
+   */
+  private async recallMemoryContext(message: Message): Promise<string | undefined> {
+    if (!this.memoryRetrieval) return undefined;
+
+    const cached = this.memoryContexts.get(message.sessionId);
+    if (cached?.messageId === message.id) return cached.content;
+
+    const {
+      topK = 5,
+      maxTokens = 500,
+      memoryTypes = [MemoryType.SEMANTIC, MemoryType.EPISODIC],
+      recall,
+    } = this.memoryRetrieval;
+
+    let content: string | undefined;
+    try {
+      // Memories learned from other users must not reach this one's prompt
+      const memories = await this.memories.recall(message.payload.input, {
+        minRelevance: 0.1,
+        ...recall,
+        limit: topK,
+        memoryTypes,
+        subjectId: this.sessionContextManager[message.sessionId]?.getSession().owner,
+      });
+
+      const counter = new TokenCounter(this.llmConfig?.model);
+      const lines: string[] = [];
+      let tokens = counter.count(MEMORY_CONTEXT_HEADER);
+      for (const memory of memories) {
+        const line = `- ${memoryText(memory)}`;
+        tokens += counter.count(`\n${line}`);
+        if (tokens > maxTokens) break;
+        lines.push(line);
+      }
+      if (lines.length > 0) {
+        content = `${MEMORY_CONTEXT_HEADER}\n${lines.join("\n")}`;
+      }
+      this.logger.debug(`Recalled ${lines.length} memories for the prompt`, withTags(["memory"]), { sessionId: message.sessionId });
+    } catch (error) {
+      // Answering without memories beats failing the turn
+      this.logger.warn(`Memory retrieval failed: ${error instanceof Error ? error.message : String(error)}`, withTags(["memory"]));
+    }
+
+    this.memoryContexts.set(message.sessionId, { messageId: message.id, content });
+    return content;
+  }
+
+  /**
+   * Recall the session history and fit it into what is left of the model's
+   * context window after the other messages, the tool definitions and the
+   * reserve for the answer
+   */
+  private async buildHistory(
+    sessionId: string,
+    model: string,
+    otherMessages: LLMMessage[],
+    tools: LLMToolDefinition[] = []
+  ): Promise<LLMMessage[]> {
+    const counter = new TokenCounter(model);
+
+    // Pass the session ID to ensure we only get messages for this specific session
+    const messageRecords = await this.memories.recallRecentMessages(sessionId);
+    // References name Message IDs; a message may have been stored as several memories
+    const memoryIds = new Map<string, string[]>();
+    for (const record of messageRecords) {
+      if (record.messageId) {
+        memoryIds.set(record.messageId, [...(memoryIds.get(record.messageId) ?? []), record.id]);
+      }
+    }
+    const conversation: ConversationMessage[] = messageRecords.map((message) => {
+      // Create a basic message structure
+      const mapped: any = {
+        role: message.role,
+        content: message.content
+      };
+
+      // For assistant messages with tool_calls
+      if (message.role === 'assistant' && message.tool_calls) {
+        mapped.tool_calls = message.tool_calls;
+        // When tool_calls is present, content should be omitted per OpenAI convention
+        delete mapped.content;
+      }
+
+      // For tool messages
+      if (message.role === 'tool' && message.tool_call_id) {
+        mapped.tool_call_id = String(message.tool_call_id);
+      }
+
+      return {
+        id: message.id,
+        content: mapped.content ?? "",
+        role: message.role,
+        timestamp: message.timestamp,
+        relevanceScore: 1,
+        importance: 1,
+        tokens: counter.countMessage(mapped),
+        metadata: {
+          llmMessage: mapped as LLMMessage,
+          toolCalls: mapped.tool_calls,
+          toolCallId: mapped.tool_call_id,
+          references: message.references?.flatMap((id: string) => memoryIds.get(id) ?? []),
+          sessionId,
+        },
+      };
+    });
+
+    const contextWindow = this.llmConfig?.contextWindow ?? {};
+    const budget = contextWindowFor(model, contextWindow.models)
+      - (contextWindow.reserveTokens ?? this.llmConfig?.maxTokens ?? 1024)
+      - counter.countMessages(otherMessages)
+      - counter.countTools(tools);
+    const result = await this.historyManager.buildHistory(conversation, Math.max(budget, 0));
+
+    if (result.dropped.length > 0 || result.summarized.length > 0) {
+      this.logger.info(
+        `History fitted into ${budget} tokens: ${result.dropped.length} messages dropped, ${result.summarized.length} summarized`,
+        withTags(["context"]),
+        { sessionId, model, tokenCount: result.tokenCount, dropped: result.dropped, summarized: result.summarized }
+      );
+    }
+    // Summaries written by optimizers are not stored messages
+    return result.messages.map((m) => m.metadata?.llmMessage ?? ({ role: m.role, content: m.content } as LLMMessage));
+  }
+
+  private async promptLLM(
+    message: Message,
+    preprocessResult?: { user: string; systemContext?: string },
+    signal?: AbortSignal,
+    followUp: LLMMessage[] = []
+  ): Promise<string> {
     //this.log(`System prompt: ${this.promptManager.getSystemPrompt()}`);
     const sessionContext = this.sessionContextManager[message.sessionId];
 
@@ -524,38 +987,12 @@ export class AgentCore {
           .map(tool => tool.name)
       });
 
-      // Pass the session ID to ensure we only get messages for this specific session
-    const messageRecords = await this.memories.recallRecentMessages(message.sessionId);
-      const history: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        ...messageRecords.map((message) => {
-          // Create a basic message structure
-          const mapped: any = {
-            role: message.role,
-            content: message.content
-          };
-          
-          // For assistant messages with tool_calls
-          if (message.role === 'assistant' && message.tool_calls) {
-            mapped.tool_calls = message.tool_calls;
-            // When tool_calls is present, content should be omitted per OpenAI convention
-            delete mapped.content;
-          }
-          
-          // For tool messages
-          if (message.role === 'tool' && message.tool_call_id) {
-            mapped.tool_call_id = String(message.tool_call_id);
-          }
-          
-          return mapped as OpenAI.Chat.Completions.ChatCompletionMessageParam;
-        }),
-      ];
-
       const systemPrompt = await this.promptManager.getSystemPrompt(sessionContext);
       const assistantPrompt = await this.promptManager.getAssistantPrompt(sessionContext);
 
       // Construct messages array
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        { role: "system", content: systemPrompt },
+      const messages: LLMMessage[] = [
+        { role: "system", content: systemPrompt, ...(this.llmConfig?.promptCaching ? { cache: true } : {}) },
       ];
       
       // Only add assistant prompt if it's not empty
@@ -567,19 +1004,45 @@ export class AgentCore {
       if (preprocessResult && preprocessResult.systemContext) {
         messages.push({ role: "system", content: `Context: ${preprocessResult.systemContext}` });
       }
+
+      const memoryContext = await this.recallMemoryContext(message);
+      if (memoryContext) {
+        messages.push({ role: "system", content: memoryContext });
+      }
       
-      // Add history
-      messages.push(...history);
+      // Assistant prompt evaluation above records the strategy mode used for routing
+      const model = this.llmRouter.selectModel(this.llmConfig?.model || "gpt-4", {
+        mode: sessionContext.getCurrentMode(),
+        priority: message.metadata?.priority,
+      });
+
+      // Add history, then any transient turns such as a request to fix an invalid answer
+      const tools = this.llmProvider.supportsToolCalls ? unmappedTools : undefined;
+      const history = await this.buildHistory(message.sessionId, model, [...messages, ...followUp], tools);
+      messages.push(...history, ...followUp);
+
+      // APIs reject tool results without their call and calls without their results
+      const sequence = repairToolCallSequence(messages);
+      if (sequence.issues.length > 0) {
+        this.logger.warn(`Repaired tool call sequence before sending: ${sequence.issues.join("; ")}`, withTags(["context", "tool_calls"]), {
+          sessionId: message.sessionId,
+        });
+        messages.splice(0, messages.length, ...sequence.messages);
+      }
 
       // Pretty print the actual messages sent to the LLM (system, assistant, context, and history) with improved readability
       this.promptLogger.debug('[LLM PROMPT] Actual messages sent to LLM:\n' +
         messages.map((m, idx) => {
           // Label role, highlight context
           let isContext = false;
+          let isMemory = false;
           if (m.role === 'system' && typeof m.content === 'string' && m.content.startsWith('Context:')) {
             isContext = true;
           }
-          const roleLabel = `[${m.role}${isContext ? '/context' : ''}]`;
+          if (m.role === 'system' && typeof m.content === 'string' && m.content.startsWith(MEMORY_CONTEXT_HEADER)) {
+            isMemory = true;
+          }
+          const roleLabel = `[${m.role}${isContext ? '/context' : ''}${isMemory ? '/memories' : ''}]`;
           // Try to parse content if it's JSON, else print as-is
           let content = m.content;
           if (typeof content === 'string') {
@@ -598,141 +1061,82 @@ export class AgentCore {
         }).join('\n\n')
       );
 
-      // Split into separate configs for streaming and non-streaming
-      const baseConfig = {
-        model: this.llmConfig?.model || "gpt-4",
+      const request: LLMChatRequest = {
+        model,
         messages,
-        tools: unmappedTools.length > 0 ? unmappedTools : undefined,
-        ...(unmappedTools.length > 0 ? { tool_choice: "auto" as const } : {}),
-        ...(this.llmConfig?.maxTokens ? { max_tokens: this.llmConfig.maxTokens } : {}),
-        ...(this.llmConfig?.temperature ? { temperature: this.llmConfig.temperature } : {}),
+        tools,
+        maxTokens: this.llmConfig?.maxTokens,
+        temperature: this.llmConfig?.temperature,
+        signal,
       };
-      this.logger.trace('LLM prompt config:', JSON.stringify(baseConfig, null, 2));
-      // Variable to track if we detected tool calls during streaming
-      let toolCallsInProgress = false;
-      
-      // Stream mode
-      if (this.llmConfig?.streamMode && this.streamCallbacks.size > 0) {
-        const streamConfig: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming =
-          {
-            ...baseConfig,
-            stream: true,
-          };
-
-        let stream;
-        try {
-          stream = await this.llmClient.chat.completions.create(streamConfig);
-        } catch (error: any) {
-          this.logger.error(`Error in streaming LLM call: ${error?.message || 'Unknown error'}`, withTags(["error", "llm-api"]));
-          // Handle the error gracefully using our error handler
-          responseContent = await LLMErrorHandler.handleError(error, sessionContext.getSession());
-          return responseContent;
-        }
+      const structuredOutput = this.getStructuredOutputValidator();
+      if (structuredOutput && this.llmConfig?.structuredOutput?.native !== false && this.llmProvider.supportsStructuredOutput) {
+        request.responseFormat = structuredOutput.getResponseFormat();
+      }
+      this.logger.trace('LLM prompt config:', JSON.stringify(request, null, 2));
+
+      const budgetDecision = this.tokenUsage.checkBudget(message.sessionId, request.model);
+      if (budgetDecision.action === "refuse") {
+        this.logger.warn(`Refusing LLM call: ${budgetDecision.reason}`, withTags(["budget"]));
+        return await LLMErrorHandler.handleError(
+          new TokenBudgetExceededError(budgetDecision.reason),
+          sessionContext.getSession()
+        );
+      }
+      if (budgetDecision.action === "downgrade") {
+        this.logger.info(`${budgetDecision.reason}, downgrading model to ${budgetDecision.model}`, withTags(["budget"]));
+        request.model = budgetDecision.model;
+      }
 
-        let chunks = [];
-        let toolCallsInProgress = false;
-        let currentToolCalls = [];
-        
-        for await (const chunk of stream) {
-          chunks.push(chunk);
-          const delta = chunk.choices[0]?.delta;
-          
-          // Process tool calls directly from the delta (similar to OpenAI sample)
-          if (delta.tool_calls) {
-            toolCallsInProgress = true;
-            
-            // Log tool call detection
-            this.logger.debug('Tool call detected in stream chunk', withTags(['response', 'tool_calls']), {
-              toolCallDelta: delta.tool_calls
-            });
-            
-            // We'll collect tool calls and process them after the stream
-            for (const toolCallDelta of delta.tool_calls) {
-              // Initialize the tool call if it's new
-              if (!currentToolCalls[toolCallDelta.index]) {
-                currentToolCalls[toolCallDelta.index] = {
-                  id: toolCallDelta.id || '',
-                  type: 'function',
-                  function: {
-                    name: '',
-                    arguments: ''
-                  }
-                };
-              }
-              
-              // Update the tool call with the delta information
-              const currentTool = currentToolCalls[toolCallDelta.index];
-              
-              if (toolCallDelta.id) {
-                currentTool.id = toolCallDelta.id;
-              }
-              
-              if (toolCallDelta.function) {
-                if (toolCallDelta.function.name) {
-                  currentTool.function.name = toolCallDelta.function.name;
-                }
-                
-                if (toolCallDelta.function.arguments) {
-                  currentTool.function.arguments += toolCallDelta.function.arguments;
-                }
-              }
-            }
-          }
-          
-          // Process content delta (if any)
-          const contentDelta = delta.content || "";
-          responseContent += contentDelta;
-          this.streamBuffer += contentDelta;
-          this.processStreamBuffer(undefined, message.sessionId);
-        }
+      const isStreamMode = !!this.llmConfig?.streamMode &&
+        this.streamCallbacks.size > 0 &&
+        this.llmProvider.supportsStreaming;
 
-        // Make sure all buffered data is sent before completion signal
-        if (this.streamBuffer) {
-          this.processStreamBuffer(true, message.sessionId);
-        }
+      let llmResponse: LLMChatResponse;
+      try {
+        if (isStreamMode) {
+          llmResponse = await this.llmProvider.stream(request, (delta) => {
+            this.bufferStreamDelta(delta, message.sessionId);
+          });
 
-        if (chunks.length === 0) {
-          this.logger.error('[promptLLM] No chunks received from LLM stream; aborting response handling.', withTags(['error', 'llm-api']));
-          return '[ERROR] No response chunks received from LLM stream.';
-        }
-        const lastChunk = chunks[chunks.length - 1];
-        const finishReason = lastChunk.choices[0]?.finish_reason;
-        
-        // If we collected tool calls during streaming, use those
-        if (toolCallsInProgress && currentToolCalls.length > 0) {
-          // Filter out any undefined entries (can happen with sparse arrays)
-          const validToolCalls = currentToolCalls.filter(call => call !== undefined);
-          
-          if (validToolCalls.length > 0) {
-            this.logger.debug('Using tool calls collected during streaming', withTags(['response', 'tool_calls']), {
-              toolCallCount: validToolCalls.length,
-              toolCalls: validToolCalls
-            });
-            responseContent = JSON.stringify(validToolCalls);
-            return responseContent;
+          // Make sure all buffered data is sent before completion signal
+          if (this.streamBuffers.has(message.sessionId)) {
+            this.processStreamBuffer(true, message.sessionId);
           }
+        } else {
+          llmResponse = await this.llmProvider.chat(request);
         }
-        
-        // Fallback: Check if this is a tool call response by examining the finish reason
-        if (finishReason === 'tool_calls') {
-          // Use the existing reconstructToolCalls method to handle tool calls in stream mode
-          const toolCalls = this.reconstructToolCalls(chunks);
-          if (toolCalls && toolCalls.length > 0) {
-            this.logger.debug('Reconstructed tool calls from stream chunks', withTags(['response', 'tool_calls']), {
-              toolCallCount: toolCalls.length,
-              toolCalls: toolCalls
-            });
-            responseContent = JSON.stringify(toolCalls);
-            return responseContent;
-          }
+      } catch (error: any) {
+        if (signal?.aborted) {
+          // Cancelled by the session; drop partial stream output and let processMessage stop
+          this.streamBuffers.delete(message.sessionId);
+          throw error;
         }
-        this.logger.debug(`[promptLLM] Stream finished with reason: ${finishReason}`, withTags(["response"]));
-        
+        this.logger.error(`Error in ${isStreamMode ? 'streaming' : 'non-streaming'} LLM call: ${error?.message || 'Unknown error'}`, withTags(["error", "llm-api"]));
+        // Handle the error gracefully using our error handler
+        responseContent = await LLMErrorHandler.handleError(error, sessionContext.getSession());
+        return responseContent;
+      }
+
+      this.recordTokenUsage(message.sessionId, request, llmResponse);
+
+      // Tool calls are handed to the classifier as a JSON array in OpenAI format
+      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
+        this.logger.debug('Using tool calls returned by LLM provider', withTags(['response', 'tool_calls']), {
+          toolCallCount: llmResponse.toolCalls.length,
+          toolCalls: llmResponse.toolCalls
+        });
+        return JSON.stringify(llmResponse.toolCalls);
+      }
+
+      const finishReason = llmResponse.finishReason;
+      this.logger.debug(`[promptLLM] LLM finished with reason: ${finishReason}`, withTags(["response"]));
+
+      if (isStreamMode) {
+        responseContent = llmResponse.content;
+
         // Only send completion signal after all data is processed
-        if (this.llmConfig?.streamMode && 
-            this.streamCallbacks.size > 0 && 
-            finishReason && 
-            !this.streamBuffer) {  // Ensure buffer is empty
+        if (finishReason && !this.streamBuffers.has(message.sessionId)) {  // Ensure buffer is empty
           for (const callback of this.streamCallbacks) {
             try {
               callback("", { type: 'completion', reason: finishReason }, message.sessionId);
@@ -742,36 +1146,9 @@ export class AgentCore {
           }
         }
       } else {
-        // Non-stream mode
-        const nonStreamConfig: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming =
-          {
-            ...baseConfig,
-            stream: false,
-          };
-
-        let response;
-        try {
-          response = await this.llmClient.chat.completions.create(nonStreamConfig);
-        } catch (error: any) {
-          this.logger.error(`Error in non-streaming LLM call: ${error?.message || 'Unknown error'}`, withTags(["error", "llm-api"]));
-          // Handle the error gracefully using our error handler
-          responseContent = await LLMErrorHandler.handleError(error, sessionContext.getSession());
-          return responseContent;
-        }
-        const message = response.choices[0].message;
-        const finishReason = response.choices[0].finish_reason;
-        this.logger.debug(`[promptLLM] Non-stream finished: ${JSON.stringify(message, null, 2)}`, withTags(["response"]));
-        const isToolCalls = finishReason === "tool_calls";
-
-        if (isToolCalls && message.tool_calls) {
-          responseContent = JSON.stringify(message.tool_calls);
-        } else {
-          responseContent = message.content || "{}";
-        }
+        responseContent = llmResponse.content || "{}";
       }
-      //console.log(`Agent Core Response content: ${responseContent}`);
 
-      // Handle function execution
       try {
         this.logger.debug('Raw LLM response:', 
           withTags(['response']),{
@@ -780,110 +1157,6 @@ export class AgentCore {
           lastChars: responseContent.substring(responseContent.length - 50)
         });
         
-        // Final fallback: Check for special token formats (common in streaming mode with some models)
-        // Only apply this if we're in stream mode and haven't already handled tool calls via other methods
-        const isStreamMode = this.llmConfig?.streamMode && this.streamCallbacks.size > 0;
-        const hasSpecialTokenFormat = responseContent.includes('<｜tool▁calls▁begin｜>') || 
-                                    responseContent.includes('<|tool_calls_begin|>');
-                                    
-        if (isStreamMode && hasSpecialTokenFormat && !toolCallsInProgress) {
-          this.logger.debug('Detected special token format in stream response', withTags(['response', 'stream']));
-          
-          // First, try to extract the function name from the special token format
-          let toolName = null;
-          let toolArgs = {};
-          
-          // Log the full response for debugging
-          this.logger.debug('Full special token response for debugging:', withTags(['response', 'debug']), {
-            fullResponse: responseContent
-          });
-          
-          // Pattern to extract function name from various formats
-          const functionNameMatch = responseContent.match(/function<｜tool_name｜>([\w_]+)/) || 
-                                   responseContent.match(/function<\|tool_name\|>([\w_]+)/) ||
-                                   responseContent.match(/<｜tool▁call▁begin｜>function<｜t[^>]*>([\w_]+)/) ||
-                                   responseContent.match(/<\|tool_call_begin\|>function<\|t[^>]*>([\w_]+)/) ||
-                                   responseContent.match(/list_allowed_directories/);
-          
-          if (functionNameMatch) {
-            // If we matched the pattern but don't have a capture group (like with the list_allowed_directories match)
-            if (functionNameMatch[1]) {
-              toolName = functionNameMatch[1];
-            } else if (responseContent.includes('list_allowed_directories')) {
-              toolName = 'list_allowed_directories';
-            }
-            
-            this.logger.debug(`Extracted tool name from special token format: ${toolName}`, 
-              withTags(['response', 'recovery']));
-          }
-          
-          // Extract JSON content from between tokens or code blocks
-          try {
-            // Look for JSON content between markers or in code blocks
-            const jsonMatch = responseContent.match(/```json\s*([\s\S]*?)\s*```/) || 
-                             responseContent.match(/\{[\s\S]*\}/g);
-            
-            if (jsonMatch && jsonMatch[0]) {
-              const jsonContent = jsonMatch[0].startsWith('```') ? jsonMatch[1] : jsonMatch[0];
-              this.logger.debug('Extracted potential JSON from special token format', withTags(['response', 'recovery']));
-              
-              try {
-                // Try to parse the JSON content
-                toolArgs = JSON.parse(jsonContent.trim() || '{}');
-              } catch (parseError) {
-                this.logger.warn(`Failed to parse extracted JSON: ${parseError}`, withTags(['response', 'recovery']));
-                toolArgs = {};
-              }
-              
-              // If we have a tool name, construct a proper tool call
-              if (toolName) {
-                const toolCall = {
-                  id: `call_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 7)}`,
-                  type: 'function',
-                  function: {
-                    name: toolName,
-                    arguments: JSON.stringify(toolArgs)
-                  }
-                };
-                
-                this.logger.debug(`Constructed tool call from special token format: ${JSON.stringify(toolCall)}`, 
-                  withTags(['response', 'recovery']));
-                  
-                // Set responseContent to the tool call array
-                responseContent = JSON.stringify([toolCall]);
-              } else {
-                // No tool name found, just use the extracted JSON
-                responseContent = jsonContent.trim() || '{}';
-              }
-            } else if (toolName) {
-              // We have a tool name but no JSON arguments, create a tool call with empty args
-              const toolCall = {
-                id: `call_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 7)}`,
-                type: 'function',
-                function: {
-                  name: toolName,
-                  arguments: '{}'
-                }
-              };
-              
-              this.logger.debug(`Constructed tool call with empty args: ${JSON.stringify(toolCall)}`, 
-                withTags(['response', 'recovery']));
-                
-              // Set responseContent to the tool call array
-              responseContent = JSON.stringify([toolCall]);
-            } else {
-              // Fallback to empty object if no JSON found and no tool name
-              this.logger.warn('Could not extract JSON or tool name from special token format', 
-                withTags(['response', 'recovery']));
-              responseContent = '{}';
-            }
-          } catch (extractError) {
-            this.logger.error(`Error extracting content from special token format: ${extractError}`, 
-              withTags(['error', 'recovery-failed']));
-            responseContent = '{}';
-          }
-        }
-        
         // Attempt to parse the response as JSON
         try {
           const parsed = JSON.parse(responseContent);
@@ -926,83 +1199,215 @@ export class AgentCore {
     owner: string,
     description: string
   ): Promise<Session> {
+    // Refuse before anything is saved when the first message cannot be queued
+    this.inbox.assertCapacity();
+
     // Construct a Session object
     const s: Session = new Session(this, owner, "", description, "");
     // Initialize session context and get the session ID
     const sessionId = this.initSessionContext(s);
     s.sessionId = sessionId; // Set the generated session ID to the Session object
+    await this.persistSession(sessionId);
 
     // Create a Message object with session ID and description
     const message = s.createMessage(s.description);
-    this.inbox.enqueue(message); // Enqueue the message
+    try {
+      this.inbox.enqueue(message); // Enqueue the message
+    } catch (error) {
+      // The inbox filled up while the session was being saved
+      delete this.sessionContextManager[sessionId];
+      await this.sessionStore?.deleteSession(sessionId).catch((deleteError) =>
+        this.logger.warn(`Failed to delete session ${sessionId}: ${deleteError}`)
+      );
+      throw error;
+    }
     this.logger.debug(`createSession called with description: ${description}`);
 
     return s;
   }
 
-  public getSessionContext(sessionId: string): SessionContext {
-    return this.sessionContextManager[sessionId];
+  /**
+   * Token usage for a single session, or for the whole agent when no session is given
+   */
+  public getTokenUsage(sessionId?: string): TokenUsageSummary {
+    return sessionId ? this.tokenUsage.getSessionUsage(sessionId) : this.tokenUsage.getTotalUsage();
   }
 
-  private initSessionContext(session: Session): string {
-    const sessionId = crypto.randomUUID(); // Generate a unique session ID
-    const sessionContext = new SessionContext(session); // Create a SessionContext
-    this.sessionContextManager[sessionId] = sessionContext; // Store it in the context manager
-    return sessionId; // Return the generated session ID
+  public getDailyTokenUsage(date?: Date): TokenUsageSummary {
+    return this.tokenUsage.getDailyUsage(date);
   }
 
   /**
-   * Reconstructs complete tool calls from stream chunks.
-   * OpenAI streams tool calls piece by piece, so we need to accumulate and reconstruct them.
+   * Stream an LLM call that belongs to no session, e.g. enhancing a prompt before
+   * its session is created. The daily budget applies and the usage is recorded.
    */
-  private reconstructToolCalls(chunks: any[]): any[] {
-    this.logger.debug('Reconstructing tool calls from chunks', withTags(['tool_calls']), {
-      chunkCount: chunks.length
+  public async streamOutsideSession(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    const budgetDecision = this.tokenUsage.checkBudget(undefined, request.model);
+    if (budgetDecision.action === "refuse") {
+      this.logger.warn(`Refusing LLM call: ${budgetDecision.reason}`, withTags(["budget"]));
+      throw new TokenBudgetExceededError(budgetDecision.reason);
+    }
+    if (budgetDecision.action === "downgrade") {
+      this.logger.info(`${budgetDecision.reason}, downgrading model to ${budgetDecision.model}`, withTags(["budget"]));
+      request = { ...request, model: budgetDecision.model };
+    }
+
+    const response = await this.llmProvider.stream(request, onDelta);
+    this.recordTokenUsage(undefined, request, response);
+    return response;
+  }
+
+  private recordTokenUsage(sessionId: string | undefined, request: LLMChatRequest, response: LLMChatResponse): void {
+    let usage = response.usage;
+    if (!usage) {
+      // Some endpoints omit usage (notably when streaming), so fall back to an estimate
+      const counter = new TokenCounter(request.model);
+      const promptTokens = counter.countMessages(request.messages) + counter.countTools(request.tools);
+      const completionTokens = counter.count(
+        response.content + (response.toolCalls ? JSON.stringify(response.toolCalls) : "")
+      );
+      usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+
+    const model = response.model ?? request.model;
+    const sessionUsage = this.tokenUsage.record(sessionId, model, usage);
+    const metrics = MetricsCollector.getInstance();
+    metrics.recordMetric(this.id, 'tokens', usage.totalTokens);
+    metrics.recordMetric(this.id, 'prompt_tokens', usage.promptTokens);
+    metrics.recordMetric(this.id, 'completion_tokens', usage.completionTokens);
+
+    this.logger.debug('Recorded token usage', withTags(['usage']), {
+      sessionId,
+      model,
+      usage,
+      sessionTotal: sessionUsage.totalTokens,
+      estimated: !response.usage
     });
-    
-    const toolCallsMap = new Map<string, any>();
-    
-    for (const chunk of chunks) {
-      const toolCallDeltas = chunk.choices[0]?.delta?.tool_calls || [];
-      
-      for (const delta of toolCallDeltas) {
-        const index = delta.index;
-        
-        if (!toolCallsMap.has(String(index))) {
-          toolCallsMap.set(String(index), {
-            id: delta.id || "",
-            function: {
-              name: "",
-              arguments: ""
-            },
-            type: "function"
-          });
-        }
-        
-        const currentTool = toolCallsMap.get(String(index));
-        
-        // Update the id if provided
-        if (delta.id) {
-          currentTool.id = delta.id;
-        }
-        
-        // Update function properties
-        if (delta.function) {
-          if (delta.function.name) {
-            currentTool.function.name = delta.function.name;
-          }
-          
-          if (delta.function.arguments) {
-            currentTool.function.arguments += delta.function.arguments;
-          }
+  }
+
+  /**
+   * Drop queued messages of a session and announce the cancellation. In-flight
+   * work is aborted through the session's AbortSignal (see Session.cancel()).
+   * @returns Number of queued messages that were dropped
+   */
+  public cancelSession(sessionId: string, reason: string): number {
+    const dropped = this.inbox.removeSession(sessionId);
+    this.logger.info(`Session ${sessionId} cancelled (${reason}), dropped ${dropped} queued message(s)`);
+
+    const emitter = getEventEmitter();
+    emitter.setCurrentAgent(this.id);
+    emitter.setCurrentSession(sessionId);
+    const event = AgentEventBuilder.getInstance()
+      .create()
+      .withType('TASK_CANCELLED')
+      .withSource(this.name)
+      .withData({
+        taskInfo: {
+          taskId: sessionId,
+          taskType: 'session',
+          taskDescription: reason,
+          status: 'CANCELLED'
         }
-        
-        toolCallsMap.set(String(index), currentTool);
+      })
+      .build();
+    emitter.emit('TASK_CANCELLED', event as AgentEvent);
+
+    return dropped;
+  }
+
+  public getSessionContext(sessionId: string): SessionContext {
+    return this.sessionContextManager[sessionId];
+  }
+
+  /**
+   * Load a session from the session store, restoring its state and replaying
+   * its history into memory. Sessions that are already loaded are returned as is.
+   */
+  public async resumeSession(sessionId: string): Promise<Session> {
+    const existing = this.sessionContextManager[sessionId];
+    if (existing) {
+      return existing.getSession();
+    }
+    if (!this.sessionStore) {
+      throw new Error(`Cannot resume session ${sessionId}: no session store configured`);
+    }
+    const record = await this.sessionStore.loadSession(sessionId);
+    if (!record) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const stored = record.session;
+    const session = new Session(this, stored.owner, sessionId, stored.description, stored.parentSessionId);
+    const sessionContext = new SessionContext(session);
+    sessionContext.setConversationContext(this.memories.createConversationContext());
+    sessionContext.restore(stored);
+    this.sessionContextManager[sessionId] = sessionContext;
+
+    for (const storedMessage of record.messages) {
+      const message = fromStoredMessage(sessionId, storedMessage);
+      // Assistant turns are kept in memory only, as in processMessage
+      if (message.metadata?.sender !== 'assistant') {
+        sessionContext.addMessage(message);
       }
+      await this.storeInMemory(message);
     }
-    
-    // Convert the map to an array
-    return Array.from(toolCallsMap.values());
+
+    this.logger.info(`Resumed session ${sessionId} with ${record.messages.length} message(s)`);
+    return session;
+  }
+
+  /**
+   * Resume every stored session that has not been terminated
+   */
+  public async restoreSessions(): Promise<Session[]> {
+    if (!this.sessionStore) {
+      return [];
+    }
+    const sessions: Session[] = [];
+    for (const stored of await this.sessionStore.listSessions()) {
+      if (stored.state === SessionState.Terminated || this.sessionContextManager[stored.sessionId]) {
+        continue;
+      }
+      try {
+        sessions.push(await this.resumeSession(stored.sessionId));
+      } catch (error) {
+        this.logger.warn(`Failed to restore session ${stored.sessionId}: ${error}`);
+      }
+    }
+    return sessions;
+  }
+
+  private async persistSession(sessionId: string): Promise<void> {
+    const sessionContext = this.sessionContextManager[sessionId];
+    if (!this.sessionStore || !sessionContext) {
+      return;
+    }
+    try {
+      await this.sessionStore.saveSession(sessionContext.toStoredSession());
+    } catch (error) {
+      this.logger.warn(`Failed to persist session ${sessionId}: ${error}`);
+    }
+  }
+
+  private async persistMessage(message: Message): Promise<void> {
+    if (!this.sessionStore || !this.sessionContextManager[message.sessionId]) {
+      return;
+    }
+    try {
+      // The snapshot is refreshed too, since the turn may have changed mode or instruction
+      await this.sessionStore.saveSession(this.sessionContextManager[message.sessionId].toStoredSession());
+      await this.sessionStore.appendMessage(message.sessionId, toStoredMessage(message));
+    } catch (error) {
+      this.logger.warn(`Failed to persist message ${message.id} of session ${message.sessionId}: ${error}`);
+    }
+  }
+
+  private initSessionContext(session: Session): string {
+    const sessionId = crypto.randomUUID(); // Generate a unique session ID
+    const sessionContext = new SessionContext(session); // Create a SessionContext
+    sessionContext.setConversationContext(this.memories.createConversationContext());
+    this.sessionContextManager[sessionId] = sessionContext; // Store it in the context manager
+    return sessionId; // Return the generated session ID
   }
 
   public registerTool<TInput, TOutput extends ToolOutput>(
@@ -1023,6 +1428,41 @@ export class AgentCore {
     return this.toolRegistry.get(name);
   }
 
+  /**
+   * Remember the tool calls of a completed multi-tool run as a procedure that
+   * can later be executed without the LLM
+   */
+  public async learnProcedure(run: AgentRunResult, options: LearnProcedureOptions = {}): Promise<IProceduralMemoryUnit> {
+    return this.memories.learnProcedure(run, options);
+  }
+
+  public async executeProcedure(id: string, inputs: Record<string, any> = {}): Promise<ProcedureExecution> {
+    return this.memories.executeProcedure(id, inputs);
+  }
+
+  /**
+   * Erase a user's data: their sessions are cancelled and removed along with
+   * their persisted histories, and everything remembered from them is purged
+   * from memory. Returns the audit record of the request.
+   */
+  public async forgetSubject(subjectId: string): Promise<ForgetSubjectAudit> {
+    const sessionIds = new Set(Object.keys(this.sessionContextManager)
+      .filter(sessionId => this.sessionContextManager[sessionId].getSession().owner === subjectId));
+    if (this.sessionStore) {
+      for (const stored of await this.sessionStore.listSessions()) {
+        if (stored.owner === subjectId) sessionIds.add(stored.sessionId);
+      }
+    }
+
+    for (const sessionId of sessionIds) {
+      this.sessionContextManager[sessionId]?.getSession().cancel("Subject data erased");
+      delete this.sessionContextManager[sessionId];
+      this.memoryContexts.delete(sessionId);
+      await this.sessionStore?.deleteSession(sessionId);
+    }
+    return this.memories.forgetSubject(subjectId, Array.from(sessionIds));
+  }
+
   public toJSON(): string {
     return JSON.stringify({
       id: this.id,
@@ -1059,6 +1499,11 @@ export class AgentCore {
     // Close LLM client if necessary
     // Note: As of now, OpenAI's Node.js client doesn't require explicit closure
 
+    // Write out cached responses the store still buffers
+    if (this.llmProvider instanceof CachingLLMProvider) {
+      await this.llmProvider.flush().catch((error) => this.logger.warn(`Failed to flush the response cache: ${error}`));
+    }
+
     this.logger.debug('Core shutdown complete.');
   }
 
@@ -0,0 +1,243 @@
+import crypto from "crypto";
+import { AgentRunLimits } from "./configs";
+import { Session } from "./Session";
+import { withTags } from "./Logger";
+import { coreLoggers } from "./logging";
+import { getEventEmitter } from "./observability/AgentEventEmitter";
+import { AgentEventBuilder } from "./observability/AgentEventBuilder";
+import type { AgentEvent } from "./observability/event_validation";
+
+export const DEFAULT_RUN_LIMITS: Required<AgentRunLimits> = {
+  maxIterations: 10,
+  maxDurationMs: 5 * 60 * 1000,
+  maxToolCalls: 25,
+};
+
+export type AgentRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'limit_exceeded';
+
+export type AgentRunStepType = 'think' | 'act' | 'observe';
+
+export interface AgentRunStep {
+  index: number;
+  type: AgentRunStepType;
+  timestamp: string;
+  /** LLM output for think steps, tool output or error for observe steps */
+  content?: string;
+  toolName?: string;
+  toolCallId?: string;
+  arguments?: any;
+  status?: 'success' | 'failure';
+}
+
+export interface AgentRunResult {
+  runId: string;
+  sessionId: string;
+  status: AgentRunStatus;
+  answer?: string;
+  /** Why the run ended without an answer */
+  reason?: string;
+  steps: AgentRunStep[];
+  iterations: number;
+  toolCalls: number;
+  durationMs: number;
+}
+
+/**
+ * Thrown (via AgentRun.result) when a run ends without a final answer
+ */
+export class AgentRunError extends Error {
+  constructor(message: string, public readonly result: AgentRunResult) {
+    super(message);
+    this.name = 'AgentRunError';
+  }
+}
+
+/**
+ * One think/act/observe loop driven by a single user request.
+ *
+ * AgentCore records a think step per LLM turn and Session records act/observe
+ * steps around tool executions; tool results keep re-entering the inbox until
+ * the LLM produces a final answer or one of the limits is hit.
+ */
+export class AgentRun {
+  public readonly id: string = crypto.randomUUID();
+  public readonly result: Promise<AgentRunResult>;
+
+  private status: AgentRunStatus = 'running';
+  private steps: AgentRunStep[] = [];
+  private iterations = 0;
+  private toolCalls = 0;
+  private startedAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private limits: Required<AgentRunLimits>;
+  private resolve!: (result: AgentRunResult) => void;
+  private reject!: (error: AgentRunError) => void;
+  private logger = coreLoggers.session;
+
+  constructor(private session: Session, public readonly input: string, limits: AgentRunLimits = {}) {
+    this.limits = { ...DEFAULT_RUN_LIMITS, ...limits };
+    this.result = new Promise<AgentRunResult>((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+    // Failures are delivered to whoever awaits `result`; don't report them as unhandled meanwhile
+    this.result.catch(() => {});
+  }
+
+  public start(): void {
+    this.startedAt = Date.now();
+    this.timer = setTimeout(() => {
+      this.stop('limit_exceeded', `Run exceeded ${this.limits.maxDurationMs}ms`);
+    }, this.limits.maxDurationMs);
+    this.emit('TASK_STARTED', { currentState: 'running' });
+  }
+
+  public isActive(): boolean {
+    return this.status === 'running';
+  }
+
+  public getStatus(): AgentRunStatus {
+    return this.status;
+  }
+
+  public getSteps(): AgentRunStep[] {
+    return [...this.steps];
+  }
+
+  /**
+   * Called before each LLM turn
+   * @returns false if the turn must not happen because the iteration limit is reached
+   */
+  public beginIteration(): boolean {
+    if (!this.isActive()) return false;
+    if (this.iterations >= this.limits.maxIterations) {
+      this.stop('limit_exceeded', `Run exceeded ${this.limits.maxIterations} iterations`);
+      return false;
+    }
+    this.iterations++;
+    return true;
+  }
+
+  public recordThink(content: string): void {
+    if (!this.isActive()) return;
+    this.addStep({ type: 'think', content });
+  }
+
+  /**
+   * Called before a tool executes
+   * @returns false if the tool must not run because the tool-call limit is reached
+   */
+  public recordAct(toolName: string, args: any, toolCallId?: string): boolean {
+    if (!this.isActive()) return false;
+    if (this.toolCalls >= this.limits.maxToolCalls) {
+      this.stop('limit_exceeded', `Run exceeded ${this.limits.maxToolCalls} tool calls`);
+      return false;
+    }
+    this.toolCalls++;
+    this.addStep({ type: 'act', toolName, arguments: args, toolCallId });
+    return true;
+  }
+
+  public recordObservation(toolName: string, status: 'success' | 'failure', content: string, toolCallId?: string): void {
+    if (!this.isActive()) return;
+    this.addStep({ type: 'observe', toolName, status, content, toolCallId });
+  }
+
+  public complete(answer: string): void {
+    if (!this.isActive()) return;
+    this.finish('completed', answer);
+  }
+
+  public fail(reason: string): void {
+    if (!this.isActive()) return;
+    this.finish('failed', undefined, reason);
+  }
+
+  /**
+   * Mark the run cancelled. Called from Session.cancel(), which already aborts the session's work.
+   */
+  public cancel(reason: string): void {
+    if (!this.isActive()) return;
+    this.finish('cancelled', undefined, reason);
+  }
+
+  /**
+   * End the run and stop whatever the session still has in flight
+   */
+  private stop(status: AgentRunStatus, reason: string): void {
+    if (!this.isActive()) return;
+    this.finish(status, undefined, reason);
+    this.session.cancel(reason);
+  }
+
+  private finish(status: AgentRunStatus, answer?: string, reason?: string): void {
+    this.status = status;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const result: AgentRunResult = {
+      runId: this.id,
+      sessionId: this.session.sessionId,
+      status,
+      answer,
+      reason,
+      steps: this.getSteps(),
+      iterations: this.iterations,
+      toolCalls: this.toolCalls,
+      durationMs: this.startedAt ? Date.now() - this.startedAt : 0,
+    };
+
+    this.logger.info(`Run ${this.id} ${status} after ${this.iterations} iteration(s)${reason ? `: ${reason}` : ''}`, withTags(['run']));
+    this.emit('TASK_COMPLETED', { currentState: status, previousState: 'running', reason });
+
+    if (status === 'completed') {
+      this.resolve(result);
+    } else {
+      this.reject(new AgentRunError(reason || `Run ${status}`, result));
+    }
+  }
+
+  private addStep(step: Omit<AgentRunStep, 'index' | 'timestamp'>): void {
+    const previous = this.steps[this.steps.length - 1];
+    const recorded: AgentRunStep = { index: this.steps.length, timestamp: new Date().toISOString(), ...step };
+    this.steps.push(recorded);
+
+    const data: Record<string, any> = {
+      stateInfo: { currentState: step.type, previousState: previous?.type },
+    };
+    if (step.toolName) {
+      data.toolInfo = {
+        toolName: step.toolName,
+        status: step.type === 'act' ? 'started' : step.status === 'success' ? 'completed' : 'error',
+        arguments: step.arguments,
+        result: step.type === 'observe' ? step.content : undefined,
+        executionStart: recorded.timestamp,
+      };
+    }
+    this.emit('REASONING_STEP', data.stateInfo, data);
+  }
+
+  private emit(type: string, stateInfo: Record<string, any>, data: Record<string, any> = {}): void {
+    const emitter = getEventEmitter();
+    emitter.setCurrentAgent(this.session.core.id);
+    emitter.setCurrentSession(this.session.sessionId);
+    const event = AgentEventBuilder.getInstance()
+      .create()
+      .withType(type)
+      .withSource(this.session.core.name)
+      .withData({
+        ...data,
+        stateInfo,
+        taskInfo: {
+          taskId: this.id,
+          taskType: 'agent_run',
+          taskDescription: this.input,
+          status: this.status.toUpperCase(),
+        },
+      })
+      .build();
+    emitter.emit(type, event as AgentEvent);
+  }
+}
@@ -2,11 +2,14 @@
 import { Session } from './Session';
 import { InferClassificationUnion } from './TypeInference';  
 import { ResponseType } from './ResponseTypes';
+import { z } from 'zod';
 
 export interface ClassificationTypeConfig {
     name: string;
     description: string;
     schema: Record<string, any>;
+    // Validates this type's content; derived from `schema` when left out
+    zodSchema?: z.ZodTypeAny;
 }
 
 export type InferMessageType<T extends readonly ClassificationTypeConfig[], K extends T[number]['name']> = 
@@ -19,5 +22,7 @@ export type ClassifiedTypeHandlers<T extends readonly ClassificationTypeConfig[]
 export interface IClassifier<T extends readonly ClassificationTypeConfig[]> {
     getClassificationTypeDefinition(): Readonly<T>;
     handleLLMResponse(response: string, session: Session): ResponseType;
+    // Type the response was classified as, e.g. TASK_COMPLETE; drives goal tracking when implemented
+    getMessageType?(response: string): string | undefined;
 }
 
@@ -1,6 +1,7 @@
 import { ClassificationTypeConfig } from "./IClassifier";
 import { PromptManager } from "./PromptManager";
 import { SessionContext } from "./SessionContext";
+import { z } from "zod";
 
 export interface IAgentPromptTemplate {
   getSystemPrompt(sessionContext: SessionContext): Promise<string>;
@@ -9,6 +10,8 @@ export interface IAgentPromptTemplate {
   getMetaPrompt(): string;
   getClassificationTypes(): ReadonlyArray<ClassificationTypeConfig>;
   extractDataFromLLMResponse(response: string): string;
+  // Full response format the template asks for; enables structured output when implemented
+  getResponseSchema?(): z.ZodTypeAny;
   debugPrompt(
     promptManager: PromptManager,
     type: "system" | "assistant",
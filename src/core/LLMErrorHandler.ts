@@ -41,6 +41,11 @@ export class LLMErrorHandler {
       }
     }
 
+    // Retrying will not help until the budget resets or is raised
+    if (errorObj.type === "budget_exceeded") {
+      errorObj.recoverable = false;
+    }
+
     return errorObj;
   }
 
@@ -107,7 +112,11 @@ export class LLMErrorHandler {
         break;
         
       default:
-        userMessage += "An unexpected error occurred.";
+        if (errorDetails.type === "budget_exceeded") {
+          userMessage = "The token budget for this conversation has been used up.";
+        } else {
+          userMessage += "An unexpected error occurred.";
+        }
     }
 
     // Log user-friendly message
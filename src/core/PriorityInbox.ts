@@ -1,71 +1,116 @@
 import { Message } from "./Message";
-import Bottleneck from "bottleneck";
-import { interval, from } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
-import { Subject, Subscription } from 'rxjs';
+import { InboxConfig } from "./configs";
+import { coreLoggers } from "./logging";
+import { MetricsCollector } from "./observability/MetricsCollector";
 
+const DEFAULT_MAX_CONCURRENT = 4;
+const DEFAULT_PER_SESSION_CONCURRENCY = 1;
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+/**
+ * Raised by enqueue() when the inbox already holds maxQueueSize messages
+ */
+export class InboxFullError extends Error {
+    constructor(public readonly queueSize: number) {
+        super(`Inbox is full (${queueSize} messages queued)`);
+        this.name = 'InboxFullError';
+    }
+}
+
+interface QueuedMessage {
+    message: Message;
+    enqueuedAt: number;
+}
+
+/**
+ * Event-driven mailbox that dispatches messages as soon as capacity allows.
+ *
+ * Messages are taken highest priority first (high, normal, low) and FIFO within
+ * a priority. A session never runs more than perSessionConcurrency messages at
+ * once, which keeps its turns ordered, while other sessions proceed in parallel
+ * up to maxConcurrent.
+ */
 export class PriorityInbox {
-    private limiter: Bottleneck;
-    private pendingMessages: number; // Tracks the number of pending messages
-    private messageQueue: Message[]; 
+    private queues: QueuedMessage[][] = [[], [], []]; // indexed by priority value
+    private pendingMessages: number; // Queued plus in-flight messages
+    private inFlight: number = 0;
+    private inFlightPerSession: Map<string, number> = new Map();
     private processMessage: (message: Message) => Promise<void>;
-    private subscription: Subscription | null = null;
+    private running: boolean = false;
 
-    constructor() {
+    private maxConcurrent: number;
+    private perSessionConcurrency: number;
+    private maxQueueSize: number;
+    private logger = coreLoggers.main;
+
+    constructor(config: InboxConfig = {}, private agentId: string = 'inbox') {
         this.pendingMessages = 0; // Initialize with no pending messages
-        this.messageQueue = [];
         this.processMessage = this.defaultProcessMessage;
-        // Initialize Bottleneck with desired settings
-        this.limiter = new Bottleneck({
-            maxConcurrent: 1, // Only one message processed at a time
-            minTime: 100,     // Minimum time between tasks in milliseconds
-        });
+        this.maxConcurrent = config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+        this.perSessionConcurrency = config.perSessionConcurrency ?? DEFAULT_PER_SESSION_CONCURRENCY;
+        this.maxQueueSize = config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
     }
 
     public init(processMessage: (message: Message) => Promise<void>): void {
         this.processMessage = processMessage;
-        this.subscription = interval(1000).pipe(
-            switchMap(() => from(this.checkPriorityInbox()))
-        ).subscribe();
+        this.running = true;
+        this.drain();
     }
 
+    /**
+     * Stop dispatching; queued messages are kept and in-flight ones run to completion
+     */
     public stop(): void {
-        if (this.subscription) {
-            this.subscription.unsubscribe();
-            this.subscription = null;
-        }
+        this.running = false;
     }
 
-    private async checkPriorityInbox(): Promise<string> {
-        //console.log('Checking priority inbox...');
-        return new Promise((resolve) => {
-          setTimeout(() => {
-            resolve('Inbox checked');
-            const message: Message | null = this.dequeue();
-            if (message) {
-              this.processMessage(message);
-            }
-          }, 1000);
-        });
+    /**
+     * Throw the InboxFullError enqueue() would throw, without queueing anything
+     */
+    assertCapacity(): void {
+        const queued = this.size();
+        if (queued >= this.maxQueueSize) {
+            throw new InboxFullError(queued);
+        }
     }
 
-    enqueue(message: Message, priority = 'normal') {
-        // Increase the pending message count
+    enqueue(message: Message, priority: string = message.metadata?.priority ?? 'normal') {
+        this.assertCapacity();
+
         this.pendingMessages++;
-        this.messageQueue.push(message);
-        // Map priority levels to numbers (0: high, 1: normal, 2: low)
-        const priorityValue = this.getPriorityValue(priority);
+        this.queues[this.getPriorityValue(priority)].push({ message, enqueuedAt: Date.now() });
+        this.recordQueueDepth();
 
-        // this.limiter.schedule({ priority: priorityValue }, async () => {
-        //     await this.processMessage(message);
-        // }).finally(() => {
-        //     // Decrease the pending message count once the message is processed
-        //     this.pendingMessages--;
-        // });
+        this.drain();
     }
 
     dequeue(): Message | null {
-      return this.messageQueue.length > 0 ? this.messageQueue.shift() || null : null;
+        for (const queue of this.queues) {
+            const entry = queue.shift();
+            if (entry) {
+                this.pendingMessages--;
+                this.recordQueueDepth();
+                return entry.message;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Drop all queued messages of a session; returns how many were removed
+     */
+    removeSession(sessionId: string): number {
+        let removed = 0;
+        this.queues = this.queues.map((queue) => queue.filter((entry) => {
+            const keep = entry.message.sessionId !== sessionId;
+            if (!keep) removed++;
+            return keep;
+        }));
+        this.pendingMessages -= removed;
+        if (removed > 0) {
+            this.recordQueueDepth();
+        }
+        return removed;
     }
 
     hasPendingMessages(): boolean {
@@ -73,7 +118,64 @@ export class PriorityInbox {
     }
 
     size(): number {
-        return this.messageQueue.length;
+        return this.queues.reduce((total, queue) => total + queue.length, 0);
+    }
+
+    inFlightCount(): number {
+        return this.inFlight;
+    }
+
+    private drain(): void {
+        while (this.running && this.inFlight < this.maxConcurrent) {
+            const entry = this.takeNext();
+            if (!entry) {
+                return;
+            }
+            this.dispatch(entry);
+        }
+    }
+
+    // Highest priority message whose session still has spare concurrency
+    private takeNext(): QueuedMessage | null {
+        for (const queue of this.queues) {
+            const index = queue.findIndex(
+                (entry) => (this.inFlightPerSession.get(entry.message.sessionId) ?? 0) < this.perSessionConcurrency
+            );
+            if (index >= 0) {
+                return queue.splice(index, 1)[0];
+            }
+        }
+        return null;
+    }
+
+    private dispatch(entry: QueuedMessage): void {
+        const sessionId = entry.message.sessionId;
+        this.inFlight++;
+        this.inFlightPerSession.set(sessionId, (this.inFlightPerSession.get(sessionId) ?? 0) + 1);
+        MetricsCollector.getInstance().recordMetric(this.agentId, 'queue_latency', Date.now() - entry.enqueuedAt);
+        this.recordQueueDepth();
+
+        Promise.resolve()
+            .then(() => this.processMessage(entry.message))
+            .catch((error) => {
+                this.logger.error(`Error processing message ${entry.message.id}: ${error}`);
+            })
+            .finally(() => {
+                this.inFlight--;
+                const remaining = (this.inFlightPerSession.get(sessionId) ?? 1) - 1;
+                if (remaining > 0) {
+                    this.inFlightPerSession.set(sessionId, remaining);
+                } else {
+                    this.inFlightPerSession.delete(sessionId);
+                }
+                this.pendingMessages--;
+                this.drain();
+            });
+    }
+
+    // Reported whenever messages are added to or taken off the queues
+    private recordQueueDepth(): void {
+        MetricsCollector.getInstance().recordMetric(this.agentId, 'queue_depth', this.size());
     }
 
     private getPriorityValue(priority: string) {
@@ -5,6 +5,12 @@ import { InferClassificationUnion } from "./TypeInference";
 import { Tool, ValidationError, ToolOutput } from "./Tool";
 import { logger } from './Logger';
 import { SessionContext } from './SessionContext';
+import { TokenUsageSummary } from './llm/TokenUsageTracker';
+import { AgentRun, AgentRunResult } from './AgentRun';
+import { AgentRunLimits } from './configs';
+import { ToolCallRequest, ToolCallResult, ToolCallBatchResult } from './ToolCallExecutor';
+import type { ConversationContextManager } from './context/ConversationContextManager';
+import type { DomainContext, UserGoal } from './context/types';
 export class Session {
     core: AgentCore;
     owner: string;
@@ -29,6 +35,12 @@ export class Session {
     // New routing handler
     private routingHandlers: Array<(message: any, session: Session) => void> = [];
 
+    // Aborts in-flight LLM calls and tool runs; replaced after every cancel()
+    private abortController: AbortController = new AbortController();
+
+    // The run started by run(), if any; AgentCore and tool execution report their steps to it
+    private activeRun: AgentRun | null = null;
+
     constructor(core: AgentCore, owner: string, sessionId: string, description: string, parentSessionId?: string) {
         this.core = core;
         this.owner = owner;
@@ -43,8 +55,9 @@ export class Session {
     public createMessage(message: string): Message;
     public createMessage(message: string, sender?: string): Message;
     public createMessage(message: string, sender?: string, context?: Record<string, any>): Message;
-    public createMessage(message: string, sender: string = this.owner, context: Record<string, any> = {}): Message {
-        const msg = new Message(this.sessionId, message, PayloadType.TEXT, {}, context, sender);
+    public createMessage(message: string, sender?: string, context?: Record<string, any>, priority?: string): Message;
+    public createMessage(message: string, sender: string = this.owner, context: Record<string, any> = {}, priority: string = "normal"): Message {
+        const msg = new Message(this.sessionId, message, PayloadType.TEXT, {}, context, sender, priority);
         return msg;
     }
 
@@ -52,9 +65,119 @@ export class Session {
     public chat(message: string): Promise<void>;
     public chat(message: string, sender?: string): Promise<void>;
     public chat(message: string, sender?: string, context?: Record<string, any>): Promise<void>;
-    public async chat(message: string, sender: string = this.owner, context: Record<string, any> = {}): Promise<void> {
-        const msg = this.createMessage(message, sender, context);
-        this.core.receive(msg);
+    public chat(message: string, sender?: string, context?: Record<string, any>, priority?: string): Promise<void>;
+    public async chat(message: string, sender: string = this.owner, context: Record<string, any> = {}, priority: string = "normal"): Promise<void> {
+        const msg = this.createMessage(message, sender, context, priority);
+        await this.core.receive(msg);
+    }
+
+    /**
+     * Send a message and keep the think/act/observe loop going until the agent
+     * produces a final answer or one of the limits is hit.
+     * @returns The final answer and the recorded steps; rejects with AgentRunError otherwise
+     */
+    public async run(message: string, limits: AgentRunLimits = {}): Promise<AgentRunResult> {
+        if (this.activeRun?.isActive()) {
+            throw new Error(`Session ${this.sessionId} already has an active run`);
+        }
+        const run = new AgentRun(this, message, { ...this.core.runLimits, ...limits });
+        this.activeRun = run;
+        run.start();
+        try {
+            await this.chat(message);
+        } catch (error) {
+            run.fail(error instanceof Error ? error.message : String(error));
+        }
+        return run.result;
+    }
+
+    /**
+     * The run currently in progress, if any
+     */
+    public getActiveRun(): AgentRun | null {
+        return this.activeRun?.isActive() ? this.activeRun : null;
+    }
+
+    /**
+     * Stop whatever the session is doing: aborts the current LLM call or stream,
+     * signals running tools and drops messages still waiting in the inbox.
+     * The session stays usable for new messages afterwards.
+     * @returns Number of queued messages that were dropped
+     */
+    public cancel(reason: string = "Cancelled by user"): number {
+        this.activeRun?.cancel(reason);
+        this.abortController.abort(reason);
+        this.abortController = new AbortController();
+        return this.core.cancelSession(this.sessionId, reason);
+    }
+
+    public getAbortSignal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    /**
+     * Tokens (and cost, if pricing is configured) consumed by this session so far
+     */
+    public getTokenUsage(): TokenUsageSummary {
+        return this.core.getTokenUsage(this.sessionId);
+    }
+
+    /**
+     * Goals of the user in this session, highest priority first. Active goals
+     * and the current domain are part of the system prompt.
+     * @param includeInactive Also return completed and paused goals
+     */
+    public getGoals(includeInactive: boolean = false): UserGoal[] {
+        const goals = this.conversationContext();
+        return includeInactive ? goals.getGoals() : goals.getActiveGoals();
+    }
+
+    /**
+     * @returns ID of the new goal
+     */
+    public addGoal(description: string, options: Partial<Pick<UserGoal, "priority" | "parentGoalId" | "metadata">> = {}): string {
+        return this.conversationContext().addUserGoal({ ...options, description, status: "active" });
+    }
+
+    /**
+     * @returns false when the session has no goal with this ID
+     */
+    public updateGoal(id: string, updates: Partial<Pick<UserGoal, "description" | "priority" | "status" | "metadata">>): boolean {
+        return this.conversationContext().updateUserGoal(id, updates);
+    }
+
+    public completeGoal(id: string): boolean {
+        return this.updateGoal(id, { status: "completed" });
+    }
+
+    public removeGoal(id: string): boolean {
+        return this.conversationContext().removeUserGoal(id);
+    }
+
+    /**
+     * Set the domain the conversation is about; its rules are listed in the system prompt
+     */
+    public setDomain(domain: string, options: { subDomain?: string; rules?: Record<string, any>; priority?: number } = {}): void {
+        this.conversationContext().setDomainContext({
+            domain,
+            subDomain: options.subDomain,
+            confidence: 1,
+            rules: new Map(Object.entries(options.rules ?? {})),
+            priority: options.priority ?? 1,
+            activeSince: new Date(),
+        });
+    }
+
+    public getDomain(): DomainContext | undefined {
+        return this.conversationContext().getCurrentDomain();
+    }
+
+    private conversationContext(): ConversationContextManager {
+        const conversationContext = this.context?.getConversationContext();
+        if (!conversationContext) {
+            throw new Error(`Session ${this.sessionId} does not track goals`);
+        }
+        return conversationContext;
     }
 
     public setContext(context: SessionContext): void {
@@ -148,8 +271,6 @@ export class Session {
         T extends readonly ClassificationTypeConfig[]
     >(obj: TInput): Promise<void> { 
         logger.debug(`Session: Triggering tool call handlers for object:`, obj);
-        const toolName = obj.name;
-        logger.error(`Tool name: ${toolName}`);
         
         // Ensure we extract toolCallId consistently from multiple potential sources
         // This is important for proper OpenAI tool call response formatting
@@ -158,65 +279,126 @@ export class Session {
                           ((obj as any).originalToolCalls?.[0]?.id) || 
                           undefined;
         
+        const { arguments: toolInput } = obj as { arguments?: unknown };
+        const result = await this.executeToolCall(obj.name, toolInput, toolCallId, this.getAbortSignal());
+        if (result) {
+            this.notifyToolResultHandlers(result);
+        }
+    }
+
+    /**
+     * Execute all tool calls of one LLM turn through the core's ToolCallExecutor and
+     * hand a single combined result (results ordered as the calls were issued) to the
+     * tool result handlers. Calls to sequential tools wait for the previous call to
+     * the same tool.
+     */
+    public async triggerToolCallBatch(calls: ToolCallRequest[]): Promise<void> {
+        if (calls.length === 1) {
+            const result = await this.executeRequestedCall(calls[0], this.getAbortSignal());
+            if (result) {
+                this.notifyToolResultHandlers(result);
+            }
+            return;
+        }
+
+        const lastSequentialCall = new Map<string, string>();
+        const scheduled = calls.map(call => {
+            if (!this.core.getTool(call.toolName)?.isSequential()) {
+                return call;
+            }
+            const previous = lastSequentialCall.get(call.toolName);
+            lastSequentialCall.set(call.toolName, call.toolCallId);
+            return previous ? { ...call, dependsOn: [...(call.dependsOn || []), previous] } : call;
+        });
+
+        const signal = this.getAbortSignal();
+        const batch = await this.core.toolCallExecutor.execute(scheduled, async call => {
+            const result = await this.executeRequestedCall(call, signal);
+            return result ?? { status: 'failure', error: `Tool "${call.toolName}" was not executed`, toolName: call.toolName, toolCallId: call.toolCallId };
+        });
+        if (signal.aborted) {
+            logger.debug(`Tool call batch finished after the session was cancelled; dropping its results`);
+            return;
+        }
+
+        if (batch.failed > 0) {
+            logger.warning(`${batch.failed} of ${batch.results.length} tool calls failed:`,
+                batch.results.filter(r => r.status === 'failure').map(r => `${r.toolName}: ${r.error}`).join('; '));
+        }
+        this.notifyToolResultHandlers(batch);
+    }
+
+    /**
+     * Answer a call the LLM sent malformed with its error, run any other call
+     */
+    private async executeRequestedCall(call: ToolCallRequest, signal: AbortSignal): Promise<ToolCallResult | null> {
+        if (call.invalid) {
+            return { status: 'failure', error: call.invalid, toolName: call.toolName || undefined, toolCallId: call.toolCallId };
+        }
+        return this.executeToolCall(call.toolName, call.arguments, call.toolCallId, signal);
+    }
+
+    /**
+     * Run a single tool call and describe its outcome
+     * @returns null if the session was cancelled or the active run does not allow the call
+     */
+    private async executeToolCall(toolName: string | undefined, toolInput: any, toolCallId: string | undefined, signal: AbortSignal): Promise<ToolCallResult | null> {
+        logger.error(`Tool name: ${toolName}`);
+
         if (!toolName) {
             // Handle missing tool name
             const availableTools = Array.from(this.core['toolRegistry'].keys());
             logger.warning(`Tool call received without a valid tool name. Available tools: ${availableTools.join(', ')}`);
             
-            const errorResult = {
+            return {
                 status: 'failure',
                 error: `Tool call missing a valid tool name. Available tools: ${availableTools.join(', ')}`,
                 toolCallId
             };
-            
-            this.toolResultHandlers.forEach(handler => {
-                if (typeof handler === 'function') {
-                    handler(errorResult, this);
-                }
-            });
-            return;
         }
         
-        const tool = this.core.getTool(toolName) as Tool<TInput, TOutput> | undefined;
+        const tool = this.core.getTool(toolName);
         
         if (!tool) {
             // Handle tool not found
             const availableTools = Array.from(this.core['toolRegistry'].keys());
             logger.warning(`Tool "${toolName}" not found. Available tools: ${availableTools.join(', ')}`);
             
-            const errorResult = {
+            return {
                 status: 'failure',
                 error: `Tool "${toolName}" not found. Available tools: ${availableTools.join(', ')}`,
                 toolCallId
             };
-            
-            this.toolResultHandlers.forEach(handler => {
-                if (typeof handler === 'function') {
-                    handler(errorResult, this);
-                }
-            });
-            return;
         }
         
         // Tool exists, try to execute it
+        const run = this.getActiveRun();
+        if (run && !run.recordAct(toolName, toolInput, toolCallId)) {
+            logger.warning(`Tool ${toolName} not executed: run ${run.id} has ended (${run.getStatus()})`);
+            return null;
+        }
+
         try {
-            const toolInput = (obj as any).arguments;
-            const result = await tool.run(toolInput, {});
+            const result = await tool.run(toolInput, { signal });
+            if (signal.aborted) {
+                logger.debug(`Tool ${toolName} finished after the session was cancelled; dropping its result`);
+                return null;
+            }
+            run?.recordObservation(toolName, 'success', result.getContent(), toolCallId);
             
             // Success case
-            const successResult = {
+            return {
                 status: 'success',
                 data: result,
                 toolName,
                 toolCallId
             };
-            
-            this.toolResultHandlers.forEach(handler => {
-                if (typeof handler === 'function') { 
-                    handler(successResult, this);
-                }
-            });
         } catch (error) {
+            if (signal.aborted) {
+                logger.debug(`Tool ${toolName} was aborted by session cancellation`);
+                return null;
+            }
+
             // Handle execution error
             let errorMessage = error instanceof Error ? error.message : String(error);
             
@@ -228,21 +410,24 @@ export class Session {
                 errorMessage = `Error executing tool "${toolName}": ${errorMessage}`;
             }
             
-            const failureResult = {
+            run?.recordObservation(toolName, 'failure', errorMessage, toolCallId);
+            return {
                 status: 'failure',
                 error: errorMessage,
                 toolName,
                 toolCallId
             };
-            
-            this.toolResultHandlers.forEach(handler => {
-                if (typeof handler === 'function') {
-                    handler(failureResult, this);
-                }
-            });
         }
     }
 
+    private notifyToolResultHandlers(result: ToolCallResult | ToolCallBatchResult): void {
+        this.toolResultHandlers.forEach(handler => {
+            if (typeof handler === 'function') {
+                handler(result, this);
+            }
+        });
+    }
+
     public async triggerConversationHandlers(obj: any): Promise<void> {
         logger.debug(`Session: Triggering conversation handlers for object:`, obj);
         this.conversationHandlers.forEach(handler => {
@@ -1,6 +1,8 @@
 import { Session } from "./Session";
 import { Message } from "./Message";
 import { Instruction } from "./configs";
+import type { StoredSession } from "./SessionStore";
+import type { ConversationContextManager } from "./context/ConversationContextManager";
 
 export enum SessionState {
   Start,
@@ -20,6 +22,8 @@ export class SessionContext {
     private lastInteractionTime: Date;
     private currentTopic: string = '';
     private currentInstruction: Instruction | null = null;
+    private currentMode: string | null = null;  // prompt strategy mode of the latest turn
+    private conversationContext?: ConversationContextManager;  // goals and domain of the conversation
 
     constructor(session: Session) {
       this.session = session;
@@ -53,6 +57,30 @@ export class SessionContext {
       return this.currentInstruction;
     }
 
+    public setCurrentMode(mode: string): void {
+      this.currentMode = mode;
+    }
+
+    public getCurrentMode(): string | null {
+      return this.currentMode;
+    }
+
+    public setConversationContext(conversationContext: ConversationContextManager): void {
+      this.conversationContext = conversationContext;
+    }
+
+    public getConversationContext(): ConversationContextManager | undefined {
+      return this.conversationContext;
+    }
+
+    /**
+     * Current domain and open goals for prompt templates to add to the system prompt
+     * @returns An empty string when there is nothing to add
+     */
+    public getConversationState(): string {
+      return this.conversationContext?.describeForPrompt() ?? "";
+    }
+
     public getMessages(): Message[] {  // Retrieve all messages
         return this.messages;
     }
@@ -84,4 +112,39 @@ export class SessionContext {
     public getLastInteractionTime(): Date {
       return this.lastInteractionTime;
     }
+
+    /**
+     * Snapshot of the session and its state for a SessionStore
+     */
+    public toStoredSession(): StoredSession {
+      return {
+        sessionId: this.session.sessionId,
+        owner: this.session.owner,
+        description: this.session.description,
+        parentSessionId: this.session.parentSessionId || undefined,
+        state: this.state,
+        currentTopic: this.currentTopic,
+        currentInstruction: this.currentInstruction,
+        currentMode: this.currentMode,
+        startTime: this.startTime.toISOString(),
+        lastInteractionTime: this.lastInteractionTime.toISOString(),
+        conversation: this.conversationContext?.toStoredContext(),
+      };
+    }
+
+    /**
+     * Restore state saved by toStoredSession(). Goals and domains are restored
+     * into the conversation context, so set that first.
+     */
+    public restore(stored: StoredSession): void {
+      this.state = stored.state;
+      this.currentTopic = stored.currentTopic;
+      this.currentInstruction = stored.currentInstruction;
+      this.currentMode = stored.currentMode;
+      this.startTime = new Date(stored.startTime);
+      this.lastInteractionTime = new Date(stored.lastInteractionTime);
+      if (stored.conversation) {
+        this.conversationContext?.restore(stored.conversation);
+      }
+    }
 }
\ No newline at end of file
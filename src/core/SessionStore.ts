@@ -0,0 +1,155 @@
+import { createRuntime } from "../runtime";
+import { Instruction } from "./configs";
+import { DomainContext, UserGoal } from "./context/types";
+import { Message, PayloadType } from "./Message";
+import { SessionState } from "./SessionContext";
+
+/**
+ * Session metadata and SessionContext state, as persisted by a SessionStore
+ */
+export interface StoredSession {
+  sessionId: string;
+  owner: string;
+  description: string;
+  parentSessionId?: string;
+  state: SessionState;
+  currentTopic: string;
+  currentInstruction: Instruction | null;
+  currentMode: string | null;
+  startTime: string;
+  lastInteractionTime: string;
+  conversation?: StoredConversationContext; // Missing in sessions saved before goals were persisted
+}
+
+/**
+ * Goals and domains of a session's ConversationContextManager, as persisted by a SessionStore
+ */
+export interface StoredConversationContext {
+  goals: Array<Omit<UserGoal, "createdAt" | "updatedAt"> & { createdAt: string; updatedAt: string }>;
+  domains: Array<Omit<DomainContext, "rules" | "activeSince"> & { rules: [string, any][]; activeSince: string }>;
+  currentDomain?: string;
+}
+
+/**
+ * A message of the session history, in the form it was remembered by AgentCore
+ */
+export interface StoredMessage {
+  id: string;
+  sender: string;
+  content: string;
+  timestamp: string;
+  priority: string;
+  context: Record<string, any>;
+}
+
+export interface StoredSessionRecord {
+  session: StoredSession;
+  messages: StoredMessage[];
+}
+
+/**
+ * Durable storage for sessions so conversations survive agent restarts
+ */
+export interface SessionStore {
+  saveSession(session: StoredSession): Promise<void>;
+  appendMessage(sessionId: string, message: StoredMessage): Promise<void>;
+  loadSession(sessionId: string): Promise<StoredSessionRecord | undefined>;
+  listSessions(): Promise<StoredSession[]>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+export function toStoredMessage(message: Message): StoredMessage {
+  return {
+    id: message.id,
+    sender: message.metadata?.sender ?? "",
+    content: message.payload.input,
+    timestamp: message.metadata?.timestamp ?? new Date().toISOString(),
+    priority: message.metadata?.priority ?? "normal",
+    context: message.metadata?.context ?? {},
+  };
+}
+
+export function fromStoredMessage(sessionId: string, stored: StoredMessage): Message {
+  const message = new Message(sessionId, stored.content, PayloadType.TEXT, {}, stored.context, stored.sender, stored.priority);
+  message.id = stored.id;
+  message.metadata!.timestamp = stored.timestamp;
+  return message;
+}
+
+/**
+ * Keeps one JSON file per session in a directory
+ */
+export class FileSessionStore implements SessionStore {
+  // Per-session write queue so concurrent appends do not overwrite each other
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  public saveSession(session: StoredSession): Promise<void> {
+    return this.update(session.sessionId, (record) => ({ session, messages: record?.messages ?? [] }));
+  }
+
+  public appendMessage(sessionId: string, message: StoredMessage): Promise<void> {
+    return this.update(sessionId, (record) => {
+      if (!record) {
+        throw new Error(`Cannot append message to unknown session ${sessionId}`);
+      }
+      return { ...record, messages: [...record.messages, message] };
+    });
+  }
+
+  public async loadSession(sessionId: string): Promise<StoredSessionRecord | undefined> {
+    await this.pending.get(sessionId);
+    return this.read(sessionId);
+  }
+
+  public async listSessions(): Promise<StoredSession[]> {
+    const fs = createRuntime().fs;
+    if (!(await fs.exists(this.directory))) {
+      return [];
+    }
+    const sessions: StoredSession[] = [];
+    for (const file of await fs.readDir(this.directory)) {
+      if (!file.endsWith(".json")) continue;
+      const record = await this.loadSession(file.slice(0, -".json".length));
+      if (record) sessions.push(record.session);
+    }
+    return sessions;
+  }
+
+  public async deleteSession(sessionId: string): Promise<void> {
+    await this.pending.get(sessionId);
+    const fs = createRuntime().fs;
+    if (await fs.exists(this.pathFor(sessionId))) {
+      await fs.rm(this.pathFor(sessionId));
+    }
+  }
+
+  private update(
+    sessionId: string,
+    change: (record: StoredSessionRecord | undefined) => StoredSessionRecord
+  ): Promise<void> {
+    const previous = this.pending.get(sessionId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const fs = createRuntime().fs;
+      const record = change(await this.read(sessionId));
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.pathFor(sessionId), JSON.stringify(record, null, 2), "utf8");
+    });
+    this.pending.set(sessionId, next);
+    return next;
+  }
+
+  private async read(sessionId: string): Promise<StoredSessionRecord | undefined> {
+    const fs = createRuntime().fs;
+    if (!(await fs.exists(this.pathFor(sessionId)))) {
+      return undefined;
+    }
+    return JSON.parse(await fs.readFile(this.pathFor(sessionId), "utf8"));
+  }
+
+  private pathFor(sessionId: string): string {
+    // Session ids are generated UUIDs; anything else is reduced to a safe file name
+    return `${this.directory}/${sessionId.replace(/[^A-Za-z0-9_-]/g, "_")}.json`;
+  }
+}
@@ -0,0 +1,81 @@
+import { Database } from "bun:sqlite";
+import { SessionStore, StoredMessage, StoredSession, StoredSessionRecord } from "./SessionStore";
+
+/**
+ * SessionStore backed by a SQLite database file (via `bun:sqlite`). Session
+ * metadata lives in `sessions`, the history in `session_messages` in insertion order.
+ */
+export class SqliteSessionStore implements SessionStore {
+  private db: Database | null = null;
+
+  constructor(private storage: string) {}
+
+  public async saveSession(session: StoredSession): Promise<void> {
+    this.getConnection().query(
+      `INSERT INTO sessions (session_id, data) VALUES (?, ?)
+       ON CONFLICT(session_id) DO UPDATE SET data = excluded.data`
+    ).run(session.sessionId, JSON.stringify(session));
+  }
+
+  public async appendMessage(sessionId: string, message: StoredMessage): Promise<void> {
+    this.getConnection().query(
+      "INSERT INTO session_messages (session_id, message_id, data) VALUES (?, ?, ?)"
+    ).run(sessionId, message.id, JSON.stringify(message));
+  }
+
+  public async loadSession(sessionId: string): Promise<StoredSessionRecord | undefined> {
+    const db = this.getConnection();
+    const session = db.query<{ data: string }, [string]>(
+      "SELECT data FROM sessions WHERE session_id = ?"
+    ).get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    const messages = db.query<{ data: string }, [string]>(
+      "SELECT data FROM session_messages WHERE session_id = ? ORDER BY seq"
+    ).all(sessionId);
+    return {
+      session: JSON.parse(session.data),
+      messages: messages.map((row) => JSON.parse(row.data)),
+    };
+  }
+
+  public async listSessions(): Promise<StoredSession[]> {
+    const rows = this.getConnection().query<{ data: string }, []>("SELECT data FROM sessions").all();
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  public async deleteSession(sessionId: string): Promise<void> {
+    const db = this.getConnection();
+    db.transaction(() => {
+      db.query("DELETE FROM session_messages WHERE session_id = ?").run(sessionId);
+      db.query("DELETE FROM sessions WHERE session_id = ?").run(sessionId);
+    })();
+  }
+
+  public async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private getConnection(): Database {
+    if (!this.db) {
+      const db = new Database(this.storage, { create: true });
+      db.exec("PRAGMA journal_mode = WAL");
+      db.exec("CREATE TABLE IF NOT EXISTS sessions (session_id TEXT PRIMARY KEY, data TEXT NOT NULL)");
+      db.exec(
+        `CREATE TABLE IF NOT EXISTS session_messages (
+           seq INTEGER PRIMARY KEY AUTOINCREMENT,
+           session_id TEXT NOT NULL,
+           message_id TEXT NOT NULL,
+           data TEXT NOT NULL
+         )`
+      );
+      db.exec("CREATE INDEX IF NOT EXISTS idx_session_messages_session ON session_messages (session_id)");
+      this.db = db;
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { ClassificationTypeConfig } from "./IClassifier";
+import { LLMResponseFormat } from "./llm/LLMProvider";
+import { zodToJsonSchema } from "./utils/zodToJsonSchema";
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export type StructuredOutputValidation<T = any> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Build a Zod schema from a classification type template such as
+ * `{ answer: "<ANSWER>", tags: ["<TAG>"] }`. Placeholders become strings,
+ * arrays take the shape of their first item and extra fields are kept.
+ */
+export function templateToZod(template: any): z.ZodTypeAny {
+  if (Array.isArray(template)) {
+    const item = template.find((entry) => entry !== "...");
+    return z.array(item === undefined ? z.any() : templateToZod(item));
+  }
+  if (template && typeof template === "object") {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, value] of Object.entries(template)) {
+      shape[key] = templateToZod(value);
+    }
+    return z.object(shape).passthrough();
+  }
+  if (template === "number" || typeof template === "number") return z.number();
+  if (template === "boolean" || typeof template === "boolean") return z.boolean();
+  if (typeof template === "string") return z.string();
+  return z.any();
+}
+
+/**
+ * Zod schema of a classification type's content, including its messageType tag
+ */
+export function classificationTypeToZod(type: ClassificationTypeConfig): z.ZodTypeAny {
+  const schema = type.zodSchema ?? templateToZod(type.schema);
+  const tag = z.object({ messageType: z.literal(type.name) });
+  return schema instanceof z.ZodObject ? schema.extend(tag.shape) : z.intersection(tag, schema);
+}
+
+/**
+ * Validates LLM output against a response schema and phrases validation
+ * failures so the model can correct itself.
+ */
+export class StructuredOutputValidator<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  constructor(
+    private schema: T,
+    private name: string = "agent_response",
+    public readonly maxRepairAttempts: number = DEFAULT_MAX_REPAIR_ATTEMPTS
+  ) {}
+
+  public getResponseFormat(): LLMResponseFormat {
+    return { name: this.name, schema: zodToJsonSchema(this.schema) };
+  }
+
+  public validate(response: string): StructuredOutputValidation<z.infer<T>> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response);
+    } catch (error) {
+      return { success: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    const result = this.schema.safeParse(parsed);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+    return { success: false, errors: StructuredOutputValidator.formatIssues(result.error.issues) };
+  }
+
+  /**
+   * Instruction sent back to the model after an invalid response
+   */
+  public getRepairPrompt(errors: string[]): string {
+    return [
+      "Your previous response did not match the required JSON format:",
+      ...errors.map((error) => `- ${error}`),
+      "Respond again with only a JSON object that fixes these problems.",
+    ].join("\n");
+  }
+
+  private static formatIssues(issues: z.ZodIssue[]): string[] {
+    return issues.flatMap((issue) => {
+      // A union reports one error per member; the closest member explains the problem best
+      if (issue.code === "invalid_union" && issue.unionErrors.length > 0) {
+        const closest = issue.unionErrors.reduce((best, error) =>
+          error.issues.length < best.issues.length ? error : best
+        );
+        return StructuredOutputValidator.formatIssues(closest.issues);
+      }
+      const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+      return [`${path}: ${issue.message}`];
+    });
+  }
+}
@@ -6,6 +6,7 @@ import { InferClassificationUnion } from "./TypeInference";
 import { getEventEmitter } from "./observability/AgentEventEmitter";
 import { AgentEventBuilder } from './observability/AgentEventBuilder';
 import crypto from "crypto";
+import { zodObjectProperties, zodObjectRequired } from "./utils/zodToJsonSchema";
 
 export type ToolInput = InferClassificationUnion<readonly ClassificationTypeConfig[]>;
 
@@ -70,6 +71,8 @@ export interface ToolOptions {
   maxRetries?: number;
   retryDelay?: number;
   timeout?: number;
+  // Calls to this tool within one LLM turn run one after another, in the order they were issued
+  sequential?: boolean;
 }
 
 export interface RunOptions {
@@ -129,6 +132,10 @@ export abstract class Tool<
     this.context = context;
   }
 
+  public isSequential(): boolean {
+    return !!this.options.sequential;
+  }
+
   abstract schema(): z.ZodSchema<ToolInput>;
 
   protected abstract execute(
@@ -158,7 +165,7 @@ export abstract class Tool<
         return await operation();
       } catch (err) {
         const error = err instanceof Error ? err : new Error(String(err));
-        if (attempt === maxRetries) throw error;
+        if (attempt === maxRetries || options.signal?.aborted) throw error;
 
         const toolError =
           error instanceof ToolError
@@ -182,19 +189,43 @@ export abstract class Tool<
     throw new ToolError("Max retries exceeded");
   }
 
+  /**
+   * Reject as soon as the signal aborts, even if execute() does not observe it
+   */
+  private abortable<T>(operation: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+      return Promise.reject(new ToolError("Tool execution aborted", { aborted: true }));
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new ToolError("Tool execution aborted", { aborted: true }));
+      signal.addEventListener("abort", onAbort, { once: true });
+      operation.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
   async run(input: ToolInput, options: RunOptions = {}): Promise<TOutput> {
+    // Abort on our own timeout or when the caller's signal fires, whichever comes first
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort(options.signal?.reason);
+    let timer: ReturnType<typeof setTimeout> | undefined;
     try {
       this.validateInput(input);
 
       const timeout = this.options.timeout;
-      const controller = new AbortController();
       if (timeout) {
-        setTimeout(() => controller.abort(), timeout);
+        timer = setTimeout(() => controller.abort(), timeout);
+      }
+      if (options.signal) {
+        if (options.signal.aborted) {
+          controller.abort(options.signal.reason);
+        } else {
+          options.signal.addEventListener("abort", onCallerAbort, { once: true });
+        }
       }
 
       const finalOptions = {
         ...options,
-        signal: options.signal || controller.signal,
+        signal: controller.signal,
       };
 
       // Apply tool preferences
@@ -224,7 +255,7 @@ export abstract class Tool<
 
       const startTime = new Date().toISOString();
       const result = await this.withRetry(
-        () => this.execute(input, this.context, finalOptions),
+        () => this.abortable(this.execute(input, this.context, finalOptions), finalOptions.signal),
         input,
         finalOptions
       );
@@ -284,6 +315,10 @@ export abstract class Tool<
 
       await this.events?.onError?.(toolError, input, this.context, options);
       throw toolError;
+    } finally {
+      // Long-lived caller signals would otherwise keep one listener per run
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onCallerAbort);
     }
   }
 
@@ -310,76 +345,12 @@ export abstract class Tool<
         description: this.description,
         parameters: {
           type: 'object',
-          properties: this.extractSchemaProperties(schema),
-          required: this.extractRequiredFields(schema),
+          properties: zodObjectProperties(schema),
+          required: zodObjectRequired(schema),
         }
       }
     };
   }
-
-  private extractSchemaProperties(schema: z.ZodSchema): Record<string, any> {
-    if (schema instanceof z.ZodObject) {
-      const shape = schema._def.shape();
-      const properties: Record<string, any> = {};
-      
-      for (const [key, value] of Object.entries(shape)) {
-        if (value instanceof z.ZodType) {
-          properties[key] = this.zodTypeToJsonSchema(value);
-        }
-      }
-      
-      return properties;
-    }
-    return {};
-  }
-
-  private extractRequiredFields(schema: z.ZodSchema): string[] {
-    if (schema instanceof z.ZodObject) {
-      const shape = schema._def.shape();
-      return Object.entries(shape)
-        .filter(([_, value]) => !(value instanceof z.ZodOptional))
-        .map(([key]) => key);
-    }
-    return [];
-  }
-
-  private zodTypeToJsonSchema(zodSchema: z.ZodTypeAny): any {
-    if (zodSchema instanceof z.ZodString) {
-      return { type: 'string', description: zodSchema.description };
-    }
-    if (zodSchema instanceof z.ZodNumber) {
-      return { type: 'number', description: zodSchema.description };
-    }
-    if (zodSchema instanceof z.ZodBoolean) {
-      return { type: 'boolean', description: zodSchema.description };
-    }
-    if (zodSchema instanceof z.ZodArray) {
-      return {
-        type: 'array',
-        items: this.zodTypeToJsonSchema(zodSchema.element),
-        description: zodSchema.description
-      };
-    }
-    if (zodSchema instanceof z.ZodObject) {
-      return {
-        type: 'object',
-        properties: this.extractSchemaProperties(zodSchema),
-        required: this.extractRequiredFields(zodSchema),
-        description: zodSchema.description
-      };
-    }
-    if (zodSchema instanceof z.ZodEnum) {
-      return {
-        type: 'string',
-        enum: zodSchema._def.values,
-        description: zodSchema.description
-      };
-    }
-    if (zodSchema instanceof z.ZodOptional) {
-      return this.zodTypeToJsonSchema(zodSchema.unwrap());
-    }
-    return { type: 'string' }; // fallback
-  }
 }
 
 // Dynamic Tool Implementation
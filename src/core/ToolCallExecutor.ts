@@ -0,0 +1,110 @@
+import { ToolOutput } from "./Tool";
+
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+export interface ToolCallRequest {
+  toolCallId: string;
+  toolName: string;
+  arguments: any;
+  /** Ids of calls in the same batch that must succeed before this one starts */
+  dependsOn?: string[];
+  /** Why the call could not be read; it is answered with this error instead of being run */
+  invalid?: string;
+}
+
+/**
+ * Outcome of one tool call, in the shape passed to Session.onToolResult handlers
+ */
+export interface ToolCallResult {
+  status: 'success' | 'failure';
+  toolCallId?: string;
+  toolName?: string;
+  data?: ToolOutput;
+  error?: string;
+}
+
+export interface ToolCallBatchResult {
+  status: 'success' | 'partial' | 'failure';
+  /** One entry per call, in the order the calls were issued */
+  results: ToolCallResult[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Runs the tool calls of one LLM turn concurrently, up to a limit, while
+ * holding back calls whose dependencies have not finished yet. A call whose
+ * dependency failed is not run and reported as failed itself.
+ */
+export class ToolCallExecutor {
+  private maxConcurrency: number;
+
+  constructor(maxConcurrency: number = DEFAULT_TOOL_CONCURRENCY) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  public async execute(
+    calls: ToolCallRequest[],
+    invoke: (call: ToolCallRequest) => Promise<ToolCallResult>
+  ): Promise<ToolCallBatchResult> {
+    const ids = new Set(calls.map((call) => call.toolCallId));
+    const results = new Map<string, ToolCallResult>();
+    const running = new Map<string, Promise<void>>();
+    const pending = [...calls];
+
+    while (pending.length > 0 || running.size > 0) {
+      for (let i = 0; i < pending.length && running.size < this.maxConcurrency; ) {
+        const call = pending[i];
+        // Dependencies outside this batch are assumed to be satisfied already
+        const dependencies = (call.dependsOn || []).filter((id) => ids.has(id) && id !== call.toolCallId);
+        const failedDependency = dependencies.find((id) => results.has(id) && results.get(id)!.status !== 'success');
+
+        if (failedDependency) {
+          pending.splice(i, 1);
+          results.set(call.toolCallId, this.failure(call, `Skipped because tool call ${failedDependency} failed`));
+        } else if (dependencies.every((id) => results.has(id))) {
+          pending.splice(i, 1);
+          running.set(call.toolCallId, this.invokeSafely(call, invoke).then((result) => {
+            results.set(call.toolCallId, result);
+            running.delete(call.toolCallId);
+          }));
+        } else {
+          i++;
+        }
+      }
+
+      if (running.size === 0) {
+        // Nothing can start and nothing will finish: the remaining calls depend on each other
+        for (const call of pending.splice(0)) {
+          results.set(call.toolCallId, this.failure(call, 'Skipped because of a circular dependency'));
+        }
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    const ordered = calls.map((call) => results.get(call.toolCallId)!);
+    const failed = ordered.filter((result) => result.status === 'failure').length;
+    return {
+      status: failed === 0 ? 'success' : failed === ordered.length ? 'failure' : 'partial',
+      results: ordered,
+      succeeded: ordered.length - failed,
+      failed,
+    };
+  }
+
+  private async invokeSafely(
+    call: ToolCallRequest,
+    invoke: (call: ToolCallRequest) => Promise<ToolCallResult>
+  ): Promise<ToolCallResult> {
+    try {
+      return await invoke(call);
+    } catch (error) {
+      return this.failure(call, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private failure(call: ToolCallRequest, error: string): ToolCallResult {
+    return { status: 'failure', error, toolName: call.toolName, toolCallId: call.toolCallId };
+  }
+}
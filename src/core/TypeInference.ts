@@ -1,7 +1,10 @@
 import { ClassificationTypeConfig } from './IClassifier';
+import { z } from 'zod';
 
 export type InferClassificationType<T extends ClassificationTypeConfig> =
-  T extends { name: infer Name, schema: infer Structure }
+  T extends { name: infer Name, zodSchema: infer Schema extends z.ZodTypeAny }
+    ? { messageType: Name } & z.infer<Schema>
+    : T extends { name: infer Name, schema: infer Structure }
     ? { messageType: Name } & Structure
     : never;
 
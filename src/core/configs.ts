@@ -1,3 +1,12 @@
+import type { ResponseCacheStore } from "./llm/ResponseCache";
+import type { SessionStore } from "./SessionStore";
+import type { EmbeddingProvider } from "./memory/embedding/EmbeddingProvider";
+import type { VectorIndexType } from "./memory/storage/VectorIndex";
+import type { RecallOptions } from "./memory/MemoryRanker";
+import type { MemoryType } from "./memory/base";
+import type { PiiDetector } from "./memory/PiiRedactor";
+import type { IContextOptimizer } from "./context/types";
+
 export type Instruction = {
   name: string;
   description?: string;
@@ -14,11 +23,36 @@ export interface AgentCoreConfig {
   // Tools from MCP servers
   mcpTools?: any[];     // Array of resolved MCP tools
   // tools?: { [key: string]: Tool };        // Custom tools the agent can use
-  //inboxConfig?: InboxConfig;              // Configuration for task inbox settings (priority, queue, etc.)
-  // memoryConfig?: MemoryConfig;            // Configuration for memory persistence (in-memory, DB, etc.)
+  inboxConfig?: InboxConfig;              // Configuration for task inbox settings (priority, queue, etc.)
+  runLimits?: AgentRunLimits;             // Default bounds for Session.run()
+  maxToolConcurrency?: number;            // Tool calls of one LLM turn run in parallel up to this limit (default 4)
+  sessionStore?: SessionStore;            // Persists sessions and their history so they can be resumed after a restart
+  memoryConfig?: MemoryConfig;            // Configuration for the agent's memory system
+  goalTracking?: GoalTrackingConfig;      // Opens and closes session goals from classified responses
   // classificationTypeConfigs?: ClassificationTypeConfig[]; 
 }
 
+/**
+ * Message types of classified responses that open, complete or pause the goal
+ * of the user's request (see Session.getGoals()). The defaults are the types of
+ * DefaultSchemaBuilder.
+ */
+export interface GoalTrackingConfig {
+  enabled?: boolean;       // Defaults to true
+  openOn?: string[];       // Default CLARIFICATION_NEEDED, CONFIRMATION_NEEDED
+  completeOn?: string[];   // Default TASK_COMPLETE, COMPLETED_TASK
+  pauseOn?: string[];      // Default ERROR_OR_UNABLE
+}
+
+/**
+ * Bounds of an agent run (see Session.run()); the run stops as soon as one is hit
+ */
+export interface AgentRunLimits {
+  maxIterations?: number;   // LLM turns, default 10
+  maxDurationMs?: number;   // Wall time, default 5 minutes
+  maxToolCalls?: number;    // Tool executions, default 25
+}
+
 export interface AgentServiceConfig {
   llmConfig?: LLMConfig;                  // Configuration for large language model interaction
   communicationConfig?: CommunicationConfig; // Communication options (NATS, HTTP, gRPC)
@@ -27,15 +61,77 @@ export interface AgentServiceConfig {
   loggingConfig?: LoggingConfig;          // Configuration for logging
 }
 
+export type LLMProviderType = 'openai' | 'anthropic' | 'ollama';
+
+export interface TokenPricing {
+  promptPer1K: number;                     // Cost per 1000 prompt tokens
+  completionPer1K: number;                 // Cost per 1000 completion tokens
+}
+
+export interface TokenBudgetConfig {
+  perSession?: number;                     // Max total tokens a single session may consume
+  perDay?: number;                         // Max total tokens the agent may consume per UTC day
+  onExceeded?: 'refuse' | 'downgrade';     // Defaults to 'refuse'
+  downgradeModel?: string;                 // Model used once the budget is exceeded with 'downgrade'
+}
+
+export interface LLMCandidate {
+  model: string;
+  provider?: LLMProviderType;              // Fields left out are inherited from the enclosing LLMConfig
+  apiKey?: string;                         // Inherited only when provider is left out or matches the enclosing one
+  baseURL?: string;                        // Likewise; other providers fall back to their default endpoint
+}
+
+export interface LLMRoutingRule {
+  mode?: string;                           // Matches the prompt strategy mode, e.g. 'direct' or 'react'
+  priority?: string;                       // Matches Message.metadata.priority, e.g. 'high'
+  model: string;                           // Model to start the fallback chain with when the rule matches
+}
+
+export interface StructuredOutputConfig {
+  native?: boolean;                        // Send the schema as provider response_format when supported, default true
+  maxRepairAttempts?: number;              // Re-asks after a response fails validation, default 2
+}
+
+export interface ResponseCacheConfig {
+  store?: 'memory' | 'file' | ResponseCacheStore; // Defaults to an in-memory LRU
+  path?: string;                           // File used by the 'file' store
+  maxEntries?: number;                     // LRU capacity, default 500
+  ttlMs?: number;                          // Entries expire after this long; kept until evicted by default
+  maxTemperature?: number;                 // Only calls at or below this temperature are cached, default 0
+}
+
 export interface LLMConfig {
   // Existing fields
 
+  provider?: LLMProviderType;              // Backend API flavour, defaults to 'openai' (any OpenAI-compatible endpoint)
   apiKey: string;
   model: string;
   baseURL?: string;
   streamMode?: boolean;
   maxTokens?: number;
   temperature?: number;
+  pricing?: { [model: string]: TokenPricing }; // Per-model prices used for cost accounting
+  tokenBudget?: TokenBudgetConfig;
+  fallbacks?: LLMCandidate[];              // Tried in order on rate-limit, 5xx or context-length errors
+  routing?: LLMRoutingRule[];              // First matching rule picks the model for a call
+  structuredOutput?: StructuredOutputConfig; // Validate answers against the prompt template's response schema
+  responseCache?: ResponseCacheConfig;     // Reuse responses to repeated deterministic calls
+  promptCaching?: boolean;                 // Mark the system prompt as a cacheable prefix for providers that support it
+  contextWindow?: ContextWindowConfig;     // Fit the session history into the model's context window
+}
+
+/**
+ * Budget of the session history sent with each LLM call: what is left of the
+ * model's context window after the prompts and the reserve for the answer
+ */
+export interface ContextWindowConfig {
+  models?: { [model: string]: number };    // Context windows in tokens, on top of MODEL_CONTEXT_WINDOWS
+  reserveTokens?: number;                  // Kept free for the answer, defaults to maxTokens or 1024
+  optimizeAboveTokens?: number;            // History size that runs the optimizers, default 4000
+  maxMessageAgeMs?: number;                // Message age that runs the optimizers, default 24 hours
+  summaryModel?: string;                   // Model writing the rolling summary of older messages, defaults to model
+  optimizers?: { [name: string]: IContextOptimizer }; // Replace the default time decay and summarization optimizers
 }
 
 /**
@@ -52,9 +148,49 @@ export interface QueryPreProcessor {
   process: (query: string, sessionId: string) => Promise<PreprocessResult>;
 }
 
+/**
+ * Memory system settings. With an embedding provider, long-term memories are
+ * embedded when stored and recalled by vector similarity.
+ */
 export interface MemoryConfig {
-  type: string;
-  dbFilePath: string;
+  embeddings?: EmbeddingProvider;         // e.g. HashingEmbeddingProvider (local) or OpenAIEmbeddingProvider
+  vectorIndex?: VectorIndexType;          // 'brute-force' (exact, default) or 'hnsw' (approximate, for large stores)
+  retrieval?: MemoryRetrievalConfig;      // Inject recalled memories into every prompt
+  factExtraction?: FactExtractionConfig;  // Learn facts from the conversation into semantic memory
+  privacy?: MemoryPrivacyConfig;          // Redact personal data before it is remembered
+}
+
+/**
+ * Memories recalled for the incoming message are added to the prompt as a
+ * system context block
+ */
+export interface MemoryRetrievalConfig {
+  enabled?: boolean;                      // Default true when the retrieval block is present
+  topK?: number;                          // Memories recalled per prompt, default 5
+  maxTokens?: number;                     // Token budget of the memory block, default 500
+  memoryTypes?: MemoryType[];             // Stores searched, default semantic and episodic
+  recall?: Omit<RecallOptions, "limit" | "memoryTypes">;  // Ranking weights and recency half-life
+}
+
+/**
+ * After every assistant turn, the new part of the conversation is sent to the
+ * LLM to extract entities, relations and facts into semantic memory
+ */
+export interface FactExtractionConfig {
+  enabled?: boolean;                      // Default true when the factExtraction block is present
+  model?: string;                         // Defaults to llmConfig.model; a small model is usually enough
+  maxMessages?: number;                   // Latest messages per session sent for extraction, default 10
+  minConfidence?: number;                 // Extractions the model is less sure about are dropped, default 0.5
+}
+
+/**
+ * Personal data is replaced by placeholders before messages reach any memory
+ * store. Memories are tagged with the session owner, whose data can be purged
+ * with forgetSubject().
+ */
+export interface MemoryPrivacyConfig {
+  redaction?: boolean;                    // Default true when the privacy block is present
+  detectors?: PiiDetector[];              // Checked after the built-in email, card and phone detectors
 }
 
 export interface CommunicationConfig {
@@ -69,8 +205,11 @@ export interface CommunicationConfig {
 }
 
 export interface InboxConfig {
-  type: string;
-  priority: string;
+  type?: string;
+  priority?: string;
+  maxConcurrent?: number;                  // Messages processed at once across all sessions (default 4)
+  perSessionConcurrency?: number;          // Messages processed at once per session (default 1, keeps turns ordered)
+  maxQueueSize?: number;                   // Queued messages before enqueue rejects with InboxFullError (default 1000)
 }
 
 export interface PromptTemplate {
@@ -1,7 +1,10 @@
 import { ConversationMessage, UserGoal, DomainContext, InteractionFlow } from './types';
 import { SmartHistoryManager } from './SmartHistoryManager';
+import { SummarizationEngine, SummarizationEngineOptions } from './engines/SummarizationEngine';
+import { SummarizationOptimizer } from './optimizers/SummarizationOptimizer';
 import { WorkingMemory } from '../memory/modules/working/WorkingMemory';
 import { NLPService } from '../memory/modules/semantic/nlp/NLPService';
+import { StoredConversationContext } from '../SessionStore';
 import crypto from 'crypto';
 
 /**
@@ -14,10 +17,13 @@ export class ConversationContextManager {
     private activeGoals: Map<string, UserGoal>;
     private domainContexts: Map<string, DomainContext>;
     private currentDomain?: string;
-    private nlpService: NLPService;
+    private nlpService?: NLPService;
     private goalConceptCache: Map<string, { concepts: string[], timestamp: Date }>;
 
-    constructor(workingMemory: WorkingMemory, nlpService: NLPService) {
+    /**
+     * @param nlpService Relates messages to goals by their concepts; without one, messages are not related to goals
+     */
+    constructor(workingMemory: WorkingMemory, nlpService?: NLPService) {
         this.workingMemory = workingMemory;
         this.historyManager = new SmartHistoryManager(workingMemory);
         this.context = new Map();
@@ -103,21 +109,37 @@ export class ConversationContextManager {
         return id;
     }
 
-    public updateUserGoal(id: string, updates: Partial<UserGoal>): void {
+    /**
+     * @returns false when there is no goal with this ID
+     */
+    public updateUserGoal(id: string, updates: Partial<UserGoal>): boolean {
         const goal = this.activeGoals.get(id);
-        if (!goal) return;
+        if (!goal) return false;
 
         Object.assign(goal, {
             ...updates,
+            id,
             updatedAt: new Date()
         });
 
         this.activeGoals.set(id, goal);
+        return true;
+    }
+
+    public removeUserGoal(id: string): boolean {
+        this.goalConceptCache.delete(id);
+        return this.activeGoals.delete(id);
     }
 
     public getActiveGoals(): UserGoal[] {
+        return this.getGoals().filter(g => g.status === 'active');
+    }
+
+    /**
+     * Goals of any status, highest priority first
+     */
+    public getGoals(): UserGoal[] {
         return Array.from(this.activeGoals.values())
-            .filter(g => g.status === 'active')
             .sort((a, b) => b.priority - a.priority);
     }
 
@@ -141,10 +163,75 @@ export class ConversationContextManager {
         return this.domainContexts.get(this.currentDomain);
     }
 
+    /**
+     * Goals and domains for a SessionStore
+     */
+    public toStoredContext(): StoredConversationContext {
+        return {
+            goals: Array.from(this.activeGoals.values()).map(goal => ({
+                ...goal,
+                createdAt: goal.createdAt.toISOString(),
+                updatedAt: goal.updatedAt.toISOString()
+            })),
+            domains: Array.from(this.domainContexts.values()).map(domain => ({
+                ...domain,
+                rules: Array.from(domain.rules),
+                activeSince: domain.activeSince.toISOString()
+            })),
+            currentDomain: this.currentDomain
+        };
+    }
+
+    /**
+     * Restore goals and domains saved by toStoredContext()
+     */
+    public restore(stored: StoredConversationContext): void {
+        for (const goal of stored.goals) {
+            this.activeGoals.set(goal.id, { ...goal, createdAt: new Date(goal.createdAt), updatedAt: new Date(goal.updatedAt) });
+        }
+        for (const domain of stored.domains) {
+            this.domainContexts.set(domain.domain, { ...domain, rules: new Map(domain.rules), activeSince: new Date(domain.activeSince) });
+        }
+        this.currentDomain = stored.currentDomain;
+    }
+
+    /**
+     * The current domain and the active goals as a section of the system prompt
+     * @returns An empty string when there is neither
+     */
+    public describeForPrompt(): string {
+        const lines: string[] = [];
+
+        const domain = this.getCurrentDomain();
+        if (domain) {
+            lines.push(`Current domain: ${domain.subDomain ? `${domain.domain} / ${domain.subDomain}` : domain.domain}`);
+            for (const [rule, value] of domain.rules) {
+                lines.push(`- ${rule}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+            }
+        }
+
+        const goals = this.getActiveGoals();
+        if (goals.length > 0) {
+            lines.push('Open user goals, most important first:');
+            lines.push(...goals.map(goal => `- ${goal.description}`));
+        }
+
+        return lines.join('\n');
+    }
+
     public addInteractionFlow(flow: InteractionFlow): void {
         this.historyManager.addInteractionFlow(flow);
     }
 
+    /**
+     * Summarize older messages during optimize() once they pass maxTokens. The
+     * summary keeps track of the active goals.
+     */
+    public useSummarizer(options: Omit<SummarizationEngineOptions, 'goals'>, maxTokens?: number, keepRecent?: number): void {
+        const engine = new SummarizationEngine({ ...options, goals: () => this.getActiveGoals() });
+        this.historyManager.registerOptimizer('summarization', new SummarizationOptimizer(maxTokens, keepRecent, engine));
+    }
+
     public async optimize(): Promise<void> {
         // Optimize history
         await this.historyManager.optimize();
@@ -170,6 +257,7 @@ export class ConversationContextManager {
     }
 
     private async getContentConcepts(content: string): Promise<string[]> {
+        if (!this.nlpService) return [];
         try {
             const result = await this.nlpService.extractConcepts(content);
             // Convert ConceptNode[] to string[] using the label field
@@ -1,6 +1,10 @@
-import { ConversationMessage, IHistoryManager, InteractionFlow } from './types';
+import { ConversationMessage, IHistoryManager, InteractionFlow, IContextMetric, IContextOptimizer, ContextMetrics, HistoryResult } from './types';
 import { WorkingMemory } from '../memory/modules/working/WorkingMemory';
 import { IOptimizer } from './optimizers/types';
+import { TokenMetric } from './metrics/TokenMetric';
+import { AgeMetric } from './metrics/AgeMetric';
+import { RelevanceMetric } from './metrics/RelevanceMetric';
+import { groupToolCalls, conversationMessageInfo } from './ToolCallSequence';
 
 /**
  * Enhanced history manager with smart context tracking and optimization
@@ -8,14 +12,23 @@ import { IOptimizer } from './optimizers/types';
 export class SmartHistoryManager implements IHistoryManager {
     private messages: Map<string, MessageNode>;
     private workingMemory: WorkingMemory;
-    private optimizers: Map<string, IOptimizer>;
+    private optimizers: Map<string, IOptimizer | IContextOptimizer>;
     private maxHistorySize: number;
-
-    constructor(workingMemory: WorkingMemory, maxHistorySize: number = 100) {
+    private metrics: IContextMetric[];
+
+    /**
+     * @param metrics buildHistory() runs the optimizers once one of these passes its threshold
+     */
+    constructor(
+        workingMemory: WorkingMemory,
+        maxHistorySize: number = 100,
+        metrics: IContextMetric[] = [new TokenMetric(), new AgeMetric()]
+    ) {
         this.messages = new Map();
         this.workingMemory = workingMemory;
         this.optimizers = new Map();
         this.maxHistorySize = maxHistorySize;
+        this.metrics = metrics;
     }
 
     public async addMessage(message: ConversationMessage): Promise<void> {
@@ -121,6 +134,71 @@ export class SmartHistoryManager implements IHistoryManager {
         await this.trimHistory();
     }
 
+    /**
+     * Select the messages to send to the LLM. When a metric passes its threshold,
+     * the registered optimizers run in order, each one only if its shouldOptimize()
+     * agrees. The oldest messages are then dropped until the rest fit in maxTokens,
+     * pinned messages last. The last message, usually the current input, is always kept.
+     * Messages it refers to through metadata.references, directly or via other
+     * messages, are pinned.
+     */
+    public async buildHistory(messages: ConversationMessage[], maxTokens: number): Promise<HistoryResult> {
+        const order = new Map(messages.map((message, index) => [message.id, index]));
+        const references = new Map(messages.map(message => [message.id, message.metadata?.references ?? []]));
+        const referenced = new Set(
+            messages.length > 0 ? collectReferences(messages[messages.length - 1].id, id => references.get(id)) : []
+        );
+        let selected = messages.map(message => referenced.has(message.id) && !message.metadata?.pinned
+            ? { ...message, metadata: { ...message.metadata, pinned: true } }
+            : message);
+
+        const optimized = this.metrics.some(metric => metric.measure(messages) > metric.threshold);
+        if (optimized) {
+            for (const optimizer of this.optimizers.values()) {
+                if ('shouldOptimize' in optimizer && !optimizer.shouldOptimize(this.measure(selected))) continue;
+                selected = await optimizer.optimize(selected);
+            }
+            // Optimizers may reorder messages: summaries go first, then the conversation order
+            selected = [...selected].sort((a, b) => (order.get(a.id) ?? -1) - (order.get(b.id) ?? -1));
+        }
+
+        const last = messages[messages.length - 1];
+        if (last && !selected.some(message => message.id === last.id)) {
+            selected = [...selected, last];
+        }
+
+        // Drop the oldest messages first, pinned ones such as summaries only as a last resort.
+        // A tool call goes with its results, and the group holding the last message stays.
+        let tokenCount = selected.reduce((sum, message) => sum + message.tokens, 0);
+        const groups = groupToolCalls(selected, conversationMessageInfo)
+            .filter(group => !group.some(message => message.id === last?.id));
+        const candidates = [
+            ...groups.filter(group => !group.some(message => message.metadata?.pinned)),
+            ...groups.filter(group => group.some(message => message.metadata?.pinned))
+        ];
+        const removed = new Set<string>();
+        for (const group of candidates) {
+            if (tokenCount <= maxTokens) break;
+            for (const message of group) {
+                removed.add(message.id);
+                tokenCount -= message.tokens;
+            }
+        }
+        selected = selected.filter(message => !removed.has(message.id));
+
+        const kept = new Set(selected.map(message => message.id));
+        const summarized = new Set<string>(
+            selected.flatMap(message => message.metadata?.summarizes ?? []).filter(id => !kept.has(id))
+        );
+        return {
+            messages: selected,
+            tokenCount,
+            optimized,
+            dropped: messages.filter(message => !kept.has(message.id) && !summarized.has(message.id)).map(message => message.id),
+            summarized: Array.from(summarized)
+        };
+    }
+
     public addInteractionFlow(flow: InteractionFlow): void {
         const node = this.messages.get(flow.messageId);
         if (!node) return;
@@ -143,35 +221,30 @@ export class SmartHistoryManager implements IHistoryManager {
     }
 
     public async resolveReferences(messageId: string): Promise<ConversationMessage[]> {
-        const node = this.messages.get(messageId);
-        if (!node) return [];
-
-        const resolved: ConversationMessage[] = [];
-        const visited = new Set<string>();
-
-        const traverse = (id: string) => {
-            if (visited.has(id)) return;
-            visited.add(id);
-
-            const current = this.messages.get(id);
-            if (!current) return;
-
-            resolved.push(current.message);
-
-            // Traverse references
-            for (const refId of current.references) {
-                traverse(refId);
-            }
-        };
+        if (!this.messages.has(messageId)) return [];
 
-        traverse(messageId);
-        return resolved.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        return [messageId, ...collectReferences(messageId, id => this.messages.get(id)?.references)]
+            .map(id => this.messages.get(id))
+            .filter((node): node is MessageNode => node !== undefined)
+            .map(node => node.message)
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
     }
 
-    public registerOptimizer(name: string, optimizer: IOptimizer): void {
+    public registerOptimizer(name: string, optimizer: IOptimizer | IContextOptimizer): void {
         this.optimizers.set(name, optimizer);
     }
 
+    private measure(messages: ConversationMessage[]): ContextMetrics {
+        return {
+            tokenCount: messages.reduce((sum, message) => sum + message.tokens, 0),
+            messageCount: messages.length,
+            averageRelevance: new RelevanceMetric().measure(messages),
+            oldestMessageAge: new AgeMetric().measure(messages),
+            activeGoalsCount: 0,
+            domainSwitchFrequency: 0
+        };
+    }
+
     private async updateRelevanceScores(): Promise<void> {
         const now = new Date();
         for (const node of this.messages.values()) {
@@ -221,19 +294,40 @@ export class SmartHistoryManager implements IHistoryManager {
     private async trimHistory(): Promise<void> {
         if (this.messages.size <= this.maxHistorySize) return;
 
-        const sortedMessages = Array.from(this.messages.entries())
-            .sort(([_, a], [__, b]) => {
-                const scoreA = a.message.metadata?.relevanceScore || 0;
-                const scoreB = b.message.metadata?.relevanceScore || 0;
-                return scoreB - scoreA;
-            });
+        // Tool calls and their results are kept or removed together
+        const groups = groupToolCalls(Array.from(this.messages.values()), node => conversationMessageInfo(node.message));
+        const score = (group: MessageNode[]) => Math.max(...group.map(node => node.message.metadata?.relevanceScore || 0));
+        const sortedGroups = groups.sort((a, b) => score(b) - score(a));
 
         // Keep only the most relevant messages
-        const toRemove = sortedMessages.slice(this.maxHistorySize);
-        for (const [id] of toRemove) {
-            this.messages.delete(id);
+        let kept = 0;
+        for (const group of sortedGroups) {
+            if (kept + group.length <= this.maxHistorySize) {
+                kept += group.length;
+                continue;
+            }
+            for (const node of group) {
+                this.messages.delete(node.message.id);
+            }
+        }
+    }
+}
+
+/**
+ * IDs of the messages a message refers to, directly or through other messages
+ */
+function collectReferences(messageId: string, referencesOf: (id: string) => Iterable<string> | undefined): string[] {
+    const visited = new Set<string>([messageId]);
+    const pending = [messageId];
+    while (pending.length > 0) {
+        for (const refId of referencesOf(pending.pop()!) ?? []) {
+            if (visited.has(refId)) continue;
+            visited.add(refId);
+            pending.push(refId);
         }
     }
+    visited.delete(messageId);
+    return Array.from(visited);
 }
 
 interface MessageNode {
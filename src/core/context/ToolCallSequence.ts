@@ -0,0 +1,94 @@
+import { ConversationMessage } from './types';
+import type { LLMMessage } from '../llm/LLMProvider';
+
+/**
+ * What a message contributes to a tool-call exchange
+ */
+export interface ToolCallInfo {
+    role: string;
+    toolCallIds?: string[];  // Calls requested by an assistant message
+    toolCallId?: string;     // Call answered by a tool message
+}
+
+export const llmMessageInfo = (message: LLMMessage): ToolCallInfo => ({
+    role: message.role,
+    toolCallIds: message.tool_calls?.map(call => call.id),
+    toolCallId: message.tool_call_id
+});
+
+export const conversationMessageInfo = (message: ConversationMessage): ToolCallInfo => ({
+    role: message.role,
+    toolCallIds: message.metadata?.toolCalls?.map((call: any) => call.id),
+    toolCallId: message.metadata?.toolCallId
+});
+
+/**
+ * Split messages into groups that are kept or dropped as a whole: an assistant
+ * message requesting tool calls together with the tool results that follow it,
+ * or any other single message. A tool result that answers no preceding call
+ * forms a group of its own.
+ */
+export function groupToolCalls<T>(messages: T[], info: (message: T) => ToolCallInfo): T[][] {
+    const groups: T[][] = [];
+    let open: { group: T[]; callIds: Set<string> } | undefined;
+
+    for (const message of messages) {
+        const { role, toolCallIds = [], toolCallId } = info(message);
+        if (role === 'tool' && open && toolCallId !== undefined && open.callIds.has(toolCallId)) {
+            open.group.push(message);
+            continue;
+        }
+        const group = [message];
+        groups.push(group);
+        open = role === 'assistant' && toolCallIds.length > 0 ? { group, callIds: new Set(toolCallIds) } : undefined;
+    }
+    return groups;
+}
+
+/**
+ * Make a message sequence acceptable to OpenAI-compatible APIs: every tool
+ * call must be answered right after the message requesting it, and every tool
+ * result must answer such a call. Orphaned results are dropped; calls left
+ * without a result are removed from their message, which is dropped when
+ * nothing else remains of it.
+ * @returns The repaired messages and a description of every change
+ */
+export function repairToolCallSequence(messages: LLMMessage[]): { messages: LLMMessage[]; issues: string[] } {
+    const repaired: LLMMessage[] = [];
+    const issues: string[] = [];
+
+    for (const [first, ...rest] of groupToolCalls(messages, llmMessageInfo)) {
+        if (first.role === 'tool') {
+            issues.push(`Dropped tool result ${first.tool_call_id ?? '(no id)'} without a matching tool call`);
+            continue;
+        }
+        if (!first.tool_calls?.length) {
+            repaired.push(first);
+            continue;
+        }
+
+        // Keep the first result of each call
+        const results = new Map<string, LLMMessage>();
+        for (const result of rest) {
+            if (results.has(result.tool_call_id!)) {
+                issues.push(`Dropped duplicate result of tool call ${result.tool_call_id}`);
+            } else {
+                results.set(result.tool_call_id!, result);
+            }
+        }
+
+        const answered = first.tool_calls.filter(call => results.has(call.id));
+        for (const call of first.tool_calls.filter(call => !results.has(call.id))) {
+            issues.push(`Removed tool call ${call.id} (${call.function.name}) without a result`);
+        }
+        if (answered.length === first.tool_calls.length) {
+            repaired.push(first, ...results.values());
+        } else if (answered.length > 0) {
+            repaired.push({ ...first, tool_calls: answered }, ...answered.map(call => results.get(call.id)!));
+        } else if (first.content) {
+            const { tool_calls, ...message } = first;
+            repaired.push(message);
+        }
+    }
+    return { messages: repaired, issues };
+}
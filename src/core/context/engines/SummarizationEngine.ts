@@ -1,31 +1,113 @@
-import { ConversationMessage } from '../types';
+import { ConversationMessage, UserGoal } from '../types';
+import { LLMChatRequest, LLMChatResponse, LLMProvider } from '../../llm/LLMProvider';
+import { withTags } from '../../Logger';
+import { coreLoggers } from '../../logging';
+
+const SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an assistant.
+The summary replaces the summarized messages in the assistant's context, so keep everything needed to continue the conversation:
+- what the user asked for, decided and prefers, and any open questions
+- names, numbers, dates and other specifics
+- tools the assistant called, with their inputs and what they returned
+Write plain sentences in the third person, no headings. Fold an existing summary and the new messages into one summary; do not repeat the existing summary verbatim.`;
+
+export interface SummarizationEngineOptions {
+    /** Resolved on every call so that a replaced provider is picked up; without one, messages are condensed */
+    llm?: () => LLMProvider;
+    model?: string;
+    maxSummaryTokens?: number;  // Default 500
+    /** Goals the summary must keep track of, e.g. ConversationContextManager.getActiveGoals() of the session */
+    goals?: (sessionId?: string) => UserGoal[];
+    /** Called after every summarization call, e.g. to record token usage */
+    onResponse?: (request: LLMChatRequest, response: LLMChatResponse, sessionId?: string) => void;
+}
 
 /**
  * Engine for summarizing conversation messages
  */
 export class SummarizationEngine {
+    private logger = coreLoggers.llm;
+
+    constructor(private readonly options: SummarizationEngineOptions = {}) {}
+
     /**
-     * Summarize a set of messages
+     * Summarize a set of messages. With a previous summary the result is a
+     * rolling summary covering both the summary and the new messages.
      */
-    public async summarize(messages: ConversationMessage[]): Promise<string> {
+    public async summarize(messages: ConversationMessage[], previousSummary?: string): Promise<string> {
+        const provider = this.options.llm?.();
+        if (provider && this.options.model) {
+            try {
+                return await this.summarizeWithLLM(provider, this.options.model, messages, previousSummary);
+            } catch (error) {
+                // A condensed transcript keeps the conversation going when the model is unavailable
+                this.logger.warn(
+                    `Summarization failed, condensing messages instead: ${error instanceof Error ? error.message : String(error)}`,
+                    withTags(['context'])
+                );
+            }
+        }
         const keyPoints = await this.extractKeyPoints(messages);
-        return this.generateSummary(keyPoints);
+        return this.generateSummary(previousSummary ? [previousSummary, ...keyPoints] : keyPoints);
+    }
+
+    private async summarizeWithLLM(
+        provider: LLMProvider,
+        model: string,
+        messages: ConversationMessage[],
+        previousSummary?: string
+    ): Promise<string> {
+        const goals = this.options.goals?.(messages[0]?.metadata?.sessionId) ?? [];
+        const sections = [
+            previousSummary ? `Existing summary:\n${previousSummary}` : '',
+            goals.length > 0 ? `User goals to keep track of:\n${goals.map(goal => `- ${goal.description}`).join('\n')}` : '',
+            `New messages:\n${this.transcript(messages)}`
+        ];
+        const request: LLMChatRequest = {
+            model,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                { role: 'user', content: sections.filter(Boolean).join('\n\n') }
+            ],
+            maxTokens: this.options.maxSummaryTokens ?? 500,
+            temperature: 0
+        };
+
+        const response = await provider.chat(request);
+        this.options.onResponse?.(request, response, messages[0]?.metadata?.sessionId);
+        const summary = response.content.trim();
+        if (!summary) {
+            throw new Error('Empty summary');
+        }
+        return summary;
+    }
+
+    /**
+     * One line per message. A tool call and its result are rendered next to each other.
+     */
+    private transcript(messages: ConversationMessage[]): string {
+        return messages.map(message => {
+            const toolCalls: any[] = message.metadata?.toolCalls ?? [];
+            if (toolCalls.length > 0) {
+                return toolCalls.map(call => `assistant called ${call.function.name}(${call.function.arguments})`).join('\n');
+            }
+            if (message.role === 'tool') {
+                return `tool result: ${message.content}`;
+            }
+            return `${message.role}: ${message.content}`;
+        }).join('\n');
     }
 
     /**
      * Extract key points from messages
      */
     private async extractKeyPoints(messages: ConversationMessage[]): Promise<string[]> {
-        // TODO: Implement proper key point extraction
-        // This should use LLM or other NLP techniques
-        return messages.map(msg => msg.content.substring(0, 100) + '...');
+        return this.transcript(messages).split('\n').map(line => line.length > 100 ? line.substring(0, 100) + '...' : line);
     }
 
     /**
      * Generate summary from key points
      */
     private generateSummary(points: string[]): string {
-        // TODO: Implement proper summary generation
         return points.join('\n');
     }
 }
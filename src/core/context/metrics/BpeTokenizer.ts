@@ -0,0 +1,107 @@
+/**
+ * Byte-level BPE tokenizer compatible with tiktoken encodings. Text is split
+ * with the encoding's pattern, then the UTF-8 bytes of each piece are merged
+ * pairwise, lowest rank first, until no adjacent pair is in the vocabulary.
+ */
+export class BpeTokenizer {
+    private cache: Map<string, number[]> = new Map();
+    private static readonly CACHE_SIZE = 10000;
+
+    /**
+     * @param ranks Token bytes (one char per byte) mapped to their rank, which is also the token id
+     * @param pattern Pre-tokenization pattern of the encoding
+     */
+    constructor(
+        public readonly name: string,
+        private readonly ranks: Map<string, number>,
+        private readonly pattern: RegExp
+    ) {}
+
+    /**
+     * Parse a .tiktoken vocabulary: one "<base64 token> <rank>" pair per line
+     */
+    static fromTiktoken(name: string, data: string, pattern: RegExp): BpeTokenizer {
+        const ranks = new Map<string, number>();
+        for (const line of data.split('\n')) {
+            const [token, rank] = line.trim().split(' ');
+            if (!token || rank === undefined) continue;
+            ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+        }
+        return new BpeTokenizer(name, ranks, pattern);
+    }
+
+    /**
+     * Parse vocabulary ranks in the compressed form js-tiktoken ships: lines of
+     * "<marker> <first rank> <base64 token> <base64 token> ...", ranks counting up
+     */
+    static fromCompressedRanks(name: string, bpeRanks: string, pattern: RegExp): BpeTokenizer {
+        const ranks = new Map<string, number>();
+        for (const line of bpeRanks.split('\n')) {
+            const [, offset, ...tokens] = line.split(' ');
+            if (offset === undefined) continue;
+            tokens.forEach((token, index) => {
+                ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(offset) + index);
+            });
+        }
+        return new BpeTokenizer(name, ranks, pattern);
+    }
+
+    /**
+     * Token ids of the text. Special tokens such as <|endoftext|> are encoded as plain text.
+     */
+    public encode(text: string): number[] {
+        const tokens: number[] = [];
+        for (const match of text.matchAll(this.pattern)) {
+            tokens.push(...this.encodePiece(match[0]));
+        }
+        return tokens;
+    }
+
+    public count(text: string): number {
+        let count = 0;
+        for (const match of text.matchAll(this.pattern)) {
+            count += this.encodePiece(match[0]).length;
+        }
+        return count;
+    }
+
+    private encodePiece(piece: string): number[] {
+        const cached = this.cache.get(piece);
+        if (cached) return cached;
+
+        const bytes = Buffer.from(piece, 'utf8').toString('latin1');
+        const rank = this.ranks.get(bytes);
+        const tokens = rank !== undefined ? [rank] : this.merge(bytes);
+
+        if (this.cache.size >= BpeTokenizer.CACHE_SIZE) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+        this.cache.set(piece, tokens);
+        return tokens;
+    }
+
+    private merge(bytes: string): number[] {
+        // Start from single bytes, which every byte-level vocabulary contains
+        let parts = Array.from(bytes);
+        while (parts.length > 1) {
+            let best = -1;
+            let bestRank = Infinity;
+            for (let i = 0; i < parts.length - 1; i++) {
+                const rank = this.ranks.get(parts[i] + parts[i + 1]);
+                if (rank !== undefined && rank < bestRank) {
+                    best = i;
+                    bestRank = rank;
+                }
+            }
+            if (best < 0) break;
+            parts = [...parts.slice(0, best), parts[best] + parts[best + 1], ...parts.slice(best + 2)];
+        }
+        return parts.map(part => {
+            const rank = this.ranks.get(part);
+            if (rank === undefined) {
+                throw new Error(`Vocabulary ${this.name} has no token for byte sequence ${JSON.stringify(part)}`);
+            }
+            return rank;
+        });
+    }
+}
@@ -0,0 +1,69 @@
+import { createRequire } from 'module';
+import { BpeTokenizer } from './BpeTokenizer';
+import { coreLoggers } from '../../logging';
+
+export type EncodingName = 'cl100k_base' | 'o200k_base';
+
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+
+/**
+ * Pre-tokenization patterns, as published with tiktoken
+ */
+export const ENCODING_PATTERNS: Record<EncodingName, RegExp> = {
+    cl100k_base: new RegExp(
+        `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+        'gu'
+    ),
+    o200k_base: new RegExp(
+        [
+            `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+            `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+            `\\p{N}{1,3}`,
+            ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+            `\\s*[\\r\\n]+`,
+            `\\s+(?!\\S)`,
+            `\\s+`
+        ].join('|'),
+        'gu'
+    )
+};
+
+/**
+ * Model prefixes using o200k_base; other models are counted with cl100k_base,
+ * which is exact for GPT-4 and GPT-3.5 and a close estimate for the rest
+ */
+const O200K_MODELS = ['gpt-4o', 'gpt-4.1', 'gpt-4.5', 'gpt-5', 'o1', 'o3', 'o4'];
+
+export function encodingForModel(model?: string): EncodingName {
+    return model && O200K_MODELS.some(prefix => model.startsWith(prefix)) ? 'o200k_base' : 'cl100k_base';
+}
+
+// Vocabularies come from js-tiktoken; each is a few MB, so it is only required when first used
+const require = createRequire(import.meta.url);
+
+const tokenizers: Map<EncodingName, BpeTokenizer | null> = new Map();
+
+/**
+ * Register a tokenizer for an encoding, e.g. one loaded from a vocabulary
+ * stored elsewhere with BpeTokenizer.fromTiktoken()
+ */
+export function registerTokenizer(encoding: EncodingName, tokenizer: BpeTokenizer): void {
+    tokenizers.set(encoding, tokenizer);
+}
+
+/**
+ * Tokenizer of an encoding, loaded on first use
+ * @returns null when the vocabulary is not available
+ */
+export function getTokenizer(encoding: EncodingName): BpeTokenizer | null {
+    if (!tokenizers.has(encoding)) {
+        try {
+            const { bpe_ranks }: { bpe_ranks: string } = require(`js-tiktoken/ranks/${encoding}`);
+            tokenizers.set(encoding, BpeTokenizer.fromCompressedRanks(encoding, bpe_ranks, ENCODING_PATTERNS[encoding]));
+        } catch (error) {
+            coreLoggers.llm.debug(`No ${encoding} vocabulary in js-tiktoken, token counts are estimated`);
+            tokenizers.set(encoding, null);
+        }
+    }
+    return tokenizers.get(encoding)!;
+}
@@ -1,21 +1,82 @@
+import type { LLMMessage, LLMToolDefinition } from '../../llm/LLMProvider';
+import { EncodingName, encodingForModel, getTokenizer } from './Encodings';
+
+// Chat framing, as documented for OpenAI chat models: every message is wrapped
+// in <|start|>{role}<|message|>{content}<|end|> and the reply is primed with
+// <|start|>assistant<|message|>
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMING_TOKENS = 3;
+// Tool definitions are rendered into a "functions" namespace of the system prompt
+const TOOLS_OVERHEAD_TOKENS = 12;
+const TOKENS_PER_TOOL = 8;
+
 /**
  * Utility class for counting and estimating tokens in text
  */
 export class TokenCounter {
+    public readonly encoding: EncodingName;
+
+    /**
+     * @param model Selects the encoding; cl100k_base when not given
+     */
+    constructor(model?: string) {
+        this.encoding = encodingForModel(model);
+    }
+
     /**
-     * Count exact number of tokens in text
+     * Count exact number of tokens in text. Falls back to estimateTokens()
+     * when the vocabulary of the encoding is not available.
      */
     public count(text: string): number {
-        // TODO: Implement actual token counting logic
-        // This should use a proper tokenizer
-        return Math.ceil(text.length / 4); // Rough estimate for now
+        const tokenizer = getTokenizer(this.encoding);
+        return tokenizer ? tokenizer.count(text) : this.estimateTokens(text);
+    }
+
+    /**
+     * Whether count() uses the real tokenizer rather than an estimate
+     */
+    public isExact(): boolean {
+        return getTokenizer(this.encoding) !== null;
     }
 
     /**
      * Estimate number of tokens in text (faster but less accurate)
      */
     public estimateTokens(text: string): number {
-        // Quick estimation based on character count
-        return Math.ceil(text.length / 4);
+        // CJK characters are mostly a token each, other text averages 4 characters per token
+        const cjk = text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu)?.length ?? 0;
+        return cjk + Math.ceil((text.length - cjk) / 4);
+    }
+
+    /**
+     * Tokens of one chat message including its framing
+     */
+    public countMessage(message: LLMMessage): number {
+        let tokens = TOKENS_PER_MESSAGE + this.count(message.role) + this.count(message.content || '');
+        for (const call of message.tool_calls ?? []) {
+            tokens += this.count(call.function.name) + this.count(call.function.arguments);
+        }
+        if (message.tool_call_id) {
+            tokens += this.count(message.tool_call_id);
+        }
+        return tokens;
+    }
+
+    /**
+     * Prompt tokens of a chat request with these messages
+     */
+    public countMessages(messages: LLMMessage[]): number {
+        return messages.reduce((sum, message) => sum + this.countMessage(message), REPLY_PRIMING_TOKENS);
+    }
+
+    /**
+     * Prompt tokens taken by tool definitions
+     */
+    public countTools(tools: LLMToolDefinition[] = []): number {
+        if (tools.length === 0) return 0;
+        return tools.reduce(
+            (sum, tool) => sum + TOKENS_PER_TOOL + this.count(JSON.stringify(tool.function)),
+            TOOLS_OVERHEAD_TOKENS
+        );
     }
 }
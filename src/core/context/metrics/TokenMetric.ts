@@ -8,8 +8,11 @@ export class TokenMetric implements IContextMetric {
     private tokenCounter: TokenCounter;
     public threshold: number;
 
-    constructor(maxTokens: number = 4000) {
-        this.tokenCounter = new TokenCounter();
+    /**
+     * @param model Selects the encoding used by count()
+     */
+    constructor(maxTokens: number = 4000, model?: string) {
+        this.tokenCounter = new TokenCounter(model);
         this.threshold = maxTokens;
     }
 
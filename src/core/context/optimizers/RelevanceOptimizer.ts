@@ -23,6 +23,6 @@ export class RelevanceOptimizer implements IContextOptimizer {
         const sortedMessages = [...messages].sort((a, b) => b.relevanceScore - a.relevanceScore);
         
         // Keep messages above threshold
-        return sortedMessages.filter(msg => msg.relevanceScore >= this.relevanceMetric.threshold);
+        return sortedMessages.filter(msg => msg.relevanceScore >= this.relevanceMetric.threshold || msg.metadata?.pinned);
     }
 }
@@ -2,16 +2,31 @@ import { IContextOptimizer, ConversationMessage, ContextMetrics } from '../types
 import { SummarizationEngine } from '../engines/SummarizationEngine';
 import { TokenMetric } from '../metrics/TokenMetric';
 
+const MAX_CACHED_SUMMARIES = 100;
+
 /**
  * Optimizer that summarizes messages when token count is too high
  */
 export class SummarizationOptimizer implements IContextOptimizer {
     private summarizationEngine: SummarizationEngine;
     private tokenMetric: TokenMetric;
+    private keepRecent: number;
+    // Summaries by the ID of the last message they cover, so that a growing
+    // conversation only summarizes its new messages on top of the latest summary
+    private summaries: Map<string, ConversationMessage> = new Map();
 
-    constructor() {
-        this.summarizationEngine = new SummarizationEngine();
-        this.tokenMetric = new TokenMetric();
+    /**
+     * @param maxTokens Token count above which messages are summarized
+     * @param keepRecent Number of latest messages kept as they are
+     */
+    constructor(
+        maxTokens: number = 4000,
+        keepRecent: number = 5,
+        summarizationEngine: SummarizationEngine = new SummarizationEngine()
+    ) {
+        this.summarizationEngine = summarizationEngine;
+        this.tokenMetric = new TokenMetric(maxTokens);
+        this.keepRecent = keepRecent;
     }
 
     public shouldOptimize(metrics: ContextMetrics): boolean {
@@ -19,20 +34,50 @@ export class SummarizationOptimizer implements IContextOptimizer {
     }
 
     public async optimize(messages: ConversationMessage[]): Promise<ConversationMessage[]> {
-        const summary = await this.summarizationEngine.summarize(messages);
-        
+        const pinned = messages.filter(message => message.metadata?.pinned);
+        const conversation = messages.filter(message => !message.metadata?.pinned);
+
+        // Keep tool results together with the assistant message that called the tools
+        let split = conversation.length - this.keepRecent;
+        while (split > 0 && conversation[split].role === 'tool') {
+            split--;
+        }
+        if (split <= 0) return messages;
+
+        const older = conversation.slice(0, split);
+        return [...pinned, await this.summaryOf(older), ...conversation.slice(split)];
+    }
+
+    private async summaryOf(older: ConversationMessage[]): Promise<ConversationMessage> {
+        const lastId = older[older.length - 1].id;
+        const cached = this.summaries.get(lastId);
+        if (cached) return cached;
+
+        // Roll the latest summary of a prefix of these messages forward
+        let i = older.length - 2;
+        while (i >= 0 && !this.summaries.has(older[i].id)) {
+            i--;
+        }
+        const previous = i >= 0 ? this.summaries.get(older[i].id) : undefined;
+        const summary = await this.summarizationEngine.summarize(older.slice(i + 1), previous?.metadata?.summary);
+        const content = `Summary of earlier messages:\n${summary}`;
+
         // Create a new summary message
         const summaryMessage: ConversationMessage = {
-            id: `summary-${Date.now()}`,
-            content: summary,
+            id: `summary-${lastId}`,
+            content,
             role: 'system',
             timestamp: new Date(),
             relevanceScore: 1,
             importance: 1,
-            tokens: this.tokenMetric.count(summary)
+            tokens: this.tokenMetric.count(content),
+            metadata: { pinned: true, summary, summarizes: older.map(message => message.id) }
         };
 
-        // Return the summary message plus the most recent messages
-        return [summaryMessage, ...messages.slice(-5)];
+        if (this.summaries.size >= MAX_CACHED_SUMMARIES) {
+            this.summaries.delete(this.summaries.keys().next().value!);
+        }
+        this.summaries.set(lastId, summaryMessage);
+        return summaryMessage;
     }
 }
@@ -8,8 +8,8 @@ export class TimeDecayOptimizer implements IContextOptimizer {
     private ageMetric: AgeMetric;
     private decayFactor: number;
 
-    constructor(decayFactor: number = 0.5) {
-        this.ageMetric = new AgeMetric();
+    constructor(decayFactor: number = 0.5, maxAge?: number) {
+        this.ageMetric = new AgeMetric(maxAge);
         this.decayFactor = decayFactor;
     }
 
@@ -28,6 +28,6 @@ export class TimeDecayOptimizer implements IContextOptimizer {
                 ...msg,
                 importance: decayedImportance
             };
-        }).filter(msg => msg.importance >= 0.1); // Filter out messages with very low importance
+        }).filter(msg => msg.importance >= 0.1 || msg.metadata?.pinned); // Filter out messages with very low importance
     }
 }
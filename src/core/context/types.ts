@@ -15,6 +15,11 @@ export interface ConversationMessage {
         goals?: string[];
         flow?: InteractionFlowType;
         references?: string[];
+        pinned?: boolean;        // Kept by optimizers and dropped last when fitting a token budget
+        summary?: string;        // Text of a summary message, without its heading
+        summarizes?: string[];   // IDs of the messages a summary replaces
+        toolCalls?: any[];       // Tool calls requested by an assistant message
+        toolCallId?: string;     // Tool call answered by a tool message
         [key: string]: any;
     };
 }
@@ -96,6 +101,17 @@ export interface ContextMetrics {
     domainSwitchFrequency: number;
 }
 
+/**
+ * Messages selected to fit a token budget, and what happened to the others
+ */
+export interface HistoryResult {
+    messages: ConversationMessage[];
+    tokenCount: number;
+    optimized: boolean;     // Whether a metric passed its threshold and the optimizers ran
+    dropped: string[];      // IDs of messages left out of the history
+    summarized: string[];   // IDs of messages replaced by a summary
+}
+
 /**
  * Interface for history management
  */
@@ -105,6 +121,7 @@ export interface IHistoryManager {
     optimize(): Promise<void>;
     addInteractionFlow(flow: InteractionFlow): void;
     resolveReferences(messageId: string): Promise<ConversationMessage[]>;
+    buildHistory(messages: ConversationMessage[], maxTokens: number): Promise<HistoryResult>;
 }
 
 /**
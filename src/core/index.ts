@@ -7,18 +7,65 @@ export { AbstractClassifier } from './AbstractClassifier';
 export { IClassifier, ClassificationTypeConfig, ClassifiedTypeHandlers } from './IClassifier';
 export { ExecutionContext } from './ExecutionContext';
 
+// LLM providers
+export * from './llm';
+
 // Prompt handling
 export { IAgentPromptTemplate } from './IPromptTemplate';
 export { PromptManager } from './PromptManager';
 
 // Message handling
 export { Message, PayloadType } from './Message';
-export { PriorityInbox } from './PriorityInbox';
+export { PriorityInbox, InboxFullError } from './PriorityInbox';
 export { ConversationDataHandler } from './ConversationDataHandler';
 
 // Session management
 export { Session } from './Session';
 export { SessionContext } from './SessionContext';
+export { FileSessionStore, toStoredMessage, fromStoredMessage } from './SessionStore';
+export type { SessionStore, StoredSession, StoredMessage, StoredSessionRecord } from './SessionStore';
+export { AgentRun, AgentRunError, AgentRunResult, AgentRunStep, AgentRunStatus, DEFAULT_RUN_LIMITS } from './AgentRun';
+
+// Memory
+export { MemoryType } from './memory/base';
+export { HashingEmbeddingProvider, OpenAIEmbeddingProvider } from './memory/embedding/EmbeddingProvider';
+export type { EmbeddingProvider, OpenAIEmbeddingConfig } from './memory/embedding/EmbeddingProvider';
+export { BruteForceVectorIndex, HnswVectorIndex, createVectorIndex } from './memory/storage/VectorIndex';
+export type { VectorIndex, VectorIndexType, VectorMatch } from './memory/storage/VectorIndex';
+export { MemoryRanker, DEFAULT_RANKING_WEIGHTS } from './memory/MemoryRanker';
+export type { RecallOptions, RankingWeights, MemoryScore } from './memory/MemoryRanker';
+export type { SupersedeOptions } from './memory/LongTermMemory';
+export { FactExtractor } from './memory/modules/semantic/nlp/FactExtractor';
+export type { FactExtraction, FactExtractorOptions } from './memory/modules/semantic/nlp/FactExtractor';
+export type {
+  ProceduralAction,
+  ProceduralActionHandler,
+  ProceduralActionContext,
+  ProcedureExecution,
+  LearnProcedureOptions
+} from './memory/modules/procedural/ProceduralMemory';
+export type { ProceduralStepResult } from './memory/modules/procedural/types';
+export { MEMORY_SNAPSHOT_VERSION } from './memory/MemorySnapshot';
+export type { ImportSnapshotOptions, SnapshotImportResult, SnapshotRecord } from './memory/MemorySnapshot';
+export { PiiRedactor, RegexPiiDetector, DEFAULT_PII_DETECTORS } from './memory/PiiRedactor';
+export type { PiiDetector, PiiMatch } from './memory/PiiRedactor';
+export type { ForgetSubjectAudit } from './memory/AgentMemorySystem';
+
+// Context window management
+export { SmartHistoryManager } from './context/SmartHistoryManager';
+export { SummarizationOptimizer } from './context/optimizers/SummarizationOptimizer';
+export { TimeDecayOptimizer } from './context/optimizers/TimeDecayOptimizer';
+export { RelevanceOptimizer } from './context/optimizers/RelevanceOptimizer';
+export { TokenMetric } from './context/metrics/TokenMetric';
+export { AgeMetric } from './context/metrics/AgeMetric';
+export { TokenCounter } from './context/metrics/TokenCounter';
+export { BpeTokenizer } from './context/metrics/BpeTokenizer';
+export { ENCODING_PATTERNS, encodingForModel, getTokenizer, registerTokenizer } from './context/metrics/Encodings';
+export type { EncodingName } from './context/metrics/Encodings';
+export { groupToolCalls, repairToolCallSequence } from './context/ToolCallSequence';
+export type { ToolCallInfo } from './context/ToolCallSequence';
+export { ConversationContextManager } from './context/ConversationContextManager';
+export type { ConversationMessage, HistoryResult, IHistoryManager, IContextOptimizer, IContextMetric, ContextMetrics, UserGoal, DomainContext } from './context/types';
 
 // Tool handling
 export { Tool } from './Tool';
@@ -29,6 +76,8 @@ export { ToolError } from './Tool';
 export { ToolEvents } from './Tool';
 export { RunOptions } from './Tool';
 export { ToolOptions } from './Tool';
+export { ToolCallExecutor, ToolCallRequest, ToolCallResult, ToolCallBatchResult } from './ToolCallExecutor';
+export { StructuredOutputValidator, StructuredOutputValidation, templateToZod, classificationTypeToZod } from './StructuredOutput';
 
 // Type utilities
 export { InferClassificationType, InferClassificationUnion } from './TypeInference';
@@ -0,0 +1,263 @@
+import { LLMConfig } from "../configs";
+import { withTags } from "../Logger";
+import { coreLoggers } from "../logging";
+import { postJSON, readLines } from "./http";
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamHandler,
+  LLMToolCall,
+  LLMUsage,
+} from "./LLMProvider";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: any }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  public readonly name = "anthropic";
+  public readonly supportsStreaming = true;
+  public readonly supportsToolCalls = true;
+
+  private apiKey: string;
+  private baseURL: string;
+  private logger = coreLoggers.llm;
+
+  constructor(config: LLMConfig) {
+    this.apiKey = config.apiKey;
+    this.baseURL = (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  public async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.post(this.buildBody(request, false), request.signal);
+    const body: any = await response.json();
+
+    let content = "";
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of body.content || []) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: this.toFinishReason(body.stop_reason),
+      usage: this.toUsage(this.inputTokens(body.usage), body.usage?.output_tokens),
+    };
+  }
+
+  public async stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    const response = await this.post(this.buildBody(request, true), request.signal);
+    if (!response.body) {
+      throw new LLMProviderError("No response body received from Anthropic stream.", null, "empty_stream");
+    }
+
+    let content = "";
+    let stopReason: string | undefined;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // Tool use blocks are streamed as partial JSON keyed by content block index
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith("data:")) continue;
+      const event = JSON.parse(line.slice(5).trim());
+
+      switch (event.type) {
+        case "message_start":
+          inputTokens = this.inputTokens(event.message?.usage) ?? 0;
+          break;
+        case "content_block_start":
+          if (event.content_block?.type === "tool_use") {
+            toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" });
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta") {
+            content += event.delta.text;
+            onDelta(event.delta.text);
+          } else if (event.delta?.type === "input_json_delta") {
+            const block = toolBlocks.get(event.index);
+            if (block) block.json += event.delta.partial_json;
+          }
+          break;
+        case "message_delta":
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case "error":
+          throw new LLMProviderError(event.error?.message || "Anthropic stream error", null, null, event.error?.type);
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(toolBlocks.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, block]) => ({
+        id: block.id,
+        type: "function" as const,
+        function: { name: block.name, arguments: block.json || "{}" },
+      }));
+
+    if (toolCalls.length > 0) {
+      this.logger.debug('Assembled tool calls from Anthropic stream', withTags(['response', 'tool_calls']), {
+        toolCallCount: toolCalls.length,
+        toolCalls
+      });
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: this.toFinishReason(stopReason),
+      usage: this.toUsage(inputTokens, outputTokens),
+    };
+  }
+
+  private post(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    return postJSON(`${this.baseURL}/v1/messages`, body, {
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    }, signal);
+  }
+
+  private buildBody(request: LLMChatRequest, stream: boolean): Record<string, any> {
+    const systemMessages = request.messages.filter((m) => m.role === "system" && m.content);
+    // Cache markers need the block form of `system`; plain text is kept otherwise
+    const system = systemMessages.some((m) => m.cache)
+      ? systemMessages.map((m) => ({
+          type: "text",
+          text: m.content,
+          ...(m.cache ? { cache_control: { type: "ephemeral" } } : {}),
+        }))
+      : systemMessages.map((m) => m.content).join("\n\n");
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      messages: this.toAnthropicMessages(request.messages),
+      ...(system.length > 0 ? { system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.tools && request.tools.length > 0
+        ? {
+            tools: request.tools.map((tool) => ({
+              name: tool.function.name,
+              description: tool.function.description,
+              input_schema: tool.function.parameters,
+            })),
+          }
+        : {}),
+      stream,
+    };
+  }
+
+  /**
+   * Convert OpenAI-shaped history into Anthropic messages. System messages are
+   * hoisted into the top-level `system` field, tool results become user turns,
+   * and consecutive turns of the same role are merged as the API requires.
+   */
+  private toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    const append = (role: "user" | "assistant", blocks: AnthropicContentBlock[]) => {
+      if (blocks.length === 0) return;
+      const last = result[result.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    };
+
+    for (const message of messages) {
+      switch (message.role) {
+        case "system":
+          break;
+        case "tool":
+          append("user", [{
+            type: "tool_result",
+            tool_use_id: message.tool_call_id || "",
+            content: message.content || "",
+          }]);
+          break;
+        case "assistant": {
+          const blocks: AnthropicContentBlock[] = [];
+          if (message.content) {
+            blocks.push({ type: "text", text: message.content });
+          }
+          for (const toolCall of message.tool_calls || []) {
+            let input: any = {};
+            try {
+              input = JSON.parse(toolCall.function.arguments || "{}");
+            } catch {
+              input = { raw: toolCall.function.arguments };
+            }
+            blocks.push({ type: "tool_use", id: toolCall.id, name: toolCall.function.name, input });
+          }
+          append("assistant", blocks);
+          break;
+        }
+        default:
+          if (message.content) {
+            append("user", [{ type: "text", text: message.content }]);
+          }
+      }
+    }
+
+    return result;
+  }
+
+  private toFinishReason(stopReason?: string): string | undefined {
+    switch (stopReason) {
+      case "tool_use":
+        return "tool_calls";
+      case "end_turn":
+      case "stop_sequence":
+        return "stop";
+      case "max_tokens":
+        return "length";
+      default:
+        return stopReason;
+    }
+  }
+
+  /**
+   * Prompt tokens including those written to or read from the prompt cache,
+   * which the API reports separately from `input_tokens`
+   */
+  private inputTokens(usage?: Record<string, number>): number | undefined {
+    if (usage?.input_tokens === undefined) return undefined;
+    return usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0);
+  }
+
+  private toUsage(inputTokens?: number, outputTokens?: number): LLMUsage | undefined {
+    if (inputTokens === undefined && outputTokens === undefined) return undefined;
+    const promptTokens = inputTokens ?? 0;
+    const completionTokens = outputTokens ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
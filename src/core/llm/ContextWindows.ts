@@ -0,0 +1,33 @@
+/**
+ * Context windows of well-known models in tokens. A model id matches its
+ * longest listed prefix, so dated versions such as gpt-4o-2024-08-06 and
+ * Ollama tags such as llama3.1:8b are covered.
+ */
+export const MODEL_CONTEXT_WINDOWS: { [modelPrefix: string]: number } = {
+  "gpt-4.1": 1047576,
+  "gpt-4o": 128000,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+  "o1": 200000,
+  "o3": 200000,
+  "o4-mini": 200000,
+  "claude": 200000,
+  "llama3": 8192,
+  "llama3.1": 128000,
+  "llama3.2": 128000,
+  "mistral": 32768,
+  "qwen2.5": 32768,
+};
+
+// Used for models missing from the table and from LLMConfig.contextWindow.models
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export function contextWindowFor(model: string, overrides: { [model: string]: number } = {}): number {
+  if (overrides[model] !== undefined) return overrides[model];
+  const windows = { ...MODEL_CONTEXT_WINDOWS, ...overrides };
+  const prefix = Object.keys(windows)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? windows[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
@@ -0,0 +1,118 @@
+import { withTags } from "../Logger";
+import { coreLoggers } from "../logging";
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamHandler,
+} from "./LLMProvider";
+
+export interface FallbackCandidate {
+  model: string;
+  provider: LLMProvider;
+}
+
+/**
+ * Tries an ordered list of model/provider candidates, moving on to the next one
+ * when a call fails with a rate-limit, server or context-length error.
+ *
+ * The chain starts at the candidate whose model matches the requested one, so
+ * a routed request skips stronger (or weaker) models listed before it.
+ */
+export class FallbackLLMProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly supportsStreaming: boolean;
+  public readonly supportsToolCalls: boolean;
+  public readonly supportsStructuredOutput?: boolean;
+
+  private logger = coreLoggers.llm;
+
+  constructor(private candidates: FallbackCandidate[]) {
+    if (candidates.length === 0) {
+      throw new Error("FallbackLLMProvider requires at least one candidate");
+    }
+    this.name = `fallback(${candidates.map((c) => `${c.provider.name}:${c.model}`).join(",")})`;
+    this.supportsStreaming = candidates[0].provider.supportsStreaming;
+    this.supportsToolCalls = candidates[0].provider.supportsToolCalls;
+    this.supportsStructuredOutput = candidates[0].provider.supportsStructuredOutput;
+  }
+
+  /**
+   * Whether an error should move the call on to the next candidate
+   */
+  static isFailoverError(error: any): boolean {
+    if (!error) return false;
+    if (error.status === 429 || (typeof error.status === "number" && error.status >= 500)) return true;
+    if (error.code === "context_length_exceeded") return true;
+    const message = typeof error.message === "string" ? error.message.toLowerCase() : "";
+    return message.includes("context length") || message.includes("maximum context") || message.includes("rate limit");
+  }
+
+  public chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return this.run(request, (candidate, candidateRequest) => candidate.provider.chat(candidateRequest));
+  }
+
+  public stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    let emitted = false;
+    const handler: LLMStreamHandler = (delta) => {
+      emitted = true;
+      onDelta(delta);
+    };
+
+    return this.run(request, async (candidate, candidateRequest) => {
+      if (emitted) {
+        // Output from a failed candidate already reached the caller; switching now would garble it
+        throw new LLMProviderError("Cannot fail over after a partially streamed response", null, "partial_stream");
+      }
+      if (!candidate.provider.supportsStreaming) {
+        const response = await candidate.provider.chat(candidateRequest);
+        if (response.content) handler(response.content);
+        return response;
+      }
+      return candidate.provider.stream(candidateRequest, handler);
+    });
+  }
+
+  private async run(
+    request: LLMChatRequest,
+    call: (candidate: FallbackCandidate, request: LLMChatRequest) => Promise<LLMChatResponse>
+  ): Promise<LLMChatResponse> {
+    const chain = this.orderFor(request.model);
+    let lastError: any;
+
+    for (let i = 0; i < chain.length; i++) {
+      const candidate = chain[i];
+      const candidateRequest: LLMChatRequest = {
+        ...request,
+        model: candidate.model,
+        tools: candidate.provider.supportsToolCalls ? request.tools : undefined,
+      };
+
+      try {
+        const response = await call(candidate, candidateRequest);
+        return candidate.model === request.model ? response : { ...response, model: candidate.model };
+      } catch (error: any) {
+        lastError = error;
+        if (!FallbackLLMProvider.isFailoverError(error) || i === chain.length - 1) {
+          throw error;
+        }
+        this.logger.warn(
+          `LLM call to ${candidate.provider.name}:${candidate.model} failed (${error?.message || error}), falling back to ${chain[i + 1].provider.name}:${chain[i + 1].model}`,
+          withTags(["fallback"])
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  private orderFor(model: string): FallbackCandidate[] {
+    const start = this.candidates.findIndex((c) => c.model === model);
+    if (start >= 0) {
+      return this.candidates.slice(start);
+    }
+    // Unknown model (e.g. picked by a routing rule): try it on the primary provider first
+    return [{ model, provider: this.candidates[0].provider }, ...this.candidates];
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Provider-neutral types for talking to a large language model.
+ *
+ * Messages and tool calls follow the OpenAI chat completion shape because that
+ * is what the rest of the framework (memory, classifiers, tool routing) already
+ * stores and understands. Providers with a different wire format translate to
+ * and from these types internally.
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;    // JSON encoded arguments
+  };
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content?: string | null;
+  tool_calls?: LLMToolCall[];
+  tool_call_id?: string;
+  cache?: boolean;          // Ends a stable prefix the provider may cache (Anthropic prompt caching)
+}
+
+/**
+ * OpenAI-style function description, as produced by Tool.getFunctionDescription()
+ */
+export interface LLMToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * JSON schema the response content must follow, for providers with native structured output
+ */
+export interface LLMResponseFormat {
+  name: string;
+  schema: Record<string, any>;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: LLMResponseFormat;
+  signal?: AbortSignal;     // Aborts the call, e.g. when the session is cancelled
+}
+
+export interface LLMChatResponse {
+  content: string;
+  toolCalls?: LLMToolCall[];
+  finishReason?: string;    // Normalized to OpenAI values: 'stop' | 'tool_calls' | 'length' | ...
+  usage?: LLMUsage;
+  model?: string;           // Set when the model that answered differs from the requested one
+}
+
+/**
+ * Callback receiving incremental text content while a response is streamed
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
+/**
+ * Abstraction over a concrete LLM backend (OpenAI-compatible, Anthropic, Ollama, ...)
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly supportsStreaming: boolean;
+  readonly supportsToolCalls: boolean;
+  /** Whether `responseFormat` is enforced by the backend; otherwise it is ignored */
+  readonly supportsStructuredOutput?: boolean;
+
+  /**
+   * Send a request and wait for the complete response
+   */
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+
+  /**
+   * Send a request, reporting text deltas as they arrive, and resolve with the
+   * fully assembled response (including any reconstructed tool calls)
+   */
+  stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse>;
+}
+
+/**
+ * Error raised by providers that talk to their backend directly over HTTP.
+ * Carries the same `status`/`code` fields as OpenAI SDK errors so that
+ * LLMErrorHandler and the retry logic in AgentCore treat them uniformly.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number | null = null,
+    public code: string | null = null,
+    public type: string = 'provider_error'
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -0,0 +1,42 @@
+import { LLMCandidate, LLMConfig } from "../configs";
+import { LLMProvider } from "./LLMProvider";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider";
+import { AnthropicProvider } from "./AnthropicProvider";
+import { OllamaProvider } from "./OllamaProvider";
+import { FallbackLLMProvider } from "./FallbackLLMProvider";
+
+/**
+ * Factory for creating the LLM provider selected by LLMConfig.provider
+ */
+export class LLMProviderFactory {
+  static create(config: LLMConfig): LLMProvider {
+    if (config.fallbacks && config.fallbacks.length > 0) {
+      const { fallbacks, ...primary } = config;
+      const candidates = [primary, ...fallbacks.map((candidate) => LLMProviderFactory.inherit(primary, candidate))];
+      return new FallbackLLMProvider(
+        candidates.map((candidate) => ({ model: candidate.model, provider: LLMProviderFactory.create(candidate) }))
+      );
+    }
+
+    switch (config.provider ?? "openai") {
+      case "openai":
+        return new OpenAICompatibleProvider(config);
+      case "anthropic":
+        return new AnthropicProvider(config);
+      case "ollama":
+        return new OllamaProvider(config);
+      default:
+        throw new Error(`Unknown LLM provider: ${config.provider}`);
+    }
+  }
+
+  /**
+   * A fallback's config. The endpoint and key of the primary only apply to its
+   * own provider, so a candidate on another provider does not inherit them.
+   */
+  private static inherit(primary: LLMConfig, candidate: LLMCandidate): LLMConfig {
+    const sameProvider = (candidate.provider ?? primary.provider ?? "openai") === (primary.provider ?? "openai");
+    const base = sameProvider ? primary : { ...primary, apiKey: "", baseURL: undefined };
+    return { ...base, ...candidate };
+  }
+}
@@ -0,0 +1,22 @@
+import { LLMRoutingRule } from "../configs";
+
+export interface LLMRoutingContext {
+  mode?: string | null;
+  priority?: string;
+}
+
+/**
+ * Picks the model for a call from LLMConfig.routing; the first rule whose
+ * conditions all match wins, otherwise the default model is used
+ */
+export class LLMRouter {
+  constructor(private rules: LLMRoutingRule[] = []) {}
+
+  public selectModel(defaultModel: string, context: LLMRoutingContext): string {
+    const rule = this.rules.find((r) =>
+      (r.mode === undefined || r.mode === context.mode) &&
+      (r.priority === undefined || r.priority === context.priority)
+    );
+    return rule?.model ?? defaultModel;
+  }
+}
@@ -0,0 +1,232 @@
+import { createRuntime } from "../../runtime";
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamHandler,
+  LLMToolCall,
+} from "./LLMProvider";
+
+/**
+ * A single recorded (or hand-written) exchange with an LLM
+ */
+export interface LLMRecording {
+  /** The request as it was sent when recorded; informational for replay */
+  request?: Pick<LLMChatRequest, "model" | "messages" | "tools">;
+  /** If set, this recording is only used when the last request message contains this text */
+  match?: string;
+  /** The response returned for this exchange */
+  response: LLMChatResponse;
+  /** If set, the exchange fails with an LLMProviderError carrying these fields instead */
+  error?: { message: string; status?: number | null; code?: string | null; type?: string };
+  /** Text deltas emitted in stream mode; defaults to the whole content as one chunk */
+  chunks?: string[];
+}
+
+export interface MockLLMProviderOptions {
+  /** Replay recordings from the start once they run out instead of failing */
+  loop?: boolean;
+}
+
+/**
+ * Deterministic, offline LLMProvider that replays scripted responses.
+ *
+ * Recordings without a `match` are consumed in order; recordings with a `match`
+ * are picked whenever the latest message contains the given text, which keeps
+ * tests stable when several sessions interleave.
+ */
+export class MockLLMProvider implements LLMProvider {
+  public readonly name = "mock";
+  public readonly supportsStreaming = true;
+  public readonly supportsToolCalls = true;
+  public readonly supportsStructuredOutput = true;
+
+  private recordings: LLMRecording[];
+  private cursor = 0;
+  private requests: LLMChatRequest[] = [];
+  private options: MockLLMProviderOptions;
+
+  constructor(recordings: LLMRecording[] = [], options: MockLLMProviderOptions = {}) {
+    this.recordings = [...recordings];
+    this.options = options;
+  }
+
+  /**
+   * Load recordings previously written by RecordingLLMProvider.save()
+   */
+  static async fromFile(path: string, options?: MockLLMProviderOptions): Promise<MockLLMProvider> {
+    const raw = await createRuntime().fs.readFile(path, "utf8");
+    return new MockLLMProvider(JSON.parse(raw) as LLMRecording[], options);
+  }
+
+  /**
+   * Queue a plain text response
+   */
+  public respondWith(content: string, chunks?: string[]): this {
+    this.recordings.push({ response: { content, finishReason: "stop" }, chunks });
+    return this;
+  }
+
+  /**
+   * Queue a response asking for one or more tool calls
+   */
+  public respondWithToolCalls(calls: Array<{ name: string; arguments: Record<string, any>; id?: string }>): this {
+    const toolCalls: LLMToolCall[] = calls.map((call, index) => ({
+      id: call.id || `call_mock_${this.recordings.length}_${index}`,
+      type: "function",
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    }));
+    this.recordings.push({ response: { content: "", toolCalls, finishReason: "tool_calls" } });
+    return this;
+  }
+
+  /**
+   * Queue a failed call, e.g. a 429 to exercise retry or fallback logic
+   */
+  public failWith(status: number | null, message: string, code: string | null = null): this {
+    this.recordings.push({ response: { content: "" }, error: { message, status, code } });
+    return this;
+  }
+
+  /**
+   * Queue an arbitrary recording
+   */
+  public addRecording(recording: LLMRecording): this {
+    this.recordings.push(recording);
+    return this;
+  }
+
+  /**
+   * Requests received so far, in order, for assertions in tests
+   */
+  public getRequests(): LLMChatRequest[] {
+    return this.requests;
+  }
+
+  public hasPendingResponses(): boolean {
+    return this.recordings.slice(this.cursor).some((r) => !r.match);
+  }
+
+  public reset(): void {
+    this.cursor = 0;
+    this.requests = [];
+  }
+
+  public async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const recording = this.next(request);
+    this.throwIfFailed(recording);
+    return this.clone(recording.response);
+  }
+
+  public async stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    const recording = this.next(request);
+    this.throwIfFailed(recording);
+    const chunks = recording.chunks ?? (recording.response.content ? [recording.response.content] : []);
+    for (const chunk of chunks) {
+      this.throwIfAborted(request);
+      onDelta(chunk);
+      // Yield between chunks so a cancellation can land mid-stream, as with a real backend
+      await Promise.resolve();
+    }
+    this.throwIfAborted(request);
+    return this.clone(recording.response);
+  }
+
+  private next(request: LLMChatRequest): LLMRecording {
+    this.requests.push(request);
+    this.throwIfAborted(request);
+
+    const lastMessage = request.messages[request.messages.length - 1];
+    const lastContent = lastMessage?.content || "";
+    const matched = this.recordings.find((r) => r.match !== undefined && lastContent.includes(r.match));
+    if (matched) {
+      return matched;
+    }
+
+    // Skip over match-only recordings when replaying in order
+    while (this.cursor < this.recordings.length && this.recordings[this.cursor].match !== undefined) {
+      this.cursor++;
+    }
+    if (this.cursor >= this.recordings.length && this.options.loop) {
+      this.cursor = this.recordings.findIndex((r) => r.match === undefined);
+    }
+    if (this.cursor < 0 || this.cursor >= this.recordings.length) {
+      throw new LLMProviderError(
+        `MockLLMProvider has no recorded response for request #${this.requests.length}`,
+        null,
+        "mock_exhausted"
+      );
+    }
+    return this.recordings[this.cursor++];
+  }
+
+  private throwIfAborted(request: LLMChatRequest): void {
+    if (request.signal?.aborted) {
+      throw new LLMProviderError("Request was aborted", null, null, "aborted");
+    }
+  }
+
+  private throwIfFailed(recording: LLMRecording): void {
+    if (recording.error) {
+      const { message, status = null, code = null, type } = recording.error;
+      throw new LLMProviderError(message, status, code, type);
+    }
+  }
+
+  private clone(response: LLMChatResponse): LLMChatResponse {
+    return JSON.parse(JSON.stringify(response));
+  }
+}
+
+/**
+ * Wraps a real provider and records every exchange so it can be replayed
+ * later with MockLLMProvider.fromFile()
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly supportsStreaming: boolean;
+  public readonly supportsToolCalls: boolean;
+  public readonly supportsStructuredOutput?: boolean;
+
+  private recordings: LLMRecording[] = [];
+
+  constructor(private inner: LLMProvider) {
+    this.name = `recording(${inner.name})`;
+    this.supportsStreaming = inner.supportsStreaming;
+    this.supportsToolCalls = inner.supportsToolCalls;
+    this.supportsStructuredOutput = inner.supportsStructuredOutput;
+  }
+
+  public async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.inner.chat(request);
+    this.record(request, response);
+    return response;
+  }
+
+  public async stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    const chunks: string[] = [];
+    const response = await this.inner.stream(request, (delta) => {
+      chunks.push(delta);
+      onDelta(delta);
+    });
+    this.record(request, response, chunks);
+    return response;
+  }
+
+  public getRecordings(): LLMRecording[] {
+    return this.recordings;
+  }
+
+  public async save(path: string): Promise<void> {
+    await createRuntime().fs.writeFile(path, JSON.stringify(this.recordings, null, 2), "utf8");
+  }
+
+  private record(request: LLMChatRequest, response: LLMChatResponse, chunks?: string[]): void {
+    this.recordings.push(JSON.parse(JSON.stringify({
+      request: { model: request.model, messages: request.messages, tools: request.tools },
+      response,
+      ...(chunks ? { chunks } : {}),
+    })));
+  }
+}
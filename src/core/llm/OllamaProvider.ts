@@ -0,0 +1,129 @@
+import crypto from "crypto";
+import { LLMConfig } from "../configs";
+import { postJSON, readLines } from "./http";
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamHandler,
+  LLMToolCall,
+  LLMUsage,
+} from "./LLMProvider";
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+
+/**
+ * Provider for a local Ollama server using its native /api/chat endpoint
+ */
+export class OllamaProvider implements LLMProvider {
+  public readonly name = "ollama";
+  public readonly supportsStreaming = true;
+  public readonly supportsToolCalls = true;
+  public readonly supportsStructuredOutput = true;
+
+  private baseURL: string;
+
+  constructor(config: LLMConfig) {
+    this.baseURL = (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  public async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await postJSON(`${this.baseURL}/api/chat`, this.buildBody(request, false), {}, request.signal);
+    const body: any = await response.json();
+    return this.toResponse(body.message?.content || "", body.message?.tool_calls, body);
+  }
+
+  public async stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    const response = await postJSON(`${this.baseURL}/api/chat`, this.buildBody(request, true), {}, request.signal);
+    if (!response.body) {
+      throw new LLMProviderError("No response body received from Ollama stream.", null, "empty_stream");
+    }
+
+    let content = "";
+    const rawToolCalls: any[] = [];
+    let finalChunk: any = {};
+
+    // Ollama streams newline-delimited JSON objects; the last one has done=true
+    for await (const line of readLines(response.body)) {
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        throw new LLMProviderError(chunk.error);
+      }
+      const delta = chunk.message?.content || "";
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.message?.tool_calls) {
+        rawToolCalls.push(...chunk.message.tool_calls);
+      }
+      if (chunk.done) {
+        finalChunk = chunk;
+      }
+    }
+
+    return this.toResponse(content, rawToolCalls, finalChunk);
+  }
+
+  private buildBody(request: LLMChatRequest, stream: boolean): Record<string, any> {
+    const options: Record<string, any> = {};
+    if (request.temperature !== undefined) options.temperature = request.temperature;
+    if (request.maxTokens) options.num_predict = request.maxTokens;
+
+    return {
+      model: request.model,
+      messages: request.messages.map((m) => this.toOllamaMessage(m)),
+      ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+      ...(Object.keys(options).length > 0 ? { options } : {}),
+      ...(request.responseFormat ? { format: request.responseFormat.schema } : {}),
+      stream,
+    };
+  }
+
+  private toOllamaMessage(message: LLMMessage): Record<string, any> {
+    const mapped: Record<string, any> = { role: message.role, content: message.content || "" };
+    if (message.tool_calls) {
+      // Ollama expects arguments as an object rather than a JSON string
+      mapped.tool_calls = message.tool_calls.map((toolCall) => {
+        let args: any = {};
+        try {
+          args = JSON.parse(toolCall.function.arguments || "{}");
+        } catch {
+          args = {};
+        }
+        return { function: { name: toolCall.function.name, arguments: args } };
+      });
+    }
+    return mapped;
+  }
+
+  private toResponse(content: string, rawToolCalls: any[] | undefined, body: any): LLMChatResponse {
+    // Ollama does not assign ids to tool calls, so generate OpenAI-style ones
+    const toolCalls: LLMToolCall[] = (rawToolCalls || []).map((toolCall) => ({
+      id: `call_${crypto.randomUUID().replace(/-/g, "").substring(0, 24)}`,
+      type: "function",
+      function: {
+        name: toolCall.function?.name || "",
+        arguments: typeof toolCall.function?.arguments === "string"
+          ? toolCall.function.arguments
+          : JSON.stringify(toolCall.function?.arguments ?? {}),
+      },
+    }));
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: toolCalls.length > 0 ? "tool_calls" : body.done_reason,
+      usage: this.toUsage(body),
+    };
+  }
+
+  private toUsage(body: any): LLMUsage | undefined {
+    if (body.prompt_eval_count === undefined && body.eval_count === undefined) return undefined;
+    const promptTokens = body.prompt_eval_count ?? 0;
+    const completionTokens = body.eval_count ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
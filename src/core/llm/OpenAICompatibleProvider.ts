@@ -0,0 +1,263 @@
+import { OpenAI } from "openai";
+import { LLMConfig } from "../configs";
+import { withTags } from "../Logger";
+import { coreLoggers } from "../logging";
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamHandler,
+  LLMToolCall,
+  LLMUsage,
+} from "./LLMProvider";
+
+/**
+ * Provider for OpenAI and any endpoint implementing the OpenAI chat completions API
+ * (DeepSeek, Qwen, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string = "openai";
+  public readonly supportsStreaming = true;
+  public readonly supportsToolCalls = true;
+  public readonly supportsStructuredOutput = true;
+
+  private client: OpenAI;
+  private logger = coreLoggers.llm;
+
+  constructor(config: LLMConfig) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+  }
+
+  public async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: false,
+    }, { signal: request.signal });
+
+    const choice = response.choices[0];
+    const message = choice.message;
+    this.logger.debug(`[OpenAICompatibleProvider] Non-stream finished: ${JSON.stringify(message, null, 2)}`, withTags(["response"]));
+
+    return {
+      content: message.content || "",
+      toolCalls: choice.finish_reason === "tool_calls" && message.tool_calls
+        ? (message.tool_calls as LLMToolCall[])
+        : undefined,
+      finishReason: choice.finish_reason,
+      usage: this.toUsage(response.usage),
+    };
+  }
+
+  public async stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      // Usage comes in a last chunk without choices, only when asked for
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    const chunks: OpenAI.Chat.Completions.ChatCompletionChunk[] = [];
+    let content = "";
+    let finishReason: string | undefined;
+    let usage: LLMUsage | undefined;
+
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      const choice = chunk.choices[0];
+      if (chunk.usage) {
+        usage = this.toUsage(chunk.usage);
+      }
+      if (!choice) continue;
+
+      if (choice.delta?.tool_calls) {
+        this.logger.debug('Tool call detected in stream chunk', withTags(['response', 'tool_calls']), {
+          toolCallDelta: choice.delta.tool_calls
+        });
+      }
+
+      const contentDelta = choice.delta?.content || "";
+      if (contentDelta) {
+        content += contentDelta;
+        onDelta(contentDelta);
+      }
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    }
+
+    if (chunks.length === 0) {
+      throw new LLMProviderError("No response chunks received from LLM stream.", null, "empty_stream");
+    }
+
+    const toolCalls = this.reconstructToolCalls(chunks);
+    if (toolCalls.length > 0) {
+      this.logger.debug('Reconstructed tool calls from stream chunks', withTags(['response', 'tool_calls']), {
+        toolCallCount: toolCalls.length,
+        toolCalls
+      });
+      return { content, toolCalls, finishReason: "tool_calls", usage };
+    }
+
+    // Some models served through OpenAI-compatible endpoints emit tool calls as
+    // special tokens inside the text content instead of structured deltas.
+    if (this.hasSpecialTokenFormat(content)) {
+      return { ...this.recoverSpecialTokenToolCall(content), finishReason, usage };
+    }
+
+    return { content, finishReason, usage };
+  }
+
+  private buildParams(request: LLMChatRequest) {
+    const tools = request.tools && request.tools.length > 0 ? request.tools : undefined;
+    return {
+      model: request.model,
+      // Prompt caching is automatic for OpenAI, so the marker is not sent
+      messages: request.messages.map(({ cache, ...message }) => message) as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+      tools: tools as OpenAI.Chat.Completions.ChatCompletionTool[] | undefined,
+      ...(tools ? { tool_choice: "auto" as const } : {}),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.responseFormat
+        ? {
+            response_format: {
+              type: "json_schema" as const,
+              json_schema: { name: request.responseFormat.name, schema: request.responseFormat.schema },
+            },
+          }
+        : {}),
+    };
+  }
+
+  private toUsage(usage?: OpenAI.Completions.CompletionUsage | null): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
+  /**
+   * Reconstructs complete tool calls from stream chunks.
+   * OpenAI streams tool calls piece by piece, so we need to accumulate and reconstruct them.
+   */
+  private reconstructToolCalls(chunks: OpenAI.Chat.Completions.ChatCompletionChunk[]): LLMToolCall[] {
+    const toolCallsMap = new Map<number, LLMToolCall>();
+
+    for (const chunk of chunks) {
+      const toolCallDeltas = chunk.choices[0]?.delta?.tool_calls || [];
+
+      for (const delta of toolCallDeltas) {
+        if (!toolCallsMap.has(delta.index)) {
+          toolCallsMap.set(delta.index, {
+            id: delta.id || "",
+            type: "function",
+            function: {
+              name: "",
+              arguments: ""
+            }
+          });
+        }
+
+        const currentTool = toolCallsMap.get(delta.index)!;
+
+        // Update the id if provided
+        if (delta.id) {
+          currentTool.id = delta.id;
+        }
+
+        // Update function properties
+        if (delta.function) {
+          if (delta.function.name) {
+            currentTool.function.name = delta.function.name;
+          }
+
+          if (delta.function.arguments) {
+            currentTool.function.arguments += delta.function.arguments;
+          }
+        }
+      }
+    }
+
+    // Sparse indices can occur, so order by index and drop gaps
+    return Array.from(toolCallsMap.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, toolCall]) => toolCall);
+  }
+
+  private hasSpecialTokenFormat(content: string): boolean {
+    return content.includes('<｜tool▁calls▁begin｜>') || content.includes('<|tool_calls_begin|>');
+  }
+
+  /**
+   * Recover a tool call from the special token format, e.g.
+   * `<|tool_calls_begin|><|tool_call_begin|>function<|tool_sep|>name ```json {...}```<|tool_call_end|>`
+   */
+  private recoverSpecialTokenToolCall(content: string): { content: string; toolCalls?: LLMToolCall[] } {
+    this.logger.debug('Detected special token format in stream response', withTags(['response', 'stream']), {
+      fullResponse: content
+    });
+
+    // Pattern to extract function name from various formats
+    let toolName: string | null = null;
+    const functionNameMatch = content.match(/function<｜tool_name｜>([\w_]+)/) ||
+                              content.match(/function<\|tool_name\|>([\w_]+)/) ||
+                              content.match(/<｜tool▁call▁begin｜>function<｜t[^>]*>([\w_]+)/) ||
+                              content.match(/<\|tool_call_begin\|>function<\|t[^>]*>([\w_]+)/) ||
+                              content.match(/list_allowed_directories/);
+
+    if (functionNameMatch) {
+      // The list_allowed_directories match has no capture group
+      toolName = functionNameMatch[1] || 'list_allowed_directories';
+      this.logger.debug(`Extracted tool name from special token format: ${toolName}`,
+        withTags(['response', 'recovery']));
+    }
+
+    try {
+      // Look for JSON content between markers or in code blocks
+      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) ||
+                        content.match(/\{[\s\S]*\}/g);
+
+      let jsonContent: string | null = null;
+      let toolArgs: Record<string, any> = {};
+      if (jsonMatch && jsonMatch[0]) {
+        jsonContent = (jsonMatch[0].startsWith('```') ? jsonMatch[1] : jsonMatch[0]).trim();
+        try {
+          toolArgs = JSON.parse(jsonContent || '{}');
+        } catch (parseError) {
+          this.logger.warn(`Failed to parse extracted JSON: ${parseError}`, withTags(['response', 'recovery']));
+        }
+      }
+
+      if (toolName) {
+        const toolCall: LLMToolCall = {
+          id: `call_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 7)}`,
+          type: 'function',
+          function: {
+            name: toolName,
+            arguments: JSON.stringify(toolArgs)
+          }
+        };
+        this.logger.debug(`Constructed tool call from special token format: ${JSON.stringify(toolCall)}`,
+          withTags(['response', 'recovery']));
+        return { content: "", toolCalls: [toolCall] };
+      }
+
+      if (jsonContent) {
+        // No tool name found, just use the extracted JSON
+        return { content: jsonContent || '{}' };
+      }
+
+      this.logger.warn('Could not extract JSON or tool name from special token format',
+        withTags(['response', 'recovery']));
+    } catch (extractError) {
+      this.logger.error(`Error extracting content from special token format: ${extractError}`,
+        withTags(['error', 'recovery-failed']));
+    }
+    return { content: '{}' };
+  }
+}
@@ -0,0 +1,285 @@
+import crypto from "crypto";
+import { createRuntime } from "../../runtime";
+import { withTags } from "../Logger";
+import { coreLoggers } from "../logging";
+import {
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+  LLMStreamHandler,
+} from "./LLMProvider";
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+export const DEFAULT_CACHE_FLUSH_DELAY_MS = 1000;
+
+export interface ResponseCacheEntry {
+  response: LLMChatResponse;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+/**
+ * Storage backend for cached LLM responses
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<ResponseCacheEntry | undefined>;
+  set(key: string, entry: ResponseCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  /** Write out changes that are still buffered, for stores that buffer them */
+  flush?(): Promise<void>;
+}
+
+/**
+ * In-memory store that evicts the least recently used entry once full
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, ResponseCacheEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {}
+
+  public async get(key: string): Promise<ResponseCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  public toJSON(): Record<string, ResponseCacheEntry> {
+    return Object.fromEntries(this.entries);
+  }
+}
+
+/**
+ * LRU store persisted to a JSON file so cached responses survive restarts.
+ * The file is read on first use. Changes are written out together once no
+ * further change arrived for `flushDelayMs`, or when `flush()` is called.
+ */
+export class FileResponseCacheStore implements ResponseCacheStore {
+  private memory: InMemoryResponseCacheStore;
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private logger = coreLoggers.llm;
+
+  constructor(
+    private path: string,
+    maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES,
+    private flushDelayMs: number = DEFAULT_CACHE_FLUSH_DELAY_MS
+  ) {
+    this.memory = new InMemoryResponseCacheStore(maxEntries);
+  }
+
+  public async get(key: string): Promise<ResponseCacheEntry | undefined> {
+    await this.load();
+    return this.memory.get(key);
+  }
+
+  public async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+    await this.load();
+    await this.memory.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.load();
+    await this.memory.delete(key);
+    this.scheduleFlush();
+  }
+
+  public async clear(): Promise<void> {
+    await this.load();
+    await this.memory.clear();
+    this.scheduleFlush();
+  }
+
+  public flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    // Writes are chained so an older snapshot never overwrites a newer one
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => createRuntime().fs.writeFile(this.path, JSON.stringify(this.memory), "utf8"));
+    return this.writing;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((error) => {
+        this.logger.warn(`Failed to write response cache file ${this.path}: ${error}`, withTags(["cache"]));
+      });
+    }, this.flushDelayMs);
+    // A pending write does not keep the process alive; call flush() before exiting
+    this.flushTimer.unref?.();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const fs = createRuntime().fs;
+        if (!(await fs.exists(this.path))) return;
+        try {
+          const entries: Record<string, ResponseCacheEntry> = JSON.parse(await fs.readFile(this.path, "utf8"));
+          for (const [key, entry] of Object.entries(entries)) {
+            await this.memory.set(key, entry);
+          }
+        } catch (error) {
+          this.logger.warn(`Ignoring unreadable response cache file ${this.path}: ${error}`, withTags(["cache"]));
+        }
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+export interface CachingLLMProviderOptions {
+  /** Entries older than this are treated as misses; no expiry by default */
+  ttlMs?: number;
+  /** Highest temperature whose responses are cached, default 0 (deterministic calls only) */
+  maxTemperature?: number;
+  /** Called after every cache lookup, e.g. to record hit/miss metrics */
+  onLookup?: (hit: boolean, request: LLMChatRequest) => void;
+}
+
+/**
+ * Serves repeated requests from a ResponseCacheStore instead of calling the
+ * wrapped provider. Requests are keyed by model, temperature, tools, response
+ * format and the normalized messages. Only requests with an explicit
+ * temperature at or below `maxTemperature` are cached; the rest always go
+ * to the provider.
+ */
+export class CachingLLMProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly supportsStreaming: boolean;
+  public readonly supportsToolCalls: boolean;
+  public readonly supportsStructuredOutput?: boolean;
+
+  private hits = 0;
+  private misses = 0;
+  private logger = coreLoggers.llm;
+
+  constructor(
+    private provider: LLMProvider,
+    private store: ResponseCacheStore = new InMemoryResponseCacheStore(),
+    private options: CachingLLMProviderOptions = {}
+  ) {
+    this.name = `cached(${provider.name})`;
+    this.supportsStreaming = provider.supportsStreaming;
+    this.supportsToolCalls = provider.supportsToolCalls;
+    this.supportsStructuredOutput = provider.supportsStructuredOutput;
+  }
+
+  /**
+   * Cache key of a request. Whitespace differences in message content and
+   * provider hints such as prompt caching markers do not change the key.
+   */
+  static keyFor(request: LLMChatRequest): string {
+    const normalized = {
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      tools: request.tools,
+      responseFormat: request.responseFormat,
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: typeof message.content === "string" ? message.content.replace(/\s+/g, " ").trim() : message.content ?? null,
+        tool_calls: message.tool_calls,
+        tool_call_id: message.tool_call_id,
+      })),
+    };
+    return crypto.createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+  }
+
+  public getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  public clear(): Promise<void> {
+    return this.store.clear();
+  }
+
+  public async flush(): Promise<void> {
+    await this.store.flush?.();
+  }
+
+  public async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return this.cached(request, () => this.provider.chat(request));
+  }
+
+  public async stream(request: LLMChatRequest, onDelta: LLMStreamHandler): Promise<LLMChatResponse> {
+    let fromCache = true;
+    const response = await this.cached(request, () => {
+      fromCache = false;
+      return this.provider.stream(request, onDelta);
+    });
+    if (fromCache && response.content) {
+      onDelta(response.content);
+    }
+    return response;
+  }
+
+  private isCacheable(request: LLMChatRequest): boolean {
+    return request.temperature !== undefined && request.temperature <= (this.options.maxTemperature ?? 0);
+  }
+
+  private async cached(request: LLMChatRequest, call: () => Promise<LLMChatResponse>): Promise<LLMChatResponse> {
+    if (!this.isCacheable(request)) {
+      return call();
+    }
+
+    const key = CachingLLMProvider.keyFor(request);
+    const entry = await this.store.get(key);
+    const now = Date.now();
+
+    if (entry && (entry.expiresAt === undefined || entry.expiresAt > now)) {
+      this.hits++;
+      this.options.onLookup?.(true, request);
+      this.logger.debug('Serving LLM response from cache', withTags(['cache', 'hit']), { model: request.model, key });
+      // Cached calls cost no tokens
+      return { ...entry.response, usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+    }
+
+    this.misses++;
+    this.options.onLookup?.(false, request);
+    const response = await call();
+
+    // Truncated answers are not worth repeating
+    if (response.finishReason !== "length") {
+      try {
+        await this.store.set(key, {
+          response,
+          createdAt: now,
+          expiresAt: this.options.ttlMs !== undefined ? now + this.options.ttlMs : undefined,
+        });
+      } catch (error) {
+        // The answer is still good when it cannot be cached
+        this.logger.warn(`Failed to cache LLM response: ${error}`, withTags(["cache"]), { model: request.model, key });
+      }
+    }
+    return response;
+  }
+}
@@ -0,0 +1,120 @@
+import { TokenBudgetConfig, TokenPricing } from "../configs";
+import { LLMProviderError, LLMUsage } from "./LLMProvider";
+
+export interface TokenUsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  calls: number;
+}
+
+export type TokenBudgetDecision =
+  | { action: "allow"; model: string }
+  | { action: "downgrade"; model: string; reason: string }
+  | { action: "refuse"; reason: string };
+
+/**
+ * Raised when a request would exceed the configured token budget
+ */
+export class TokenBudgetExceededError extends LLMProviderError {
+  constructor(message: string) {
+    super(message, null, "token_budget_exceeded", "budget_exceeded");
+    this.name = "TokenBudgetExceededError";
+  }
+}
+
+function emptySummary(): TokenUsageSummary {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, calls: 0 };
+}
+
+/**
+ * Accumulates token usage per session, per agent and per UTC day, and decides
+ * whether a new LLM call fits into the configured budget
+ */
+export class TokenUsageTracker {
+  private sessions: Map<string, TokenUsageSummary> = new Map();
+  private days: Map<string, TokenUsageSummary> = new Map();
+  private total: TokenUsageSummary = emptySummary();
+
+  constructor(
+    private budget: TokenBudgetConfig = {},
+    private pricing: { [model: string]: TokenPricing } = {}
+  ) {}
+
+  /**
+   * Record the usage of a single LLM call and return the updated session totals
+   * @param sessionId Left out for calls outside a session, which only count towards the day and the agent
+   */
+  public record(sessionId: string | undefined, model: string, usage: LLMUsage, date: Date = new Date()): TokenUsageSummary {
+    const cost = this.calculateCost(model, usage);
+    const session = (sessionId !== undefined && this.sessions.get(sessionId)) || emptySummary();
+    const day = this.days.get(this.dayKey(date)) ?? emptySummary();
+
+    for (const summary of [session, day, this.total]) {
+      summary.promptTokens += usage.promptTokens;
+      summary.completionTokens += usage.completionTokens;
+      summary.totalTokens += usage.totalTokens;
+      summary.cost += cost;
+      summary.calls++;
+    }
+
+    if (sessionId !== undefined) {
+      this.sessions.set(sessionId, session);
+    }
+    this.days.set(this.dayKey(date), day);
+    return { ...session };
+  }
+
+  public getSessionUsage(sessionId: string): TokenUsageSummary {
+    return { ...(this.sessions.get(sessionId) ?? emptySummary()) };
+  }
+
+  public getDailyUsage(date: Date = new Date()): TokenUsageSummary {
+    return { ...(this.days.get(this.dayKey(date)) ?? emptySummary()) };
+  }
+
+  public getTotalUsage(): TokenUsageSummary {
+    return { ...this.total };
+  }
+
+  /**
+   * Decide how a call for the given session should proceed. Budgets are checked
+   * against usage recorded so far, so the call that crosses the limit still runs.
+   */
+  public checkBudget(sessionId: string | undefined, model: string, date: Date = new Date()): TokenBudgetDecision {
+    const { perSession, perDay, onExceeded = "refuse", downgradeModel } = this.budget;
+
+    let reason: string | null = null;
+    const sessionTokens = (sessionId !== undefined && this.sessions.get(sessionId)?.totalTokens) || 0;
+    const dayTokens = this.days.get(this.dayKey(date))?.totalTokens ?? 0;
+    if (perSession !== undefined && sessionTokens >= perSession) {
+      reason = `Session token budget of ${perSession} exceeded (${sessionTokens} used)`;
+    } else if (perDay !== undefined && dayTokens >= perDay) {
+      reason = `Daily token budget of ${perDay} exceeded (${dayTokens} used)`;
+    }
+
+    if (!reason) {
+      return { action: "allow", model };
+    }
+    if (onExceeded === "downgrade" && downgradeModel) {
+      return { action: "downgrade", model: downgradeModel, reason };
+    }
+    return { action: "refuse", reason };
+  }
+
+  public clearSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private calculateCost(model: string, usage: LLMUsage): number {
+    const price = this.pricing[model];
+    if (!price) return 0;
+    return (usage.promptTokens / 1000) * price.promptPer1K +
+      (usage.completionTokens / 1000) * price.completionPer1K;
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,74 @@
+import { LLMProviderError } from "./LLMProvider";
+
+/**
+ * POST a JSON body and return the raw response, converting HTTP failures into
+ * LLMProviderError so callers get a consistent `status` to act on.
+ */
+export async function postJSON(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    let message = `${response.status} ${response.statusText}`;
+    let code: string | null = null;
+    let type = "provider_error";
+    try {
+      const errorBody: any = await response.json();
+      const error = errorBody?.error ?? errorBody;
+      if (typeof error === "string") {
+        message = error;
+      } else if (error?.message) {
+        message = error.message;
+        code = error.code ?? null;
+        type = error.type ?? type;
+      }
+    } catch {
+      // Body was not JSON; keep the status line as the message
+    }
+    throw new LLMProviderError(message, response.status, code, type);
+  }
+
+  return response;
+}
+
+/**
+ * Iterate over the lines of a streamed response body (SSE or NDJSON)
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        if (line.length > 0) {
+          yield line;
+        }
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim().length > 0) {
+      yield buffer.trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
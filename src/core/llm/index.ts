@@ -0,0 +1,16 @@
+export * from './LLMProvider';
+export { LLMProviderFactory } from './LLMProviderFactory';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export { AnthropicProvider } from './AnthropicProvider';
+export { OllamaProvider } from './OllamaProvider';
+export { MockLLMProvider, RecordingLLMProvider } from './MockLLMProvider';
+export type { LLMRecording, MockLLMProviderOptions } from './MockLLMProvider';
+export { TokenUsageTracker, TokenBudgetExceededError } from './TokenUsageTracker';
+export type { TokenUsageSummary, TokenBudgetDecision } from './TokenUsageTracker';
+export { FallbackLLMProvider } from './FallbackLLMProvider';
+export type { FallbackCandidate } from './FallbackLLMProvider';
+export { LLMRouter } from './LLMRouter';
+export type { LLMRoutingContext } from './LLMRouter';
+export { CachingLLMProvider, InMemoryResponseCacheStore, FileResponseCacheStore } from './ResponseCache';
+export type { ResponseCacheStore, ResponseCacheEntry, CachingLLMProviderOptions } from './ResponseCache';
+export { MODEL_CONTEXT_WINDOWS, DEFAULT_CONTEXT_WINDOW, contextWindowFor } from './ContextWindows';
@@ -18,6 +18,12 @@ export const coreLoggers = {
         component: 'prompt-template'
     }),
 
+    // LLM provider calls
+    llm: LoggerFactory.getLogger({
+        module: 'core',
+        component: 'llm'
+    }),
+
     // Session management
     session: LoggerFactory.getLogger({
         module: 'core',
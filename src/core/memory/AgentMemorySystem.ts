@@ -1,13 +1,28 @@
 import { IMemoryUnit, MemoryFilter, MemoryType } from './base';
-import { WorkingMemoryContext } from './context';
 import { WorkingContextManager } from './WorkingContextManager';
 import { WorkingMemory } from './modules/working/WorkingMemory';
 import { EpisodicMemory } from './modules/episodic/EpisodicMemory';
 import { SemanticMemory } from './modules/semantic/SemanticMemory';
-import { ProceduralMemory } from './modules/procedural/ProceduralMemory';
+import { ProceduralMemory, ProcedureExecution, LearnProcedureOptions } from './modules/procedural/ProceduralMemory';
+import { IProceduralMemoryUnit } from './modules/procedural/types';
+import { ConceptNode, ConceptRelation } from './modules/semantic/types';
 import { EphemeralMemory } from './modules/ephemeral/EphemeralMemory';
 import { MemoryTransitionManager } from './MemoryTransitionManager';
 import { loggers } from './logging';
+import { EmbeddingProvider } from './embedding/EmbeddingProvider';
+import { VectorSearchOptions } from './storage/VectorIndex';
+import { MemoryRanker, RecallOptions } from './MemoryRanker';
+import { LongTermMemory, SupersedeOptions } from './LongTermMemory';
+import {
+    ImportSnapshotOptions,
+    MEMORY_SNAPSHOT_FORMAT,
+    MEMORY_SNAPSHOT_VERSION,
+    SnapshotImportResult,
+    SnapshotRecord,
+    parseSnapshot,
+    serializeSnapshot,
+    unitRecords
+} from './MemorySnapshot';
 
 // Import storage factories
 import { WorkingMemoryStorageFactory } from './modules/working/WorkingMemoryStorageFactory';
@@ -18,9 +33,36 @@ import { ProceduralMemoryStorageFactory } from './modules/procedural/ProceduralM
 // Import monitors and handlers
 import { EphemeralMemoryCapacityMonitor } from './modules/ephemeral/EphemeralMemoryCapacityMonitor';
 import { WorkingMemoryEventHandler } from './modules/working/WorkingMemoryEventHandler';
-
+import { SemanticExtractionMonitor } from './modules/semantic/SemanticExtractionMonitor';
+import { SemanticExtractionHandler } from './modules/semantic/SemanticExtractionHandler';
+import { FactExtractor } from './modules/semantic/nlp/FactExtractor';
+import { PiiRedactor } from './PiiRedactor';
+import { SmartHistoryManager } from '../context/SmartHistoryManager';
+import { ConversationContextManager } from '../context/ConversationContextManager';
+import { IContextMetric } from '../context/types';
+import { repairToolCallSequence } from '../context/ToolCallSequence';
+
+import type { Tool } from '../Tool';
+import type { AgentRunResult } from '../AgentRun';
 import { z } from 'zod';
 
+/**
+ * Record of a forgetSubject() request. It names the subject and counts what
+ * was removed per store, but keeps none of the removed data.
+ */
+export interface ForgetSubjectAudit {
+    subjectId: string;
+    requestedAt: Date;
+    completedAt: Date;
+    /** Session histories purged alongside the memories */
+    sessionIds: string[];
+    /** Removed units per memory type */
+    removed: Partial<Record<MemoryType, number>>;
+}
+
+// Metadata that identifies a message rather than carrying its text
+const UNREDACTED_METADATA = new Set(['role', 'sessionId', 'subjectId', 'tool_call_id', 'timestamp', 'priority', 'messageId', 'references']);
+
 /**
  * Main entry point for the agent's memory system.
  * Provides a simple interface for agents to store and retrieve memories,
@@ -35,14 +77,24 @@ export class AgentMemorySystem {
 
     private transitionManager: MemoryTransitionManager;
     private contextManager: WorkingContextManager;
+    private embeddings?: EmbeddingProvider;
+    private ranker = new MemoryRanker();
+    private redactor?: PiiRedactor;
+    private auditLog: ForgetSubjectAudit[] = [];
     private logger = loggers.general;
 
-    constructor() {
+    /**
+     * @param options With an EmbeddingProvider, long-term memories are embedded
+     * when stored and text queries are answered by vector similarity
+     */
+    constructor(options: VectorSearchOptions = {}) {
+        this.embeddings = options.embeddings;
+
         // Create memories with their module-specific storage
-        this.workingMemory = WorkingMemoryStorageFactory.create();
-        this.episodicMemory = EpisodicMemoryStorageFactory.create();
-        this.semanticMemory = SemanticMemoryStorageFactory.create();
-        this.proceduralMemory = ProceduralMemoryStorageFactory.create();
+        this.workingMemory = WorkingMemoryStorageFactory.create(options);
+        this.episodicMemory = EpisodicMemoryStorageFactory.create(options);
+        this.semanticMemory = SemanticMemoryStorageFactory.create(options);
+        this.proceduralMemory = ProceduralMemoryStorageFactory.create(options);
         
         // Keep items for 30 seconds in ephemeral memory
         this.ephemeralMemory = new EphemeralMemory(-1, 500);  // Non-expiring items, max 5 items
@@ -77,6 +129,30 @@ export class AgentMemorySystem {
         this.logger.debug('Registered working memory event handler');
     }
 
+    /**
+     * Extract entities, relations and facts from the conversation into semantic
+     * memory after every assistant turn (see processAssistantTurn)
+     */
+    public enableFactExtraction(extractor: FactExtractor, options: { maxMessages?: number; minConfidence?: number } = {}): void {
+        const monitor = new SemanticExtractionMonitor(
+            'semantic-extraction',
+            this.ephemeralMemory,
+            { maxMessages: options.maxMessages ?? 10 }
+        );
+        this.transitionManager.registerMonitor(monitor);
+        this.transitionManager.registerHandler(
+            new SemanticExtractionHandler(this.semanticMemory, extractor, options.minConfidence)
+        );
+        this.logger.debug('Registered semantic fact extraction');
+    }
+
+    /**
+     * Replace personal data in everything remembered from now on
+     */
+    public useRedactor(redactor: PiiRedactor): void {
+        this.redactor = redactor;
+    }
+
     /**
      * Remember something. The memory system will automatically determine
      * where and how to store it based on its characteristics.
@@ -102,6 +178,13 @@ export class AgentMemorySystem {
                 metadataCopy.set('sessionId', sessionId);
             }
             
+            if (this.redactor) {
+                content = this.redact(content, sessionId);
+                for (const [key, value] of metadataCopy) {
+                    if (!UNREDACTED_METADATA.has(key)) metadataCopy.set(key, this.redactor.redact(value).value);
+                }
+            }
+
             const memoryUnit = this.ephemeralMemory.createMemoryUnit(content, schema, metadataCopy);
             await this.ephemeralMemory.store(memoryUnit);
         }
@@ -116,88 +199,201 @@ export class AgentMemorySystem {
 
     /**
      * Recall memories based on a query. The memory system will search
-     * across all relevant memory stores.
+     * across all relevant memory stores. With an embedding provider, the
+     * query text is embedded and long-term stores return their nearest units.
+     * Results are ranked by relevance, recency, importance, access frequency
+     * and contextual alignment, weighted by `options`.
+     * Only what is currently believed to be true is recalled, unless the
+     * filter asks about another point in time with `asOf`.
      */
-    public async recall(query: string | MemoryFilter): Promise<IMemoryUnit[]> {
+    public async recall(query: string | MemoryFilter, options: RecallOptions = {}): Promise<IMemoryUnit[]> {
         let filter: MemoryFilter;
         if (typeof query === 'string') {
             filter = { query };
         } else {
             filter = query;
         }
+        if (!filter.asOf) {
+            const now = new Date();
+            filter = { ...filter, asOf: { systemTime: now, validTime: now } };
+        }
+        if (this.embeddings && filter.query && !filter.embedding) {
+            const [embedding] = await this.embeddings.embed([filter.query]);
+            filter = { ...filter, embedding };
+        }
 
-        // Search in each memory store
-        const [workingResults, episodicResults, semanticResults, proceduralResults, ephemeralResults] = await Promise.all([
-            this.workingMemory.query(filter),
-            this.episodicMemory.query(filter),
-            this.semanticMemory.query(filter),
-            this.proceduralMemory.query(filter),
-            this.ephemeralMemory.query(filter)
-        ]);
+        // Search in each selected memory store
+        const stores: [MemoryType, { query(filter: MemoryFilter): Promise<IMemoryUnit[]> }][] = [
+            [MemoryType.WORKING, this.workingMemory],
+            [MemoryType.EPISODIC, this.episodicMemory],
+            [MemoryType.SEMANTIC, this.semanticMemory],
+            [MemoryType.PROCEDURAL, this.proceduralMemory],
+            [MemoryType.EPHEMERAL, this.ephemeralMemory]
+        ];
+        const results = await Promise.all(stores
+            .filter(([type]) => !options.memoryTypes || options.memoryTypes.includes(type))
+            .map(([, store]) => store.query(filter)));
 
         // Combine and rank results
-        const allResults = [...workingResults, ...episodicResults, ...semanticResults, ...proceduralResults, ...ephemeralResults];
-        return this.rankMemories(allResults, this.contextManager.getCurrentContext());
+        let allResults = results.flat();
+        if (options.subjectId !== undefined) {
+            allResults = allResults.filter(unit => this.isVisibleTo(unit, options.subjectId!));
+        }
+        return this.ranker.rank(allResults, filter.query, this.contextManager.getCurrentContext(), options);
     }
 
     /**
-     * Rank memories by their relevance, recency, and contextual alignment
+     * Whether a user may be shown a memory: it was learned from them, or from no
+     * user in particular (the tags forgetSubject() also goes by)
      */
-    private rankMemories(memories: IMemoryUnit[], context: WorkingMemoryContext): IMemoryUnit[] {
-        return memories.sort((a, b) => {
-            // Get relevance scores (default to 0 if not set)
-            const relevanceA = a.metadata.get('relevance') as number || 0;
-            const relevanceB = b.metadata.get('relevance') as number || 0;
+    private isVisibleTo(unit: IMemoryUnit, subjectId: string): boolean {
+        const owner = unit.metadata?.get('subjectId');
+        const subjects: string[] = unit.metadata?.get('subjectIds') ?? [];
+        return (owner === undefined || owner === subjectId) && (subjects.length === 0 || subjects.includes(subjectId));
+    }
 
-            // Get recency scores based on timestamp
-            const recencyA = a.timestamp.getTime();
-            const recencyB = b.timestamp.getTime();
+    /**
+     * Replace a long-term memory with a new version. The old version is expired
+     * rather than overwritten (see LongTermMemory.supersede()).
+     */
+    public async supersede(oldId: string, newContent: any, options: SupersedeOptions = {}): Promise<IMemoryUnit> {
+        const store = await this.longTermStoreOf(oldId);
+        if (!store) {
+            throw new Error(`Memory with id ${oldId} not found`);
+        }
+        return store.supersede(oldId, newContent, options);
+    }
 
-            // Get contextual alignment scores
-            const alignmentA = this.calculateContextualAlignment(a, context);
-            const alignmentB = this.calculateContextualAlignment(b, context);
+    /**
+     * All versions of a long-term memory, oldest first
+     */
+    public async history(id: string): Promise<IMemoryUnit[]> {
+        const store = await this.longTermStoreOf(id);
+        return store ? store.history(id) : [];
+    }
 
-            // Combine scores with weights
-            const scoreA = (0.4 * relevanceA) + (0.3 * recencyA) + (0.3 * alignmentA);
-            const scoreB = (0.4 * relevanceB) + (0.3 * recencyB) + (0.3 * alignmentB);
+    private async longTermStoreOf(id: string): Promise<LongTermMemory<any> | undefined> {
+        for (const store of [this.semanticMemory, this.episodicMemory, this.proceduralMemory]) {
+            if (await store.retrieve(id)) {
+                return store;
+            }
+        }
+        return undefined;
+    }
 
-            return scoreB - scoreA;
-        });
+    /**
+     * Let procedures invoke the agent's tools (see ProceduralMemory.useTools())
+     */
+    public useTools(resolve: (name: string) => Tool<any, any, any> | undefined): void {
+        this.proceduralMemory.useTools(resolve);
     }
 
     /**
-     * Calculate how well a memory aligns with current context
+     * Remember the tool calls of a completed run as a reusable procedure
      */
-    private calculateContextualAlignment(memory: IMemoryUnit, context: WorkingMemoryContext): number {
-        let score = 0;
-        const memoryContext = memory.metadata.get('context') as WorkingMemoryContext | undefined;
-        
-        if (!memoryContext) return 0;
+    public async learnProcedure(run: AgentRunResult, options: LearnProcedureOptions = {}): Promise<IProceduralMemoryUnit> {
+        const unit = await this.proceduralMemory.learnFromRun(run, options);
+        this.logger.debug('Learned procedure from run', { runId: run.runId, procedureId: unit.id });
+        return unit;
+    }
 
-        // Compare goals
-        const sharedGoals = new Set(
-            [...memoryContext.userGoals].filter(x => context.userGoals.has(x))
-        );
-        score += sharedGoals.size * 0.2;
+    /**
+     * Execute a stored procedure with the given inputs
+     */
+    public async executeProcedure(id: string, inputs: Record<string, any> = {}, options: { signal?: AbortSignal } = {}): Promise<ProcedureExecution> {
+        return this.proceduralMemory.execute(id, inputs, options);
+    }
 
-        // Compare topics
-        const sharedTopics = memoryContext.topicHistory.filter(
-            topic => context.topicHistory.includes(topic)
+    /**
+     * Export every memory store, the concept graph, associations and the
+     * working context as a JSON Lines snapshot (see MemorySnapshot)
+     */
+    public async exportSnapshot(): Promise<string> {
+        const records: SnapshotRecord[] = [
+            { kind: 'header', format: MEMORY_SNAPSHOT_FORMAT, version: MEMORY_SNAPSHOT_VERSION, createdAt: new Date().toISOString() },
+            { kind: 'context', context: this.contextManager.getCurrentContext() }
+        ];
+        for (const [type, store] of this.snapshotStores()) {
+            records.push(...unitRecords(type, await store.getAll()));
+        }
+        const graph = this.semanticMemory.getConceptGraph();
+        records.push(
+            ...graph.concepts.map(node => ({ kind: 'concept' as const, node })),
+            ...graph.relations.map(relation => ({ kind: 'relation' as const, relation }))
         );
-        score += sharedTopics.length * 0.2;
+        return serializeSnapshot(records);
+    }
 
-        // Compare emotional state
-        if (memoryContext.emotionalState && context.emotionalState) {
-            const valenceDiff = Math.abs(
-                memoryContext.emotionalState.valence - context.emotionalState.valence
-            );
-            const arousalDiff = Math.abs(
-                memoryContext.emotionalState.arousal - context.emotionalState.arousal
-            );
-            score += (2 - valenceDiff - arousalDiff) * 0.2;
+    /**
+     * Load a snapshot written by exportSnapshot(), migrating older versions.
+     * In 'merge' mode (the default) memories that already exist are kept and
+     * the working context is merged; 'replace' clears everything first.
+     */
+    public async importSnapshot(snapshot: string, options: ImportSnapshotOptions = {}): Promise<SnapshotImportResult> {
+        const { version, records } = parseSnapshot(snapshot);
+        const merge = options.mode !== 'replace';
+        const stores = new Map(this.snapshotStores());
+        if (!merge) {
+            await Promise.all(Array.from(stores.values(), store => store.clear()));
+            this.contextManager.initialize();
+        }
+
+        const existing = new Map<MemoryType, Set<string>>();
+        for (const [type, store] of stores) {
+            existing.set(type, new Set((await store.getAll()).map(unit => unit.id)));
+        }
+        const associations = new Map<string, Set<string>>();
+        for (const record of records) {
+            if (record.kind === 'association') {
+                associations.set(record.sourceId, (associations.get(record.sourceId) ?? new Set()).add(record.targetId));
+            }
         }
 
-        return score;
+        const concepts: ConceptNode[] = [];
+        const relations: ConceptRelation[] = [];
+        let imported = 0;
+        let skipped = 0;
+        for (const record of records) {
+            switch (record.kind) {
+                case 'unit': {
+                    const store = stores.get(record.store);
+                    if (!store) {
+                        this.logger.warn('Skipping snapshot unit of unsupported store', { store: record.store, id: record.unit.id });
+                        skipped++;
+                    } else if (existing.get(record.store)!.has(record.unit.id)) {
+                        skipped++;
+                    } else {
+                        const targets = associations.get(record.unit.id);
+                        await store.restore(targets ? { ...record.unit, associations: targets } : record.unit);
+                        imported++;
+                    }
+                    break;
+                }
+                case 'concept':
+                    concepts.push(record.node);
+                    break;
+                case 'relation':
+                    relations.push(record.relation);
+                    break;
+                case 'context':
+                    this.contextManager.restoreContext(record.context, merge);
+                    break;
+            }
+        }
+        this.semanticMemory.restoreConceptGraph(concepts, relations);
+
+        this.logger.info('Imported memory snapshot', { version, mode: merge ? 'merge' : 'replace', imported, skipped });
+        return { version, imported, skipped };
+    }
+
+    private snapshotStores(): [MemoryType, { getAll(): Promise<IMemoryUnit[]>; restore(unit: any): Promise<void>; clear(): Promise<void> }][] {
+        return [
+            [MemoryType.WORKING, this.workingMemory],
+            [MemoryType.EPISODIC, this.episodicMemory],
+            [MemoryType.SEMANTIC, this.semanticMemory],
+            [MemoryType.PROCEDURAL, this.proceduralMemory],
+            [MemoryType.EPHEMERAL, this.ephemeralMemory]
+        ];
     }
 
     /**
@@ -219,6 +415,61 @@ export class AgentMemorySystem {
         }
     }
 
+    /**
+     * Purge everything learned from a user: messages and memories tagged with
+     * the subject or belonging to one of `sessionIds` are deleted from every
+     * store, and the subject's concepts are removed from the concept graph.
+     * The request is recorded in the audit log (see getAuditLog()).
+     */
+    public async forgetSubject(subjectId: string, sessionIds: string[] = []): Promise<ForgetSubjectAudit> {
+        const requestedAt = new Date();
+        const sessions = new Set(sessionIds);
+        const removed: Partial<Record<MemoryType, number>> = {};
+
+        const shortTerm: [MemoryType, { getAll(): Promise<IMemoryUnit[]>; delete(id: string): Promise<void> }][] = [
+            [MemoryType.EPHEMERAL, this.ephemeralMemory],
+            [MemoryType.WORKING, this.workingMemory]
+        ];
+        for (const [type, store] of shortTerm) {
+            const units = (await store.getAll()).filter(unit =>
+                unit.metadata?.get('subjectId') === subjectId || sessions.has(unit.metadata?.get('sessionId')));
+            for (const unit of units) {
+                await store.delete(unit.id);
+            }
+            removed[type] = units.length;
+        }
+
+        const longTerm: [MemoryType, LongTermMemory<any>][] = [
+            [MemoryType.EPISODIC, this.episodicMemory],
+            [MemoryType.SEMANTIC, this.semanticMemory],
+            [MemoryType.PROCEDURAL, this.proceduralMemory]
+        ];
+        for (const [type, store] of longTerm) {
+            removed[type] = (await store.forgetSubject(subjectId, sessions)).length;
+        }
+
+        const audit: ForgetSubjectAudit = { subjectId, requestedAt, completedAt: new Date(), sessionIds, removed };
+        this.auditLog.push(audit);
+        this.logger.info('Forgot subject', audit);
+        return audit;
+    }
+
+    /**
+     * forgetSubject() requests handled so far, oldest first
+     */
+    public getAuditLog(): ForgetSubjectAudit[] {
+        return [...this.auditLog];
+    }
+
+    private redact<C>(content: C, sessionId?: string): C {
+        if (!this.redactor) return content;
+        const { value, found } = this.redactor.redact(content);
+        if (Object.keys(found).length > 0) {
+            this.logger.debug('Redacted personal data before storing', { sessionId, found });
+        }
+        return value;
+    }
+
     /**
      * Process a user's message/action, marking the end of a user turn
      */
@@ -230,8 +481,8 @@ export class AgentMemorySystem {
             this.transitionManager.onUserTurnEnd();
             
             // Update context
-            await this.contextManager.setContext('lastUserInput', {
-                content: input,
+            await this.contextManager.setContextWithTimestamp('lastUserInput', {
+                content: this.redact(input),
                 timestamp: new Date()
             });
         } catch (error) {
@@ -251,8 +502,8 @@ export class AgentMemorySystem {
             this.transitionManager.onAssistantTurnEnd();
             
             // Update context
-            await this.contextManager.setContext('lastAssistantResponse', {
-                content: response,
+            await this.contextManager.setContextWithTimestamp('lastAssistantResponse', {
+                content: this.redact(response),
                 timestamp: new Date()
             });
         } catch (error) {
@@ -261,6 +512,21 @@ export class AgentMemorySystem {
         }
     }
 
+    /**
+     * History manager backed by this memory system's working memory
+     * @param metrics Thresholds that make buildHistory() run the optimizers
+     */
+    public createHistoryManager(metrics?: IContextMetric[]): SmartHistoryManager {
+        return new SmartHistoryManager(this.workingMemory, undefined, metrics);
+    }
+
+    /**
+     * Goals and domain tracker of one conversation, backed by this memory system's working memory
+     */
+    public createConversationContext(): ConversationContextManager {
+        return new ConversationContextManager(this.workingMemory);
+    }
+
     /**
      * Recall recent messages in OpenAI chat completion format
      * @param sessionId Optional session ID to filter messages by
@@ -281,11 +547,13 @@ export class AgentMemorySystem {
         const memories = await this.ephemeralMemory.query(filter);
         
         // Convert to OpenAI format
-        return memories.map(memory => {
+        const messages = memories.map(memory => {
             const role = memory.metadata.get('role') as 'system' | 'user' | 'assistant' | 'tool' || 'assistant';
             
-            // Basic message format
+            // Basic message format; id and timestamp let the history manager track the message
             const message: any = {
+                id: memory.id,
+                timestamp: memory.timestamp,
                 role,
                 content: String(memory.content)
             };
@@ -300,6 +568,16 @@ export class AgentMemorySystem {
                 message.content = String(memory.content);
             }
             
+            // Messages are referred to by the ID of the Message they were stored from
+            const messageId = memory.metadata.get('messageId');
+            if (messageId) {
+                message.messageId = messageId;
+            }
+            const references = memory.metadata.get('references');
+            if (Array.isArray(references) && references.length > 0) {
+                message.references = references;
+            }
+
             // Handle tool responses
             if (role === 'tool') {
                 const toolCallId = memory.metadata.get('tool_call_id');
@@ -313,6 +591,13 @@ export class AgentMemorySystem {
             
             return message;
         });
+
+        // A limit can cut a tool call off from its results
+        const { messages: repaired, issues } = repairToolCallSequence(messages);
+        if (issues.length > 0) {
+            this.logger.debug(`Repaired recalled messages: ${issues.join('; ')}`);
+        }
+        return repaired;
     }
 
     /**
@@ -40,6 +40,14 @@ class MemoryCache<T extends IMemoryUnit> {
     }
 }
 
+/**
+ * Options for LongTermMemory.supersede()
+ */
+export interface SupersedeOptions {
+    validAt?: Date;        // When the new version became true (default now); the old one stops being valid then
+    correction?: boolean;  // The old version was never right: the new one takes over its validity period
+}
+
 /**
  * Base class for long-term memory implementations
  */
@@ -108,6 +116,104 @@ export abstract class LongTermMemory<T extends IMemoryUnit> implements IMemory<T
             .map((unit: IMemoryUnit) => unit as T);
     }
 
+    /**
+     * Replace a unit with a new version. The old version is expired rather than
+     * overwritten, so as-of queries still return what was believed before.
+     * All versions share the `versionOf` metadata (the id of the first version)
+     * and are numbered by `version`.
+     */
+    async supersede(oldId: string, newContent: any, options: SupersedeOptions = {}): Promise<T> {
+        const current = await this.storage.get(oldId);
+        if (!current) {
+            throw new Error(`Memory with id ${oldId} not found`);
+        }
+        if (current.expiredAt) {
+            throw new Error(`Memory ${oldId} has already been superseded`);
+        }
+
+        const now = new Date();
+        const validAt = options.correction ? current.validAt : options.validAt ?? now;
+        const versionOf = current.metadata.get('versionOf') ?? current.id;
+        const version = current.metadata.get('version') ?? 1;
+
+        const metadata = new Map(current.metadata);
+        metadata.delete('timestamp');
+        metadata.delete('similarity');
+        metadata.set('versionOf', versionOf);
+        metadata.set('version', version + 1);
+        metadata.set('supersedes', current.id);
+        const next = this.createMemoryUnit(newContent, typeof newContent === 'string' ? undefined : z.any(), metadata);
+        next.validAt = validAt;
+
+        current.metadata.set('versionOf', versionOf);
+        current.metadata.set('version', version);
+        current.metadata.set('supersededBy', next.id);
+        current.expiredAt = now;
+        if (!options.correction) {
+            current.invalidAt = validAt;
+        }
+
+        this.cache.delete(current.id);
+        await this.storage.update(current);
+        await this.store(next);
+        return next;
+    }
+
+    /**
+     * All versions of a unit, oldest first, including expired ones
+     */
+    async history(id: string): Promise<T[]> {
+        const unit = await this.storage.get(id);
+        if (!unit) return [];
+
+        const versionOf = unit.metadata.get('versionOf') ?? unit.id;
+        const units = await this.storage.retrieveByFilter({});
+        return units
+            .filter(candidate => candidate.id === versionOf || candidate.metadata.get('versionOf') === versionOf)
+            .filter((candidate): candidate is T => this.isMemoryUnitOfType(candidate))
+            .sort((a, b) => (a.metadata.get('version') ?? 1) - (b.metadata.get('version') ?? 1));
+    }
+
+    /**
+     * Every unit in the store, including expired versions
+     */
+    async getAll(): Promise<T[]> {
+        return (await this.storage.getAll()) as T[];
+    }
+
+    /**
+     * Write a unit exactly as given (id and timestamps included) without
+     * emitting a memory event, e.g. when importing a snapshot
+     */
+    async restore(unit: T): Promise<void> {
+        this.cache.delete(unit.id);
+        await this.storage.store(unit);
+    }
+
+    /**
+     * Delete what was learned from a user: units tagged with the subject (or
+     * from one of the given sessions) are deleted. A unit learned from several
+     * users only loses the tag until the last of them is forgotten.
+     * @returns The deleted units
+     */
+    async forgetSubject(subjectId: string, sessionIds: Set<string> = new Set()): Promise<T[]> {
+        const removed: T[] = [];
+        for (const unit of await this.getAll()) {
+            const subjects: string[] = unit.metadata.get('subjectIds') ?? [];
+            const remaining = subjects.filter(id => id !== subjectId);
+            if (unit.metadata.get('subjectId') === subjectId || sessionIds.has(unit.metadata.get('sessionId')) ||
+                (subjects.length > 0 && remaining.length === 0)) {
+                await this.delete(unit.id);
+                removed.push(unit);
+            } else if (remaining.length < subjects.length) {
+                unit.metadata.set('subjectIds', remaining);
+                this.cache.delete(unit.id);
+                await this.storage.update(unit);
+            }
+        }
+        return removed;
+    }
+
     /**
      * Delete a memory unit
      */
@@ -0,0 +1,163 @@
+import { IMemoryUnit, MemoryType } from './base';
+import { WorkingMemoryContext } from './context';
+import { memoryText } from './embedding/EmbeddingProvider';
+
+/**
+ * Weights of the ranking signals; each signal is scaled to 0-1 before weighting
+ */
+export interface RankingWeights {
+    relevance: number;   // Embedding similarity, or keyword overlap with the query
+    recency: number;     // Exponential decay of the memory's age
+    importance: number;  // IMemoryMetadata.importanceScore
+    frequency: number;   // How often the memory has been accessed
+    context: number;     // Alignment with the current working memory context
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+    relevance: 0.5,
+    recency: 0.2,
+    importance: 0.15,
+    frequency: 0.05,
+    context: 0.1
+};
+
+/**
+ * Options for AgentMemorySystem.recall()
+ */
+export interface RecallOptions {
+    limit?: number;                   // Maximum number of memories returned
+    memoryTypes?: MemoryType[];       // Memory stores searched, default all of them
+    minRelevance?: number;            // Drop memories whose relevance signal is lower
+    weights?: Partial<RankingWeights>;
+    recencyHalfLifeMs?: number;       // Age at which the recency signal halves, default 24 hours
+    now?: Date;                       // Reference time for recency, default the current time
+    subjectId?: string;               // Only memories learned from this user or from no user in particular
+}
+
+/**
+ * Weighted score of a memory and the signals it was computed from
+ */
+export interface MemoryScore {
+    total: number;
+    relevance: number;
+    recency: number;
+    importance: number;
+    frequency: number;
+    context: number;
+}
+
+const DEFAULT_RECENCY_HALF_LIFE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Orders recalled memories by a weighted sum of relevance, recency,
+ * importance, access frequency and contextual alignment.
+ */
+export class MemoryRanker {
+    rank(memories: IMemoryUnit[], query: string | undefined, context: WorkingMemoryContext | undefined, options: RecallOptions = {}): IMemoryUnit[] {
+        // Access counts are scaled against the most accessed candidate
+        const maxAccessCount = Math.max(0, ...memories.map(memory => this.accessCount(memory)));
+        const scored = memories
+            .map(memory => ({ memory, score: this.score(memory, query, context, options, maxAccessCount) }))
+            .filter(entry => entry.score.relevance >= (options.minRelevance ?? 0))
+            .map(entry => ({ memory: entry.memory, score: entry.score.total }));
+
+        scored.sort((a, b) => b.score - a.score);
+        const ranked = scored.map(entry => entry.memory);
+        return options.limit ? ranked.slice(0, options.limit) : ranked;
+    }
+
+    score(
+        memory: IMemoryUnit,
+        query: string | undefined,
+        context: WorkingMemoryContext | undefined,
+        options: RecallOptions = {},
+        maxAccessCount: number = this.accessCount(memory)
+    ): MemoryScore {
+        const weights = { ...DEFAULT_RANKING_WEIGHTS, ...options.weights };
+        const now = (options.now ?? new Date()).getTime();
+        const halfLife = options.recencyHalfLifeMs ?? DEFAULT_RECENCY_HALF_LIFE_MS;
+
+        const age = Math.max(0, now - new Date(memory.timestamp).getTime());
+        const accessCount = this.accessCount(memory);
+        const signals = {
+            relevance: this.relevance(memory, query),
+            recency: Math.pow(0.5, age / halfLife),
+            importance: this.clamp(Number(memory.metadata.get('importanceScore') ?? 0)),
+            frequency: maxAccessCount > 0 ? Math.log1p(accessCount) / Math.log1p(maxAccessCount) : 0,
+            context: context ? this.clamp(this.calculateContextualAlignment(memory, context)) : 0
+        };
+
+        const total = (Object.keys(signals) as (keyof RankingWeights)[])
+            .reduce((sum, signal) => sum + weights[signal] * signals[signal], 0);
+        return { total, ...signals };
+    }
+
+    /**
+     * Similarity from a vector search when available, otherwise the share of
+     * query terms found in the memory, otherwise its stored relevance
+     */
+    private relevance(memory: IMemoryUnit, query: string | undefined): number {
+        const similarity = memory.metadata.get('similarity');
+        if (typeof similarity === 'number') {
+            return this.clamp(similarity);
+        }
+
+        const terms = this.terms(query ?? '');
+        if (terms.length > 0) {
+            const words = new Set(this.terms(memoryText(memory)));
+            return terms.filter(term => words.has(term)).length / terms.length;
+        }
+
+        return this.clamp(Number(memory.metadata.get('relevance') ?? 0));
+    }
+
+    /**
+     * Calculate how well a memory aligns with current context
+     */
+    private calculateContextualAlignment(memory: IMemoryUnit, context: WorkingMemoryContext): number {
+        let score = 0;
+        const memoryContext = memory.metadata.get('context') as WorkingMemoryContext | undefined;
+
+        if (!memoryContext) return 0;
+
+        // Compare goals
+        const sharedGoals = new Set(
+            [...memoryContext.userGoals].filter(x => context.userGoals.has(x))
+        );
+        score += sharedGoals.size * 0.2;
+
+        // Compare topics
+        const sharedTopics = memoryContext.topicHistory.filter(
+            topic => context.topicHistory.includes(topic)
+        );
+        score += sharedTopics.length * 0.2;
+
+        // Compare emotional state
+        if (memoryContext.emotionalState && context.emotionalState) {
+            const valenceDiff = Math.abs(
+                memoryContext.emotionalState.valence - context.emotionalState.valence
+            );
+            const arousalDiff = Math.abs(
+                memoryContext.emotionalState.arousal - context.emotionalState.arousal
+            );
+            score += (2 - valenceDiff - arousalDiff) * 0.2;
+        }
+
+        return score;
+    }
+
+    private accessCount(memory: IMemoryUnit): number {
+        return memory.consolidationMetrics?.accessCount ?? memory.accessCount ?? 0;
+    }
+
+    private terms(text: string): string[] {
+        return text
+            .toLowerCase()
+            .split(/\W+/)
+            .filter(term => term.length > 2);
+    }
+
+    private clamp(value: number): number {
+        return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+    }
+}
@@ -0,0 +1,121 @@
+import { IMemoryUnit, MemoryType } from './base';
+import { encodeValue, decodeValue } from './storage/ValueCodec';
+import { z } from 'zod';
+
+export const MEMORY_SNAPSHOT_FORMAT = 'agent-memory-snapshot';
+export const MEMORY_SNAPSHOT_VERSION = 2;
+
+/**
+ * One line of a snapshot. Values are encoded with encodeValue(), so Maps,
+ * Sets and Dates survive the round trip through JSON.
+ *
+ * Version 2 starts with a header and splits associations out of the units.
+ * Version 1 snapshots were plain dumps: one encoded unit per line, stored
+ * back into the store named by its memoryType.
+ */
+export type SnapshotRecord =
+    | { kind: 'header'; format: string; version: number; createdAt: string }
+    | { kind: 'unit'; store: MemoryType; unit: any }
+    | { kind: 'concept'; node: any }
+    | { kind: 'relation'; relation: any }
+    | { kind: 'association'; sourceId: string; targetId: string }
+    | { kind: 'context'; context: any };
+
+const recordSchema = z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('header'), format: z.literal(MEMORY_SNAPSHOT_FORMAT), version: z.number().int(), createdAt: z.string() }),
+    z.object({ kind: z.literal('unit'), store: z.nativeEnum(MemoryType), unit: z.object({ id: z.string() }).passthrough() }),
+    z.object({ kind: z.literal('concept'), node: z.object({ id: z.string() }).passthrough() }),
+    z.object({ kind: z.literal('relation'), relation: z.object({ id: z.string() }).passthrough() }),
+    z.object({ kind: z.literal('association'), sourceId: z.string(), targetId: z.string() }),
+    z.object({ kind: z.literal('context'), context: z.record(z.any()) })
+]);
+
+export interface ImportSnapshotOptions {
+    /** 'merge' (default) keeps current memories and adds the snapshot's; 'replace' clears every store first */
+    mode?: 'merge' | 'replace';
+}
+
+export interface SnapshotImportResult {
+    /** Version of the snapshot before migration */
+    version: number;
+    imported: number;
+    /** Units skipped in merge mode because a unit with the same id already exists */
+    skipped: number;
+}
+
+/**
+ * Upgrades the records of a snapshot by one version
+ */
+const migrations: Record<number, (records: any[]) => any[]> = {
+    1: units => [
+        { kind: 'header', format: MEMORY_SNAPSHOT_FORMAT, version: 2, createdAt: new Date().toISOString() },
+        ...units.flatMap(unit => {
+            const { associations, ...rest } = unit;
+            const targets: any[] = associations?.__type === 'Set' ? associations.values : associations ?? [];
+            return [
+                { kind: 'unit', store: unit.memoryType, unit: rest },
+                ...targets.map(targetId => ({ kind: 'association', sourceId: unit.id, targetId }))
+            ];
+        })
+    ]
+};
+
+/**
+ * Write records as JSON Lines, encoding Maps, Sets and Dates
+ */
+export function serializeSnapshot(records: SnapshotRecord[]): string {
+    return records.map(record => JSON.stringify(encodeValue(record))).join('\n') + '\n';
+}
+
+/**
+ * Read a snapshot of any supported version and migrate it to the current one
+ */
+export function parseSnapshot(snapshot: string): { version: number; records: SnapshotRecord[] } {
+    let records = snapshot.split('\n')
+        .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+        .filter(({ line }) => line !== '')
+        .map(({ line, number }) => {
+            try {
+                return JSON.parse(line);
+            } catch (error) {
+                throw new Error(`Invalid memory snapshot: line ${number} is not JSON`);
+            }
+        });
+
+    const header = records[0]?.kind === 'header' ? records[0] : undefined;
+    if (header && header.format !== MEMORY_SNAPSHOT_FORMAT) {
+        throw new Error(`Invalid memory snapshot: unknown format ${header.format}`);
+    }
+    const version: number = header ? header.version : 1;
+    if (version > MEMORY_SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported memory snapshot version ${version} (latest is ${MEMORY_SNAPSHOT_VERSION})`);
+    }
+    for (let current = version; current < MEMORY_SNAPSHOT_VERSION; current++) {
+        records = migrations[current](records);
+    }
+
+    return {
+        version,
+        records: records.map((record, index) => {
+            const result = recordSchema.safeParse(record);
+            if (!result.success) {
+                throw new Error(`Invalid memory snapshot record ${index + 1}: ${result.error.message}`);
+            }
+            return decodeValue(result.data) as SnapshotRecord;
+        })
+    };
+}
+
+/**
+ * Units are exported without embeddings, which storage recomputes with its
+ * own EmbeddingProvider, and without associations, which get their own records
+ */
+export function unitRecords(store: MemoryType, units: IMemoryUnit[]): SnapshotRecord[] {
+    return units.flatMap(unit => {
+        const { embedding, associations, ...rest } = unit;
+        return [
+            { kind: 'unit' as const, store, unit: rest },
+            ...Array.from(associations ?? [], targetId => ({ kind: 'association' as const, sourceId: unit.id, targetId }))
+        ];
+    });
+}
@@ -0,0 +1,124 @@
+/**
+ * A piece of personal data found in a text
+ */
+export interface PiiMatch {
+    type: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Finds one kind of personal data. Custom detectors (names, addresses,
+ * account numbers, an NER model...) can be passed to PiiRedactor.
+ */
+export interface PiiDetector {
+    type: string;
+    detect(text: string): PiiMatch[];
+}
+
+/**
+ * Detector based on a regular expression, with an optional check of each match
+ */
+export class RegexPiiDetector implements PiiDetector {
+    constructor(
+        public readonly type: string,
+        private readonly pattern: RegExp,
+        private readonly validate: (match: string) => boolean = () => true
+    ) {}
+
+    detect(text: string): PiiMatch[] {
+        const flags = this.pattern.flags.includes('g') ? this.pattern.flags : this.pattern.flags + 'g';
+        return Array.from(text.matchAll(new RegExp(this.pattern.source, flags)))
+            .filter(match => this.validate(match[0]))
+            .map(match => ({ type: this.type, start: match.index!, end: match.index! + match[0].length }));
+    }
+}
+
+const digits = (value: string) => value.replace(/\D/g, '');
+
+// Card numbers pass the Luhn checksum, which rules out most other long numbers
+function luhn(value: string): boolean {
+    const number = digits(value);
+    if (number.length < 13 || number.length > 19) return false;
+    let sum = 0;
+    for (let i = 0; i < number.length; i++) {
+        let digit = Number(number[number.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+export const EMAIL_DETECTOR = new RegexPiiDetector('email', /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i);
+
+export const CARD_DETECTOR = new RegexPiiDetector('card', /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/, luhn);
+
+// 9 to 15 digits, either grouped or after a country code: dates have too few digits,
+// and plain runs of digits are more often ids than phone numbers
+export const PHONE_DETECTOR = new RegexPiiDetector(
+    'phone',
+    /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){2,4}(?!\w)/,
+    match => digits(match).length >= 9 && digits(match).length <= 15 && /^\+|[ .()-]/.test(match)
+);
+
+/**
+ * Card numbers are checked before phone numbers, which they would also match
+ */
+export const DEFAULT_PII_DETECTORS: PiiDetector[] = [EMAIL_DETECTOR, CARD_DETECTOR, PHONE_DETECTOR];
+
+/**
+ * Replaces personal data in memory content before it is stored. Strings are
+ * redacted wherever they appear in arrays, plain objects and Maps.
+ */
+export class PiiRedactor {
+    constructor(
+        private readonly detectors: PiiDetector[] = DEFAULT_PII_DETECTORS,
+        private readonly placeholder: (type: string) => string = type => `[REDACTED:${type}]`
+    ) {}
+
+    /**
+     * @returns The redacted value and how many matches of each type were replaced
+     */
+    redact<T>(value: T): { value: T; found: Record<string, number> } {
+        const found: Record<string, number> = {};
+        return { value: this.redactValue(value, found), found };
+    }
+
+    private redactValue(value: any, found: Record<string, number>): any {
+        if (typeof value === 'string') {
+            return this.redactText(value, found);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redactValue(item, found));
+        }
+        if (value instanceof Map) {
+            return new Map(Array.from(value, ([key, item]) => [key, this.redactValue(item, found)]));
+        }
+        if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item, found)]));
+        }
+        return value;
+    }
+
+    private redactText(text: string, found: Record<string, number>): string {
+        // Earlier detectors win where matches overlap
+        const matches: PiiMatch[] = [];
+        for (const detector of this.detectors) {
+            for (const match of detector.detect(text)) {
+                if (!matches.some(other => match.start < other.end && other.start < match.end)) {
+                    matches.push(match);
+                }
+            }
+        }
+
+        let result = text;
+        for (const match of matches.sort((a, b) => b.start - a.start)) {
+            result = result.slice(0, match.start) + this.placeholder(match.type) + result.slice(match.end);
+            found[match.type] = (found[match.type] ?? 0) + 1;
+        }
+        return result;
+    }
+}
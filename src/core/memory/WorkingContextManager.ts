@@ -152,6 +152,30 @@ export class WorkingContextManager {
         };
     }
 
+    /**
+     * Restore a context, e.g. from a snapshot. With `merge`, goals, domain
+     * data and preferences are added to the current ones and the histories
+     * are appended; otherwise the context is replaced.
+     */
+    public restoreContext(context: WorkingMemoryContext, merge: boolean = false): void {
+        const current = this.currentContext;
+        const trends = merge ? [...current.emotionalTrends, ...context.emotionalTrends] : [...context.emotionalTrends];
+        this.currentContext = merge ? {
+            ...current,
+            timestamp: new Date(),
+            userGoals: new Set([...current.userGoals, ...context.userGoals]),
+            domainContext: new Map([...current.domainContext, ...context.domainContext]),
+            interactionHistory: [...current.interactionHistory, ...context.interactionHistory].slice(-10),
+            emotionalTrends: trends,
+            topicHistory: [...current.topicHistory, ...context.topicHistory],
+            userPreferences: new Map([...current.userPreferences, ...context.userPreferences])
+        } : { ...context, emotionalTrends: trends };
+
+        this.emotionalContext.emotionalTrends = trends;
+        this.emotionalContext.currentEmotion = this.currentContext.emotionalState;
+        this.contextChanges$.next(this.currentContext);
+    }
+
     /**
      * Initialize context manager
      */
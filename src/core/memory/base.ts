@@ -40,6 +40,7 @@ export interface IMemoryUnit {
     priority?: number;
     consolidationMetrics?: ConsolidationMetrics;
     associations?: Set<string>;
+    embedding?: number[];   // Vector for similarity search, filled in at write time when storage has an EmbeddingProvider
     
     // Temporal fields
     createdAt: Date;      // When we knew about it (system time)
@@ -139,6 +140,14 @@ export interface MemoryFilter {
         invalidAfter?: Date;
         invalidBefore?: Date;
     };
+    // What the agent believed at `systemTime` about the world at `validTime`.
+    // Units without the corresponding temporal fields always match. A version
+    // superseded by a change (expiredAt and invalidAt set) is still believed
+    // for the period it was valid; a corrected one (expiredAt only) is not.
+    asOf?: {
+        systemTime?: Date;  // Versions known by then and not yet retracted
+        validTime?: Date;   // Facts that became true by then and were not yet invalid
+    };
 }
 
 /**
@@ -0,0 +1,140 @@
+import { OpenAI } from 'openai';
+import { IMemoryUnit } from '../base';
+
+/**
+ * Turns text into vectors for similarity search over memory units
+ */
+export interface EmbeddingProvider {
+    readonly name: string;
+    readonly dimension: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Text of a memory unit used for embedding: string content, `content.text`,
+ * the name of a concept, or the JSON of any other content
+ */
+export function memoryText(memory: IMemoryUnit): string {
+    if (typeof memory.content === 'string') {
+        return memory.content;
+    }
+    if (typeof memory.content?.text === 'string') {
+        return memory.content.text;
+    }
+    if (typeof memory.content?.name === 'string') {
+        return memory.content.name;
+    }
+    return JSON.stringify(memory.content ?? '');
+}
+
+/**
+ * Whether `updated` changes the text of `existing` but still carries its embedding
+ */
+export function isStaleEmbedding(existing: IMemoryUnit, updated: IMemoryUnit): boolean {
+    const same = (a?: number[], b?: number[]) =>
+        a !== undefined && b !== undefined && a.length === b.length && a.every((value, i) => value === b[i]);
+    return same(existing.embedding, updated.embedding) && memoryText(existing) !== memoryText(updated);
+}
+
+export function normalizeVector(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector.slice() : vector.map(value => value / norm);
+}
+
+/**
+ * Local, deterministic embedder using the hashing trick: every word (and every
+ * pair of adjacent words) is hashed into one of `dimension` signed buckets.
+ * Texts sharing vocabulary end up close together; no model or network is needed,
+ * which makes it a reasonable default for tests and offline agents.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+    public readonly name = 'hashing';
+    public readonly dimension: number;
+
+    constructor(dimension: number = 256) {
+        this.dimension = dimension;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedText(text));
+    }
+
+    private embedText(text: string): number[] {
+        const vector = new Array<number>(this.dimension).fill(0);
+        const words = text
+            .toLowerCase()
+            .split(/\W+/)
+            .filter(word => word.length > 1);
+
+        const add = (feature: string, weight: number) => {
+            const hash = this.hash(feature);
+            // The top bit picks the sign so that collisions tend to cancel out
+            vector[hash % this.dimension] += (hash & 0x80000000 ? -1 : 1) * weight;
+        };
+        words.forEach((word, i) => {
+            add(word, 1);
+            if (i > 0) {
+                add(`${words[i - 1]} ${word}`, 0.5);
+            }
+        });
+
+        return normalizeVector(vector);
+    }
+
+    // 32-bit FNV-1a
+    private hash(value: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < value.length; i++) {
+            hash ^= value.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
+
+export interface OpenAIEmbeddingConfig {
+    apiKey: string;
+    model?: string;        // Defaults to text-embedding-3-small
+    baseURL?: string;      // Any endpoint implementing the OpenAI embeddings API
+    dimension?: number;    // Requested size for models that support shortening (1536 by default)
+    batchSize?: number;    // Texts sent per request, default 100
+}
+
+/**
+ * Embedder for OpenAI and any endpoint implementing its embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    public readonly name = 'openai';
+    public readonly dimension: number;
+
+    private client: OpenAI;
+    private model: string;
+    private batchSize: number;
+    private requestDimension?: number;
+
+    constructor(config: OpenAIEmbeddingConfig) {
+        this.client = new OpenAI({
+            apiKey: config.apiKey,
+            baseURL: config.baseURL,
+        });
+        this.model = config.model ?? 'text-embedding-3-small';
+        this.dimension = config.dimension ?? 1536;
+        this.requestDimension = config.dimension;
+        this.batchSize = config.batchSize ?? 100;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let start = 0; start < texts.length; start += this.batchSize) {
+            const response = await this.client.embeddings.create({
+                model: this.model,
+                input: texts.slice(start, start + this.batchSize),
+                ...(this.requestDimension ? { dimensions: this.requestDimension } : {}),
+            });
+            // Results carry their input position; do not rely on response order
+            const batch = [...response.data].sort((a, b) => a.index - b.index);
+            vectors.push(...batch.map(item => item.embedding));
+        }
+        return vectors;
+    }
+}
@@ -157,6 +157,16 @@ class EphemeralMemory implements IMemory<EphemeralMemoryUnit> {
         }
     }
 
+    /**
+     * Put a unit back with its id and a fresh expiry, without emitting a
+     * memory event (monitors would treat it as a new message)
+     */
+    async restore(unit: EphemeralMemoryUnit): Promise<void> {
+        const expiry = this.duration === -1 ? -1 : Date.now() + this.duration;
+        this.items[unit.id] = { item: unit, expiry };
+        this.purgeExpired();
+    }
+
     async getAll(): Promise<EphemeralMemoryUnit[]> {
         this.purgeExpired();
         return Object.values(this.items).map(i => i.item);
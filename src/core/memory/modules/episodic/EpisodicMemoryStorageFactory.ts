@@ -1,16 +1,28 @@
 import { InMemoryStorage } from '../../storage/InMemoryStorage';
 import { InMemoryIndex } from '../../storage/InMemoryIndex';
+import { openSqliteMemory } from '../../storage/SqliteMemory';
+import { VectorSearchOptions } from '../../storage/VectorIndex';
 import { EpisodicMemory } from './EpisodicMemory';
 
 /**
  * Factory for creating episodic memory with appropriate storage
  */
 export class EpisodicMemoryStorageFactory {
-    static create(options: { maxCapacity?: number } = {}): EpisodicMemory {
-        const { maxCapacity = 1000 } = options;
-        const storage = new InMemoryStorage(maxCapacity);
+    static create(options: { maxCapacity?: number } & VectorSearchOptions = {}): EpisodicMemory {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+
+        const storage = new InMemoryStorage(maxCapacity, { embeddings, vectorIndex });
         const index = new InMemoryIndex();
         
         return new EpisodicMemory(storage, index);
     }
+
+    /**
+     * Create episodic memory kept in a SQLite database (via `bun:sqlite`), so it survives restarts
+     */
+    static async open(sqlitePath: string, options: { maxCapacity?: number } & VectorSearchOptions = {}): Promise<EpisodicMemory> {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+        const { storage, index } = await openSqliteMemory(sqlitePath, 'episodic', { maxCapacity, embeddings, vectorIndex });
+        return new EpisodicMemory(storage, index);
+    }
 }
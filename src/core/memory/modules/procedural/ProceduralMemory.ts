@@ -1,16 +1,81 @@
 import { LongTermMemory } from '../../LongTermMemory';
 import { IMemoryStorage, IMemoryIndex } from '../../storage';
 import { MemoryType, MemoryFilter } from '../../base';
-import { IProceduralMemoryUnit, ProceduralMetadata } from './types';
+import { IProceduralMemoryUnit, ProceduralMetadata, ProceduralStepResult } from './types';
+import { evaluateCondition, renderTemplate } from './templates';
+import type { Tool } from '../../../Tool';
+import type { AgentRunResult } from '../../../AgentRun';
 import crypto from 'crypto';
 import { z } from 'zod';
 
 /**
- * Interface for procedural actions
+ * Interface for procedural actions. String params may contain `{{inputs.<name>}}`
+ * and `{{steps.<id>.output}}` (or `.data` for structured output) placeholders.
  */
 export interface ProceduralAction {
     type: string;
     params: Record<string, any>;
+    /** Name later steps use to reference this step (defaults to its index) */
+    id?: string;
+    /** Registered tool invoked by 'tool' actions */
+    tool?: string;
+    /** Only run the step when this holds, e.g. "{{steps.check.output}} == open" */
+    when?: string;
+    /** Record a failure of this step but keep executing the procedure */
+    continueOnError?: boolean;
+}
+
+export const proceduralActionSchema = z.object({
+    type: z.string(),
+    params: z.record(z.any()),
+    id: z.string().optional(),
+    tool: z.string().optional(),
+    when: z.string().optional(),
+    continueOnError: z.boolean().optional()
+});
+
+export const procedureSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    actions: z.array(proceduralActionSchema)
+});
+
+export type Procedure = z.infer<typeof procedureSchema>;
+
+/**
+ * What an action handler can see of the running procedure
+ */
+export interface ProceduralActionContext {
+    inputs: Record<string, any>;
+    /** Results of earlier steps by id and by index */
+    steps: Record<string, { status: ProceduralStepResult['status']; output?: string; data?: any; error?: string }>;
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs one action with its rendered params; the returned value becomes the step output
+ */
+export type ProceduralActionHandler = (
+    action: ProceduralAction,
+    params: Record<string, any>,
+    context: ProceduralActionContext
+) => Promise<any>;
+
+export interface ProcedureExecution {
+    memoryId: string;
+    success: boolean;
+    steps: ProceduralStepResult[];
+    /** Error of the step that stopped the procedure */
+    error?: string;
+}
+
+export interface LearnProcedureOptions {
+    name?: string;
+    description?: string;
+    /** Values from the run that become parameters, e.g. { city: 'Lisbon' } turns "Lisbon" into {{inputs.city}} */
+    inputs?: Record<string, string>;
+    applicableContext?: string[];
+    expectedOutcomes?: string[];
 }
 
 /**
@@ -18,8 +83,38 @@ export interface ProceduralAction {
  * that can be executed without conscious recall
  */
 export class ProceduralMemory extends LongTermMemory<IProceduralMemoryUnit> {
+    private actionHandlers = new Map<string, ProceduralActionHandler>();
+
     constructor(storage: IMemoryStorage, index: IMemoryIndex) {
         super(storage, index, MemoryType.PROCEDURAL);
+        this.registerActionHandler('delay', async (_, params) => {
+            await new Promise(resolve => setTimeout(resolve, params.duration));
+        });
+        this.registerActionHandler('log', async (_, params) => {
+            console.log(params.message);
+            return params.message;
+        });
+    }
+
+    /**
+     * Add or replace the handler for an action type
+     */
+    public registerActionHandler(type: string, handler: ProceduralActionHandler): void {
+        this.actionHandlers.set(type, handler);
+    }
+
+    /**
+     * Let 'tool' actions invoke tools looked up by name, with the action's
+     * rendered params as tool input
+     */
+    public useTools(resolve: (name: string) => Tool<any, any, any> | undefined): void {
+        this.registerActionHandler('tool', async (action, params, context) => {
+            const tool = action.tool ? resolve(action.tool) : undefined;
+            if (!tool) {
+                throw new Error(`Tool "${action.tool}" is not registered`);
+            }
+            return tool.run(params, { signal: context.signal });
+        });
     }
 
     /**
@@ -76,38 +171,169 @@ export class ProceduralMemory extends LongTermMemory<IProceduralMemoryUnit> {
     }
 
     /**
-     * Execute a procedural memory's action sequence
+     * Execute a procedural memory's action sequence. Steps run in order; a
+     * failing step stops the procedure (unless it has `continueOnError`) and the
+     * remaining steps are skipped. The outcome of every step is recorded in the
+     * unit's metadata (`lastRun`, `stepStats`) next to the overall counts.
      */
-    public async execute(memoryId: string): Promise<boolean> {
+    public async execute(
+        memoryId: string,
+        inputs: Record<string, any> = {},
+        options: { signal?: AbortSignal } = {}
+    ): Promise<ProcedureExecution> {
         const memory = await this.retrieve(memoryId);
         if (!memory) {
             throw new Error('Procedural memory not found');
         }
 
-        const actions = memory.content.actions;
-        try {
-            for (const action of actions) {
-                await this.executeAction(action);
+        const context: ProceduralActionContext = { inputs, steps: {}, signal: options.signal };
+        const scope = { inputs, steps: context.steps };
+        const steps: ProceduralStepResult[] = [];
+        let error: string | undefined;
+
+        for (const [index, action] of this.actionsOf(memory).entries()) {
+            const step: ProceduralStepResult = {
+                index, id: action.id, type: action.type, tool: action.tool, status: 'skipped', durationMs: 0
+            };
+            steps.push(step);
+            if (error !== undefined || (action.when && !evaluateCondition(action.when, scope))) {
+                this.recordStep(context, step);
+                continue;
+            }
+
+            const started = Date.now();
+            try {
+                if (options.signal?.aborted) {
+                    throw new Error('Procedure execution aborted');
+                }
+                const result = await this.executeAction(action, renderTemplate(action.params ?? {}, scope), context);
+                step.status = 'success';
+                step.output = this.outputText(result);
+                this.recordStep(context, step, typeof result?.getTypedContent === 'function' ? result.getTypedContent() : result);
+            } catch (caught) {
+                step.status = 'failure';
+                step.error = caught instanceof Error ? caught.message : String(caught);
+                this.recordStep(context, step);
+                if (!action.continueOnError) {
+                    error = `Step ${action.id ?? index} failed: ${step.error}`;
+                }
+            }
+            step.durationMs = Date.now() - started;
+        }
+
+        await this.recordExecution(memory, steps, error === undefined);
+        return { memoryId, success: error === undefined, steps, ...(error !== undefined ? { error } : {}) };
+    }
+
+    /**
+     * Store the tool calls of a successful multi-tool run as a procedure.
+     * Arguments that repeat an earlier tool's output are linked to that step,
+     * and the values named in `options.inputs` become procedure inputs.
+     */
+    public async learnFromRun(run: AgentRunResult, options: LearnProcedureOptions = {}): Promise<IProceduralMemoryUnit> {
+        if (run.status !== 'completed') {
+            throw new Error(`Run ${run.runId} did not complete (${run.status})`);
+        }
+
+        const actions: ProceduralAction[] = [];
+        const outputs: { id: string; content: string }[] = [];
+        const used = new Set<number>();
+        for (const act of run.steps.filter(step => step.type === 'act' && step.toolName)) {
+            const observation = run.steps.find(step =>
+                step.type === 'observe' && !used.has(step.index) && step.index > act.index &&
+                (act.toolCallId ? step.toolCallId === act.toolCallId : step.toolName === act.toolName));
+            if (!observation || observation.status !== 'success') continue;
+            used.add(observation.index);
+
+            const id = `step${actions.length + 1}`;
+            actions.push({
+                type: 'tool',
+                id,
+                tool: act.toolName,
+                params: this.parameterize(act.arguments ?? {}, outputs, options.inputs ?? {})
+            });
+            outputs.push({ id, content: (observation.content ?? '').trim() });
+        }
+        if (actions.length < 2) {
+            throw new Error(`Run ${run.runId} has fewer than two successful tool calls to learn from`);
+        }
+
+        const procedure: Procedure = {
+            name: options.name ?? actions.map(action => action.tool).join(' -> '),
+            ...(options.description ? { description: options.description } : {}),
+            actions
+        };
+        const unit = this.createMemoryUnit(procedure, procedureSchema, new Map<string, any>([
+            ['applicableContext', options.applicableContext ?? [procedure.name]],
+            ['expectedOutcomes', options.expectedOutcomes ?? (run.answer ? [run.answer] : [])]
+        ]));
+        unit.metadata.set('learnedFrom', run.runId);
+        await this.store(unit);
+        return unit;
+    }
+
+    private parameterize(value: any, outputs: { id: string; content: string }[], inputs: Record<string, string>): any {
+        if (typeof value === 'string') {
+            const output = [...outputs].reverse().find(candidate => candidate.content !== '' && candidate.content === value.trim());
+            if (output) {
+                return `{{steps.${output.id}.output}}`;
             }
+            return Object.entries(inputs)
+                .filter(([, example]) => example !== '')
+                .reduce((text, [name, example]) => text.split(example).join(`{{inputs.${name}}}`), value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.parameterize(item, outputs, inputs));
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.parameterize(item, outputs, inputs)]));
+        }
+        return value;
+    }
+
+    // Units created from a string keep the JSON in both content and procedure
+    private actionsOf(memory: IProceduralMemoryUnit): ProceduralAction[] {
+        const content = typeof memory.content === 'string' ? JSON.parse(memory.procedure) : memory.content;
+        return Array.isArray(content?.actions) ? content.actions : [];
+    }
 
-            // Update success metrics
-            const metadata = memory.metadata;
-            metadata.set('successCount', metadata.get('successCount') + 1);
-            metadata.set('lastExecuted', new Date());
-            await this.storage.update(memory);
-
-            return true;
-        } catch (error) {
-            // Update failure metrics
-            const metadata = memory.metadata;
-            metadata.set('failureCount', metadata.get('failureCount') + 1);
-            metadata.set('lastExecuted', new Date());
-            await this.storage.update(memory);
-
-            throw error;
+    private outputText(result: any): string | undefined {
+        if (result === undefined || result === null) return undefined;
+        if (typeof result.getContent === 'function') return result.getContent();
+        return typeof result === 'string' ? result : JSON.stringify(result);
+    }
+
+    private recordStep(context: ProceduralActionContext, step: ProceduralStepResult, data?: any): void {
+        const entry = { status: step.status, output: step.output, data: data ?? step.output, error: step.error };
+        context.steps[String(step.index)] = entry;
+        if (step.id) {
+            context.steps[step.id] = entry;
         }
     }
 
+    private async recordExecution(memory: IProceduralMemoryUnit, steps: ProceduralStepResult[], success: boolean): Promise<void> {
+        const metadata = memory.metadata;
+        const counter = success ? 'successCount' : 'failureCount';
+        metadata.set(counter, (metadata.get(counter) ?? 0) + 1);
+        const total = metadata.get('successCount') + metadata.get('failureCount');
+        metadata.set('proficiency', total > 0 ? metadata.get('successCount') / total : 0);
+        metadata.set('lastExecuted', new Date());
+        metadata.set('lastRun', steps);
+
+        const stats = { ...(metadata.get('stepStats') ?? {}) };
+        for (const step of steps.filter(step => step.status !== 'skipped')) {
+            const key = step.id ?? String(step.index);
+            const current = stats[key] ?? { successCount: 0, failureCount: 0 };
+            stats[key] = step.status === 'success'
+                ? { ...current, successCount: current.successCount + 1 }
+                : { ...current, failureCount: current.failureCount + 1 };
+        }
+        metadata.set('stepStats', stats);
+
+        this.cache.delete(memory.id);
+        await this.storage.update(memory);
+    }
+
     /**
      * Validate the action sequence format
      */
@@ -119,19 +345,14 @@ export class ProceduralMemory extends LongTermMemory<IProceduralMemoryUnit> {
     }
 
     /**
-     * Execute a single action
+     * Execute a single action with the handler registered for its type
      */
-    private async executeAction(action: ProceduralAction): Promise<void> {
-        switch (action.type) {
-            case 'delay':
-                await new Promise(resolve => setTimeout(resolve, action.params.duration));
-                break;
-            case 'log':
-                console.log(action.params.message);
-                break;
-            default:
-                throw new Error(`Unknown action type: ${action.type}`);
+    private async executeAction(action: ProceduralAction, params: Record<string, any>, context: ProceduralActionContext): Promise<any> {
+        const handler = this.actionHandlers.get(action.type);
+        if (!handler) {
+            throw new Error(`Unknown action type: ${action.type}`);
         }
+        return handler(action, params, context);
     }
 
     isMemoryUnitOfType(unit: any): unit is IProceduralMemoryUnit {
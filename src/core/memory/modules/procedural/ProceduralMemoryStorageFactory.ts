@@ -1,16 +1,28 @@
 import { InMemoryStorage } from '../../storage/InMemoryStorage';
 import { InMemoryIndex } from '../../storage/InMemoryIndex';
+import { openSqliteMemory } from '../../storage/SqliteMemory';
+import { VectorSearchOptions } from '../../storage/VectorIndex';
 import { ProceduralMemory } from './ProceduralMemory';
 
 /**
  * Factory for creating procedural memory with appropriate storage
  */
 export class ProceduralMemoryStorageFactory {
-    static create(options: { maxCapacity?: number } = {}): ProceduralMemory {
-        const { maxCapacity = 1000 } = options;
-        const storage = new InMemoryStorage(maxCapacity);
+    static create(options: { maxCapacity?: number } & VectorSearchOptions = {}): ProceduralMemory {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+
+        const storage = new InMemoryStorage(maxCapacity, { embeddings, vectorIndex });
         const index = new InMemoryIndex();
         
         return new ProceduralMemory(storage, index);
     }
+
+    /**
+     * Create procedural memory kept in a SQLite database (via `bun:sqlite`), so it survives restarts
+     */
+    static async open(sqlitePath: string, options: { maxCapacity?: number } & VectorSearchOptions = {}): Promise<ProceduralMemory> {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+        const { storage, index } = await openSqliteMemory(sqlitePath, 'procedural', { maxCapacity, embeddings, vectorIndex });
+        return new ProceduralMemory(storage, index);
+    }
 }
@@ -0,0 +1,56 @@
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+const FALSY = new Set(['', 'false', '0', 'null', 'undefined', 'no']);
+
+/**
+ * Look up a dotted path such as `steps.search.data.results` in the scope
+ */
+export function resolvePath(scope: Record<string, any>, path: string): any {
+    return path.split('.').reduce<any>((value, key) => value == null ? undefined : value[key], scope);
+}
+
+/**
+ * Fill `{{path}}` placeholders in strings, arrays and plain objects. A string
+ * that is exactly one placeholder is replaced by the raw value (so objects and
+ * numbers keep their type); placeholders inside longer strings are inserted as text.
+ */
+export function renderTemplate(value: any, scope: Record<string, any>): any {
+    if (typeof value === 'string') {
+        const whole = value.match(WHOLE_PLACEHOLDER);
+        if (whole) {
+            return resolvePath(scope, whole[1]);
+        }
+        return value.replace(PLACEHOLDER, (_, path: string) => stringify(resolvePath(scope, path)));
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => renderTemplate(item, scope));
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, scope)]));
+    }
+    return value;
+}
+
+/**
+ * Evaluate a step condition: either a single template that must be truthy,
+ * or `left == right` / `left != right` compared as trimmed text
+ */
+export function evaluateCondition(condition: string, scope: Record<string, any>): boolean {
+    const comparison = condition.match(/^(.*?)\s*(==|!=)\s*(.*)$/);
+    if (comparison) {
+        const [, left, operator, right] = comparison;
+        const equal = stringify(renderTemplate(left.trim(), scope)).trim() === stringify(renderTemplate(right.trim(), scope)).trim();
+        return operator === '==' ? equal : !equal;
+    }
+
+    const value = renderTemplate(condition.trim(), scope);
+    if (typeof value === 'string') {
+        return !FALSY.has(value.trim().toLowerCase());
+    }
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: any): string {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -14,6 +14,10 @@ export interface ProceduralMetadata extends Map<string, any> {
     failureCount: number;
     /** Last execution timestamp */
     lastExecuted?: Date;
+    /** Outcome of every step in the last execution */
+    lastRun?: ProceduralStepResult[];
+    /** Success and failure counts per step, keyed by step id (or index) */
+    stepStats?: Record<string, { successCount: number; failureCount: number }>;
 }
 
 /**
@@ -28,3 +32,18 @@ export interface IProceduralMemoryUnit extends IMemoryUnit {
     /** Context in which this procedure is applicable */
     applicableContext: string[];
 }
+
+/**
+ * Outcome of one step of a procedure execution
+ */
+export interface ProceduralStepResult {
+    index: number;
+    id?: string;
+    type: string;
+    tool?: string;
+    status: 'success' | 'failure' | 'skipped';
+    /** Text output, available to later steps as {{steps.<id>.output}} */
+    output?: string;
+    error?: string;
+    durationMs: number;
+}
@@ -0,0 +1,107 @@
+import { IMemoryEventHandler, MemoryEvent, MemoryEventType } from '../../events';
+import { SemanticMemory } from './SemanticMemory';
+import { FactExtraction, FactExtractor } from './nlp/FactExtractor';
+import { withTags } from '../../../Logger';
+import { loggers, Tags } from '../../logging';
+
+const EXTRACTION_SOURCE = 'llm-extraction';
+
+/**
+ * Extracts entities, relations and facts from the transcripts emitted by
+ * SemanticExtractionMonitor and writes them to semantic memory, merging with
+ * concepts already known and expiring facts that were superseded.
+ */
+export class SemanticExtractionHandler implements IMemoryEventHandler {
+    private logger = loggers.eventhandler;
+
+    constructor(
+        private readonly semanticMemory: SemanticMemory,
+        private readonly extractor: FactExtractor,
+        private readonly minConfidence: number = 0.5
+    ) {}
+
+    /**
+     * Handle memory events. Events are dispatched without awaiting the handler,
+     * so errors are logged here instead of being thrown.
+     */
+    async onEvent(event: MemoryEvent): Promise<void> {
+        if (event.type !== 'semantic:extract:entities') return;
+
+        const sessionId = event.metadata?.get('sessionId') as string | undefined;
+        const transcript = event.metadata?.get('transcript') as string | undefined;
+        const subjectId = event.metadata?.get('subjectId') as string | undefined;
+        if (!transcript) return;
+
+        try {
+            const extraction = await this.extractor.extract(transcript, sessionId);
+            await this.integrate(extraction, subjectId);
+            this.logger.debug(
+                '[Handler:SemanticExtraction] Integrated %d entities, %d relations and %d facts',
+                withTags([Tags.Semantic], { sessionId }),
+                extraction.entities.length,
+                extraction.relations.length,
+                extraction.facts.length
+            );
+        } catch (error) {
+            this.logger.error(
+                '[Handler:SemanticExtraction] Error integrating extracted knowledge:',
+                withTags([Tags.Semantic], { sessionId, error }),
+                error
+            );
+        }
+    }
+
+    /**
+     * Get event types this handler can process
+     */
+    canHandleEventTypes(): MemoryEventType[] {
+        return ['semantic:extract:entities'];
+    }
+
+    private async integrate(extraction: FactExtraction, subjectId?: string): Promise<void> {
+        const confident = <T extends { confidence: number }>(items: T[]) =>
+            items.filter(item => item.confidence >= this.minConfidence);
+
+        const conceptIds = new Map<string, string>();
+        for (const entity of confident(extraction.entities)) {
+            const concept = await this.semanticMemory.upsertConcept(
+                entity.name,
+                entity.type,
+                new Map(Object.entries(entity.properties ?? {})),
+                entity.confidence,
+                EXTRACTION_SOURCE,
+                subjectId
+            );
+            conceptIds.set(entity.name, concept.id);
+        }
+
+        // Relations may name entities the model did not list separately
+        const conceptId = async (name: string, confidence: number) => {
+            if (!conceptIds.has(name)) {
+                const concept = await this.semanticMemory.upsertConcept(name, 'entity', new Map(), confidence, EXTRACTION_SOURCE, subjectId);
+                conceptIds.set(name, concept.id);
+            }
+            return conceptIds.get(name)!;
+        };
+        for (const relation of confident(extraction.relations)) {
+            const sourceId = await conceptId(relation.source, relation.confidence);
+            const targetId = await conceptId(relation.target, relation.confidence);
+            await this.semanticMemory.upsertRelation(sourceId, targetId, relation.type, relation.confidence, subjectId);
+        }
+
+        for (const fact of confident(extraction.facts)) {
+            const validAt = fact.validFrom ? new Date(fact.validFrom) : undefined;
+            await this.semanticMemory.assertFact({
+                subject: fact.subject,
+                predicate: fact.predicate,
+                object: fact.object,
+                statement: fact.statement,
+                exclusive: fact.exclusive,
+                validAt: validAt && !isNaN(validAt.getTime()) ? validAt : undefined,
+                confidence: fact.confidence,
+                source: EXTRACTION_SOURCE,
+                subjectId
+            });
+        }
+    }
+}
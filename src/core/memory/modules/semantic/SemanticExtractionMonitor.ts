@@ -0,0 +1,116 @@
+import { Observable } from 'rxjs';
+import { AbstractMemoryMonitor } from '../../AbstractMemoryMonitor';
+import { MonitorConfig, MonitorSignalType } from '../../monitors';
+import { MemoryEvent } from '../../events';
+import { EphemeralMemory } from '../ephemeral/EphemeralMemory';
+import { withTags } from '../../../Logger';
+import { loggers, Tags } from '../../logging';
+
+export interface SemanticExtractionMonitorConfig {
+    maxMessages: number;  // Most recent unprocessed messages per session sent for extraction
+}
+
+/**
+ * Collects the conversation messages added since the previous assistant turn
+ * and emits one 'semantic:extract:entities' event per session, carrying the
+ * transcript to extract knowledge from.
+ *
+ * Tool calls and tool results are left out; the assistant's answer already
+ * states what it learned from them.
+ */
+export class SemanticExtractionMonitor extends AbstractMemoryMonitor {
+    protected logger = loggers.monitor;
+    private processed = new Set<string>();
+
+    constructor(
+        id: string,
+        private readonly ephemeralMemory: EphemeralMemory,
+        private readonly monitorConfig: SemanticExtractionMonitorConfig = { maxMessages: 10 }
+    ) {
+        const transitionConfig: MonitorConfig = {
+            enabled: true,
+            signal: MonitorSignalType.ASSISTANT_TURN_END,
+            priority: 1,
+            signalConfig: {}
+        };
+        super(id, transitionConfig);
+    }
+
+    /**
+     * Called by TransitionManager at the end of every assistant turn
+     */
+    public monitor(): Observable<MemoryEvent> {
+        return new Observable<MemoryEvent>(subscriber => {
+            this.collectTranscripts()
+                .then(transcripts => {
+                    for (const [sessionId, { transcript, subjectId }] of transcripts) {
+                        this.logger.debug(
+                            `[Monitor:${this.id}] Requesting extraction for session ${sessionId}`,
+                            withTags([Tags.Semantic], { monitorId: this.id, sessionId })
+                        );
+                        subscriber.next({
+                            type: 'semantic:extract:entities',
+                            memory: null,
+                            timestamp: new Date(),
+                            metadata: new Map<string, any>([
+                                ['sessionId', sessionId],
+                                ['transcript', transcript],
+                                ['subjectId', subjectId],
+                                ['monitor', this.id]
+                            ])
+                        });
+                    }
+                    subscriber.complete();
+                })
+                .catch(error => {
+                    this.logger.error(
+                        `[Monitor:${this.id}] Error in monitor:`,
+                        withTags([Tags.Semantic], { monitorId: this.id, error })
+                    );
+                    subscriber.error(error);
+                });
+        });
+    }
+
+    /**
+     * Transcripts of the sessions whose latest message is an assistant answer;
+     * sessions still waiting for one are picked up at a later turn end. The
+     * subject is the user the messages were tagged with.
+     */
+    private async collectTranscripts(): Promise<Map<string, { transcript: string; subjectId?: string }>> {
+        const items = await this.ephemeralMemory.getAll();
+
+        // Forget ids that have left ephemeral memory so the set stays bounded
+        const present = new Set(items.map(item => item.id));
+        for (const id of this.processed) {
+            if (!present.has(id)) this.processed.delete(id);
+        }
+
+        const sessions = new Map<string, typeof items>();
+        for (const item of items) {
+            const sessionId = item.metadata.get('sessionId');
+            if (!sessionId || this.processed.has(item.id)) continue;
+            sessions.set(sessionId, [...(sessions.get(sessionId) ?? []), item]);
+        }
+
+        const transcripts = new Map<string, { transcript: string; subjectId?: string }>();
+        for (const [sessionId, pending] of sessions) {
+            const messages = pending.filter(item =>
+                (item.metadata.get('role') === 'user' || item.metadata.get('role') === 'assistant') &&
+                !item.metadata.get('tool_calls') &&
+                String(item.content ?? '').trim() !== ''
+            );
+            if (messages.length === 0 || messages[messages.length - 1].metadata.get('role') !== 'assistant') continue;
+
+            pending.forEach(item => this.processed.add(item.id));
+            const recent = messages.slice(-this.monitorConfig.maxMessages);
+            transcripts.set(sessionId, {
+                transcript: recent
+                    .map(item => `${item.metadata.get('role') === 'user' ? 'User' : 'Assistant'}: ${String(item.content).trim()}`)
+                    .join('\n'),
+                subjectId: recent.find(item => item.metadata.get('subjectId'))?.metadata.get('subjectId')
+            });
+        }
+        return transcripts;
+    }
+}
@@ -1,10 +1,11 @@
 import { 
+    IMemoryUnit,
     MemoryType,
     MemoryFilter,
 } from '../../base';
 import { DeclarativeMemory } from '../../DeclarativeMemory';
 import { IMemoryStorage, IMemoryIndex } from '../../storage';
-import { ISemanticMemoryUnit, ConceptNode, ConceptRelation, RelationType, createSemanticMetadata } from './types';
+import { ISemanticMemoryUnit, ConceptNode, ConceptRelation, RelationType, SemanticContentType, SemanticFact, createSemanticMetadata, isSemanticContent, isStoredRelation, semanticContentType } from './types';
 import { SemanticMemoryFactory } from './SemanticMemoryFactory';
 import crypto from 'crypto';
 import { z } from 'zod';
@@ -149,6 +150,213 @@ export class SemanticMemory extends DeclarativeMemory {
         return relation;
     }
 
+    /**
+     * Add a concept, or refresh the current concept of the same name (ignoring
+     * case and spacing) by merging in the new properties. `subjectId` tags the
+     * concept with the user it was learned from, and its properties with the
+     * user who supplied their current value (see forgetSubject()).
+     */
+    public async upsertConcept(
+        name: string,
+        type: string,
+        properties: Map<string, any> = new Map(),
+        confidence: number = 1.0,
+        source: string = 'direct-input',
+        subjectId?: string
+    ): Promise<ConceptNode> {
+        const existing = (await this.currentUnits('concept'))
+            .find(unit => this.normalize((unit.content as ConceptNode).name) === this.normalize(name));
+        if (existing) {
+            const concept = existing.content as ConceptNode;
+            const current = this.toMap(concept.properties);
+            this.recordPropertySubjects(existing, current, properties, subjectId);
+            concept.properties = new Map([...current, ...properties]);
+            concept.confidence = Math.max(concept.confidence ?? 0, confidence);
+            concept.lastVerified = new Date();
+            this.addSubject(existing, subjectId);
+            await this.updateUnit(existing);
+            this.conceptGraph.set(concept.id, concept);
+            return concept;
+        }
+
+        const unit = this.constructMemoryUnit({
+            id: crypto.randomUUID(),
+            type: 'concept',
+            name,
+            conceptType: type,
+            confidence,
+            source,
+            lastVerified: new Date(),
+            properties
+        }, this.subjectMetadata(subjectId));
+        this.recordPropertySubjects(unit, new Map(), properties, subjectId);
+        const concept = unit.content as ConceptNode;
+        this.conceptGraph.set(concept.id, concept);
+        await this.store(unit);
+        return concept;
+    }
+
+    /**
+     * Add a relation between concepts unless the same one is already known
+     */
+    public async upsertRelation(
+        sourceId: string,
+        targetId: string,
+        type: RelationType,
+        confidence: number = 1.0,
+        subjectId?: string
+    ): Promise<ConceptRelation> {
+        const existing = (await this.currentUnits('relation')).find(unit => isStoredRelation(unit.content) &&
+            unit.content.sourceId === sourceId && unit.content.targetId === targetId && unit.content.relationType === type);
+        if (existing) {
+            const relation = existing.content as ConceptRelation;
+            relation.confidence = Math.max(relation.confidence ?? 0, confidence);
+            this.addSubject(existing, subjectId);
+            await this.updateUnit(existing);
+            return relation;
+        }
+
+        const unit = this.constructMemoryUnit({
+            id: crypto.randomUUID(),
+            type: 'relation',
+            sourceId,
+            targetId,
+            relationType: type,
+            weight: 1.0,
+            confidence,
+            properties: new Map()
+        }, this.subjectMetadata(subjectId));
+        const relation = unit.content as ConceptRelation;
+        this.relationGraph.set(relation.id, relation);
+        await this.store(unit);
+        return relation;
+    }
+
+    /**
+     * Record a fact. A fact already known with the same object is only marked as
+     * verified again. For an exclusive fact, the current fact with the same
+     * subject and predicate but another object is superseded (see supersede()):
+     * it gets `expiredAt` (when the agent learned otherwise) and `invalidAt`
+     * (when it stopped being true), and history() lists both versions.
+     * Facts learned from a user (`subjectId`) are only compared with that
+     * user's facts.
+     */
+    public async assertFact(fact: SemanticFact): Promise<ISemanticMemoryUnit> {
+        const now = new Date();
+        const validAt = fact.validAt ?? now;
+        const current = (await this.currentUnits('fact')).filter(unit => {
+            const properties = this.toMap(unit.content.properties);
+            return unit.metadata.get('subjectIds')?.[0] === fact.subjectId &&
+                this.normalize(properties.get('subject')) === this.normalize(fact.subject) &&
+                this.normalize(properties.get('predicate')) === this.normalize(fact.predicate);
+        });
+
+        const same = current.find(unit =>
+            this.normalize(this.toMap(unit.content.properties).get('object')) === this.normalize(fact.object));
+        if (same) {
+            const content = same.content as ConceptNode;
+            content.lastVerified = now;
+            content.confidence = Math.max(content.confidence ?? 0, fact.confidence ?? 1.0);
+            await this.updateUnit(same);
+            return same;
+        }
+
+        const content = {
+            id: crypto.randomUUID(),
+            type: 'fact',
+            name: fact.statement,
+            confidence: fact.confidence ?? 1.0,
+            source: fact.source ?? 'direct-input',
+            lastVerified: now,
+            properties: new Map<string, any>([
+                ['subject', fact.subject],
+                ['predicate', fact.predicate],
+                ['object', fact.object]
+            ])
+        };
+        if (fact.exclusive && current.length > 0) {
+            // Duplicates left by earlier non-exclusive assertions are expired as well
+            for (const unit of current.slice(1)) {
+                unit.expiredAt = now;
+                unit.invalidAt = validAt;
+                await this.updateUnit(unit);
+            }
+            return await this.supersede(current[0].id, content, { validAt }) as ISemanticMemoryUnit;
+        }
+
+        const unit = this.constructMemoryUnit(content, this.subjectMetadata(fact.subjectId));
+        unit.validAt = validAt;
+        await this.store(unit);
+        return unit;
+    }
+
+    /**
+     * Units of the given content type that have not been superseded
+     */
+    private async currentUnits(type: SemanticContentType): Promise<ISemanticMemoryUnit[]> {
+        const now = new Date();
+        const units = await this.retrieveByFilter({ types: [MemoryType.SEMANTIC], asOf: { systemTime: now, validTime: now } });
+        return units.filter(unit => semanticContentType(unit.content) === type);
+    }
+
+    private subjectMetadata(subjectId?: string): Map<string, any> | undefined {
+        return subjectId ? new Map([['subjectIds', [subjectId]]]) : undefined;
+    }
+
+    // Knowledge that predates any subject stays untagged, so forgetting a user never removes it
+    private addSubject(unit: ISemanticMemoryUnit, subjectId?: string): void {
+        const subjects: string[] | undefined = unit.metadata.get('subjectIds');
+        if (subjectId && subjects && !subjects.includes(subjectId)) {
+            unit.metadata.set('subjectIds', [...subjects, subjectId]);
+        }
+    }
+
+    /**
+     * Track in `propertySubjects` which users supplied the current value of each
+     * property. A value given without a subject is no longer attributed to anyone.
+     */
+    private recordPropertySubjects(
+        unit: ISemanticMemoryUnit,
+        current: Map<string, any>,
+        properties: Map<string, any>,
+        subjectId?: string
+    ): void {
+        const bySubject: Record<string, string[]> = { ...(unit.metadata.get('propertySubjects') ?? {}) };
+        for (const [key, value] of properties) {
+            const unchanged = current.has(key) && JSON.stringify(current.get(key)) === JSON.stringify(value);
+            if (!subjectId) {
+                delete bySubject[key];
+            } else if (!unchanged) {
+                bySubject[key] = [subjectId];
+            } else if (bySubject[key] && !bySubject[key].includes(subjectId)) {
+                bySubject[key] = [...bySubject[key], subjectId];
+            }
+        }
+        this.setPropertySubjects(unit, bySubject);
+    }
+
+    private setPropertySubjects(unit: ISemanticMemoryUnit, bySubject: Record<string, string[]>): void {
+        if (Object.keys(bySubject).length > 0) {
+            unit.metadata.set('propertySubjects', bySubject);
+        } else {
+            unit.metadata.delete('propertySubjects');
+        }
+    }
+
+    private async updateUnit(unit: ISemanticMemoryUnit): Promise<void> {
+        this.cache.delete(unit.id);
+        await this.storage.update(unit);
+    }
+
+    private normalize(value: unknown): string {
+        return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+    }
+
+    // Properties read back from storage may be plain objects
+    private toMap(properties: Map<string, any> | Record<string, any> | undefined): Map<string, any> {
+        return properties instanceof Map ? properties : new Map(Object.entries(properties ?? {}));
+    }
+
     /**
      * Retrieve memory by ID
      */
@@ -184,6 +392,88 @@ export class SemanticMemory extends DeclarativeMemory {
         return memories.map(memory => memory.content as ConceptRelation);
     }
 
+    /**
+     * Concepts and relations added through this instance
+     */
+    public getConceptGraph(): { concepts: ConceptNode[]; relations: ConceptRelation[] } {
+        return {
+            concepts: Array.from(this.conceptGraph.values()),
+            relations: Array.from(this.relationGraph.values())
+        };
+    }
+
+    /**
+     * Add concepts and relations to the graph, e.g. from a snapshot
+     */
+    public restoreConceptGraph(concepts: ConceptNode[], relations: ConceptRelation[]): void {
+        for (const concept of concepts) {
+            this.conceptGraph.set(concept.id, concept);
+        }
+        for (const relation of relations) {
+            this.relationGraph.set(relation.id, relation);
+        }
+    }
+
+    /**
+     * Also removes the subject's concepts from the concept graph, along with
+     * relations left pointing at a removed concept. Concepts that are kept lose
+     * the properties only this subject supplied.
+     */
+    async forgetSubject(subjectId: string, sessionIds: Set<string> = new Set()): Promise<IMemoryUnit[]> {
+        const removed = await super.forgetSubject(subjectId, sessionIds);
+        const gone = new Set(removed.map(unit => unit.content).filter(isSemanticContent).map(content => content.id));
+        for (const unit of await this.getAll()) {
+            const relation = unit.content;
+            if (isStoredRelation(relation) && (gone.has(relation.sourceId) || gone.has(relation.targetId))) {
+                await this.delete(unit.id);
+                removed.push(unit);
+                gone.add(relation.id);
+            } else if (this.isMemoryUnitOfType(unit) && unit.metadata.get('propertySubjects')) {
+                await this.forgetProperties(unit, subjectId);
+            }
+        }
+
+        for (const id of this.conceptGraph.keys()) {
+            if (gone.has(id)) this.conceptGraph.delete(id);
+        }
+        for (const [id, relation] of this.relationGraph) {
+            if (gone.has(id) || gone.has(relation.sourceId) || gone.has(relation.targetId)) this.relationGraph.delete(id);
+        }
+        return removed;
+    }
+
+    private async forgetProperties(unit: ISemanticMemoryUnit, subjectId: string): Promise<void> {
+        const bySubject: Record<string, string[]> = { ...unit.metadata.get('propertySubjects') };
+        const concept = unit.content as ConceptNode;
+        const properties = this.toMap(concept.properties);
+        let changed = false;
+        for (const [key, subjects] of Object.entries(bySubject)) {
+            if (!subjects.includes(subjectId)) continue;
+            const remaining = subjects.filter(id => id !== subjectId);
+            if (remaining.length > 0) {
+                bySubject[key] = remaining;
+            } else {
+                delete bySubject[key];
+                properties.delete(key);
+            }
+            changed = true;
+        }
+        if (!changed) return;
+
+        concept.properties = properties;
+        this.setPropertySubjects(unit, bySubject);
+        await this.updateUnit(unit);
+        if (this.conceptGraph.has(concept.id)) {
+            this.conceptGraph.set(concept.id, concept);
+        }
+    }
+
+    async clear(): Promise<void> {
+        await super.clear();
+        this.conceptGraph.clear();
+        this.relationGraph.clear();
+    }
+
     isMemoryUnitOfType(unit: any): unit is ISemanticMemoryUnit {
         return unit && 
                typeof unit === 'object' && 
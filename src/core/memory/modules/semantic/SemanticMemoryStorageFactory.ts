@@ -1,16 +1,28 @@
 import { InMemoryStorage } from '../../storage/InMemoryStorage';
 import { InMemoryIndex } from '../../storage/InMemoryIndex';
+import { openSqliteMemory } from '../../storage/SqliteMemory';
+import { VectorSearchOptions } from '../../storage/VectorIndex';
 import { SemanticMemory } from './SemanticMemory';
 
 /**
  * Factory for creating semantic memory with appropriate storage
  */
 export class SemanticMemoryStorageFactory {
-    static create(options: { maxCapacity?: number } = {}): SemanticMemory {
-        const { maxCapacity = 1000 } = options;
-        const storage = new InMemoryStorage(maxCapacity);
+    static create(options: { maxCapacity?: number } & VectorSearchOptions = {}): SemanticMemory {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+
+        const storage = new InMemoryStorage(maxCapacity, { embeddings, vectorIndex });
         const index = new InMemoryIndex();
         
         return new SemanticMemory(storage, index);
     }
+
+    /**
+     * Create semantic memory kept in a SQLite database (via `bun:sqlite`), so it survives restarts
+     */
+    static async open(sqlitePath: string, options: { maxCapacity?: number } & VectorSearchOptions = {}): Promise<SemanticMemory> {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+        const { storage, index } = await openSqliteMemory(sqlitePath, 'semantic', { maxCapacity, embeddings, vectorIndex });
+        return new SemanticMemory(storage, index);
+    }
 }
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { LLMChatRequest, LLMChatResponse, LLMProvider } from '../../../../llm/LLMProvider';
+import { StructuredOutputValidator } from '../../../../StructuredOutput';
+import { withTags } from '../../../../Logger';
+import { loggers, Tags } from '../../../logging';
+import { RelationType } from '../types';
+
+const relationTypes = Object.values(RelationType) as [RelationType, ...RelationType[]];
+
+export const factExtractionSchema = z.object({
+    entities: z.array(z.object({
+        name: z.string().describe('Canonical name, e.g. "Lisbon" rather than "the city"'),
+        type: z.string().describe('Kind of entity, e.g. person, place, organization, product'),
+        properties: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+        confidence: z.number()
+    })),
+    relations: z.array(z.object({
+        source: z.string().describe('Name of an extracted entity'),
+        target: z.string().describe('Name of an extracted entity'),
+        type: z.enum(relationTypes),
+        confidence: z.number()
+    })),
+    facts: z.array(z.object({
+        subject: z.string(),
+        predicate: z.string().describe('Short snake_case attribute, e.g. lives_in, favorite_color'),
+        object: z.string(),
+        statement: z.string().describe('The fact as a self-contained sentence'),
+        exclusive: z.boolean().describe('True when the subject has only one value for the predicate at a time'),
+        validFrom: z.string().optional().describe('ISO date from which the fact holds, when stated'),
+        confidence: z.number()
+    }))
+});
+
+export type FactExtraction = z.infer<typeof factExtractionSchema>;
+export type ExtractedFact = FactExtraction['facts'][number];
+
+export const EMPTY_EXTRACTION: FactExtraction = { entities: [], relations: [], facts: [] };
+
+const SYSTEM_PROMPT = `You extract long-term knowledge from a conversation between a user and an assistant.
+Return a JSON object with:
+- "entities": people, places, organizations, objects and ideas worth remembering, with their type and properties
+- "relations": relations between extracted entities, typed as one of ${relationTypes.join(', ')}
+- "facts": statements about entities as subject/predicate/object triples. Mark a fact "exclusive" when a new value replaces the old one (someone lives in one city, has one favorite color) and not when values accumulate (someone likes several foods).
+Give every item a confidence between 0 and 1.
+Only extract what the conversation states or clearly implies; skip small talk, questions and the assistant's own suggestions.
+Return empty arrays when there is nothing to remember.`;
+
+export interface FactExtractorOptions {
+    model: string;
+    temperature?: number;  // Default 0
+    /** Called after every extraction call, e.g. to record token usage */
+    onResponse?: (request: LLMChatRequest, response: LLMChatResponse, sessionId?: string) => void;
+}
+
+/**
+ * Asks the agent's LLM for the entities, relations and facts stated in a
+ * conversation transcript. The provider is resolved on every call so that a
+ * replaced provider (see AgentCore.setLLMProvider) is picked up.
+ */
+export class FactExtractor {
+    private validator = new StructuredOutputValidator(factExtractionSchema, 'fact_extraction');
+    private logger = loggers.llm;
+
+    constructor(
+        private readonly provider: () => LLMProvider,
+        private readonly options: FactExtractorOptions
+    ) {}
+
+    /**
+     * Extract knowledge from a transcript. Failures are logged and yield an
+     * empty extraction, since losing a few facts must not break the conversation.
+     */
+    async extract(transcript: string, sessionId?: string): Promise<FactExtraction> {
+        const provider = this.provider();
+        const request: LLMChatRequest = {
+            model: this.options.model,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                { role: 'user', content: `Conversation:\n${transcript}` }
+            ],
+            temperature: this.options.temperature ?? 0
+        };
+        if (provider.supportsStructuredOutput) {
+            request.responseFormat = this.validator.getResponseFormat();
+        }
+
+        try {
+            const response = await provider.chat(request);
+            this.options.onResponse?.(request, response, sessionId);
+
+            const validation = this.validator.validate(this.jsonObject(response.content));
+            if (!validation.success) {
+                this.logger.warn(
+                    'Discarding invalid fact extraction: %s',
+                    withTags([Tags.Semantic], { sessionId, errors: validation.errors }),
+                    validation.errors.join('; ')
+                );
+                return EMPTY_EXTRACTION;
+            }
+            return validation.data;
+        } catch (error) {
+            this.logger.error(
+                'Fact extraction failed:',
+                withTags([Tags.Semantic], { sessionId, error }),
+                error
+            );
+            return EMPTY_EXTRACTION;
+        }
+    }
+
+    // Models without native structured output tend to wrap the JSON in prose or code fences
+    private jsonObject(content: string): string {
+        const start = content.indexOf('{');
+        const end = content.lastIndexOf('}');
+        return start >= 0 && end > start ? content.slice(start, end + 1) : content;
+    }
+}
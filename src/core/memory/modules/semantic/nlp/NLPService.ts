@@ -28,6 +28,8 @@ interface NLPResponse {
 
 /**
  * Service for natural language processing operations
+ * @deprecated Talks to OpenAI with its own client; use FactExtractor, which goes
+ * through the agent's LLMProvider
  */
 export class NLPService {
     private openai: OpenAI;
@@ -85,6 +85,26 @@ export interface ConceptRelation {
     properties: Map<string, any>;
 }
 
+/**
+ * The kinds of content SemanticMemory stores, tagged in the content's `type`
+ */
+export type SemanticContentType = 'concept' | 'relation' | 'fact';
+
+/**
+ * A relation as SemanticMemory stores it: `type` tags the content, the kind of
+ * relationship is in `relationType`
+ */
+export interface StoredConceptRelation {
+    id: string;
+    type: 'relation';
+    sourceId: string;
+    targetId: string;
+    relationType: RelationType;
+    weight?: number;
+    confidence?: number;
+    properties: Map<string, any>;
+}
+
 /**
  * Interface for the concept graph
  */
@@ -117,6 +137,21 @@ export interface ISemanticMemory {
     getConceptGraph(): IConceptGraph;
 }
 
+/**
+ * A subject/predicate/object statement, e.g. ("user", "lives_in", "Lisbon")
+ */
+export interface SemanticFact {
+    subject: string;
+    predicate: string;
+    object: string;
+    statement: string;      // The fact as a sentence, used for recall
+    exclusive?: boolean;    // A new object supersedes the current one instead of adding to it
+    validAt?: Date;         // When the fact became true, default now
+    confidence?: number;
+    source?: string;
+    subjectId?: string;     // The user the fact was learned from (see forgetSubject())
+}
+
 /**
  * Interface for semantic memory units
  */
@@ -140,3 +175,27 @@ export function createSemanticMetadata(timestamp: Date): Map<string, any> {
     metadata.set('timestamp', timestamp);
     return metadata;
 }
+
+/**
+ * The content type tag of a semantic memory unit's content, if it has one
+ */
+export function semanticContentType(content: unknown): SemanticContentType | undefined {
+    if (!content || typeof content !== 'object' || !('type' in content)) return undefined;
+    return content.type === 'concept' || content.type === 'relation' || content.type === 'fact' ? content.type : undefined;
+}
+
+/**
+ * Check whether unit content is a concept, relation or fact with the id the concept graph keys it by
+ */
+export function isSemanticContent(content: unknown): content is { id: string; type: SemanticContentType } {
+    return semanticContentType(content) !== undefined && typeof (content as { id?: unknown }).id === 'string';
+}
+
+/**
+ * Check whether unit content is a relation stored by SemanticMemory
+ */
+export function isStoredRelation(content: unknown): content is StoredConceptRelation {
+    return semanticContentType(content) === 'relation' &&
+        typeof (content as StoredConceptRelation).sourceId === 'string' &&
+        typeof (content as StoredConceptRelation).targetId === 'string';
+}
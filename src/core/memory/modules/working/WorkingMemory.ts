@@ -76,6 +76,18 @@ export class WorkingMemory implements IMemory<IMemoryUnit> {
         await this.ensureCapacity();
     }
 
+    /**
+     * Write a unit exactly as given without emitting a memory event
+     */
+    async restore(unit: IMemoryUnit): Promise<void> {
+        const existing = await this.storage.get(unit.id);
+        await this.storage.add(unit.id, unit);
+        if (!existing) {
+            this.size++;
+        }
+        await this.ensureCapacity();
+    }
+
     async retrieve(id: string): Promise<IMemoryUnit | null> {
         const unit = await this.storage.get(id);
         if (unit && unit.memoryType === MemoryType.WORKING) {
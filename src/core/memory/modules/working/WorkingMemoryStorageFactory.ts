@@ -1,16 +1,28 @@
 import { InMemoryStorage } from '../../storage/InMemoryStorage';
 import { InMemoryIndex } from '../../storage/InMemoryIndex';
+import { openSqliteMemory } from '../../storage/SqliteMemory';
+import { VectorSearchOptions } from '../../storage/VectorIndex';
 import { WorkingMemory } from './WorkingMemory';
 
 /**
  * Factory for creating working memory with appropriate storage
  */
 export class WorkingMemoryStorageFactory {
-    static create(options: { maxCapacity?: number } = {}): WorkingMemory {
-        const { maxCapacity = 1000 } = options;
-        const storage = new InMemoryStorage(maxCapacity);
+    static create(options: { maxCapacity?: number } & VectorSearchOptions = {}): WorkingMemory {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+
+        const storage = new InMemoryStorage(maxCapacity, { embeddings, vectorIndex });
         const index = new InMemoryIndex();
         
         return new WorkingMemory(storage, index);
     }
+
+    /**
+     * Create working memory kept in a SQLite database (via `bun:sqlite`), so it survives restarts
+     */
+    static async open(sqlitePath: string, options: { maxCapacity?: number } & VectorSearchOptions = {}): Promise<WorkingMemory> {
+        const { maxCapacity = 1000, embeddings, vectorIndex } = options;
+        const { storage, index } = await openSqliteMemory(sqlitePath, 'working', { maxCapacity, embeddings, vectorIndex });
+        return new WorkingMemory(storage, index);
+    }
 }
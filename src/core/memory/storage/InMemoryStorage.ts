@@ -2,21 +2,33 @@ import { IMemoryUnit, MemoryFilter, MemoryType } from '../base';
 import { IMemoryStorage } from '../storage';
 import crypto from 'crypto';
 import { logger } from '../../Logger';
+import { EmbeddingProvider, isStaleEmbedding, memoryText } from '../embedding/EmbeddingProvider';
+import { DEFAULT_TOP_K, VectorIndex, VectorSearchOptions, createVectorIndex } from './VectorIndex';
+import { encodeValue } from './ValueCodec';
 
 /**
- * In-memory implementation of IMemoryStorage
+ * In-memory implementation of IMemoryStorage.
+ *
+ * Units with an embedding (given, or computed on store by the configured
+ * EmbeddingProvider) are added to a vector index, so filters with an
+ * `embedding` return the nearest units, most similar first. Storing a new unit
+ * beyond maxCapacity evicts the least recently accessed one.
  */
 export class InMemoryStorage implements IMemoryStorage {
     private memories: Map<string, IMemoryUnit> = new Map();
     private maxCapacity: number;
+    private embeddings?: EmbeddingProvider;
+    private vectors: VectorIndex;
     private logger = logger.withContext({ 
         module: 'memory', 
         component: 'storage',
         tags: ['persistence']
     });
 
-    constructor(maxCapacity: number = 1000) {
+    constructor(maxCapacity: number = 1000, options: VectorSearchOptions = {}) {
         this.maxCapacity = maxCapacity;
+        this.embeddings = options.embeddings;
+        this.vectors = createVectorIndex(options.vectorIndex);
     }
 
     async store(memory: IMemoryUnit): Promise<void> {
@@ -42,7 +54,8 @@ export class InMemoryStorage implements IMemoryStorage {
                 importance: 1.0,
                 relevance: 1.0
             },
-            associations: memory.associations || new Set<string>()
+            associations: memory.associations || new Set<string>(),
+            embedding: memory.embedding ?? (this.embeddings ? (await this.embeddings.embed([memoryText(memory)]))[0] : undefined)
         };
         
         // Ensure metadata type is set
@@ -51,7 +64,9 @@ export class InMemoryStorage implements IMemoryStorage {
         }
         
         this.logger.debug('Storing memory: %o', clonedMemory);
+        this.makeRoom(clonedMemory.id);
         this.memories.set(clonedMemory.id, clonedMemory);
+        this.indexVector(clonedMemory);
     }
 
     async retrieve(id: string): Promise<IMemoryUnit | null> {
@@ -70,6 +85,15 @@ export class InMemoryStorage implements IMemoryStorage {
     async retrieveByFilter(filter: MemoryFilter): Promise<IMemoryUnit[]> {
         let memories = Array.from(this.memories.values());
 
+        if (filter.id) {
+            memories = memories.filter(m => m.id === filter.id);
+        }
+
+        if (filter.ids?.length) {
+            const ids = new Set(filter.ids);
+            memories = memories.filter(m => ids.has(m.id));
+        }
+
         if (filter.types?.length) {
             memories = memories.filter(m => filter.types!.includes(m.metadata.get('type')));
         }
@@ -83,6 +107,48 @@ export class InMemoryStorage implements IMemoryStorage {
             });
         }
 
+        if (filter.temporal) {
+            const t = filter.temporal;
+            memories = memories.filter(m =>
+                this.inRange(m.createdAt, t.createdAfter, t.createdBefore) &&
+                this.inRange(m.expiredAt, t.expiredAfter, t.expiredBefore) &&
+                this.inRange(m.validAt, t.validAfter, t.validBefore) &&
+                this.inRange(m.invalidAt, t.invalidAfter, t.invalidBefore)
+            );
+        }
+
+        if (filter.asOf) {
+            const { systemTime, validTime } = filter.asOf;
+            memories = memories.filter(m => {
+                // Expiry, and the invalidAt recorded with it, is only known from expiredAt on
+                const expired = !!m.expiredAt && (!systemTime || new Date(m.expiredAt) <= systemTime);
+                const invalidAt = !m.expiredAt || expired ? m.invalidAt : undefined;
+                // A version superseded by a change stays believed for the period it was valid
+                const believed = !systemTime ||
+                    ((!m.createdAt || new Date(m.createdAt) <= systemTime) && (!expired || !!m.invalidAt));
+                return believed && (!validTime || this.isBetween(validTime, m.validAt, invalidAt));
+            });
+        }
+
+        if (filter.metadataFilters?.length) {
+            // Every entry of every metadata filter must match
+            memories = memories.filter(m => filter.metadataFilters!.every(metadataFilter =>
+                Array.from(metadataFilter.entries()).every(([key, value]) => this.matchesValue(m.metadata.get(key), value))
+            ));
+        }
+
+        if (filter.embedding) {
+            // Nearest neighbours among the units passing the other filters replace ordering
+            const candidates = new Map(memories.map(m => [m.id, m]));
+            return this.vectors
+                .search(filter.embedding, filter.limit || DEFAULT_TOP_K, id => candidates.has(id))
+                .map(match => {
+                    const memory = this.deepCloneWithMaps(candidates.get(match.id)!);
+                    memory.metadata.set('similarity', match.score);
+                    return memory;
+                });
+        }
+
         if (filter.orderBy) {
             memories.sort((a, b) => {
                 switch (filter.orderBy) {
@@ -106,10 +172,15 @@ export class InMemoryStorage implements IMemoryStorage {
     }
 
     async update(memory: IMemoryUnit): Promise<void> {
-        if (!memory.id || !this.memories.has(memory.id)) {
+        const existing = memory.id ? this.memories.get(memory.id) : undefined;
+        if (!existing) {
             throw new Error(`Memory with id ${memory.id} not found`);
         }
 
+        // Edited content carrying over the old vector gets embedded again
+        if (this.embeddings && isStaleEmbedding(existing, memory)) {
+            memory = { ...memory, embedding: undefined };
+        }
         await this.store(memory);
     }
 
@@ -125,6 +196,7 @@ export class InMemoryStorage implements IMemoryStorage {
             }
         }
         this.memories.delete(id);
+        this.vectors.remove(id);
     }
 
     async batchStore(memories: IMemoryUnit[]): Promise<void> {
@@ -143,7 +215,9 @@ export class InMemoryStorage implements IMemoryStorage {
     }
 
     async add(id: string, memory: IMemoryUnit): Promise<void> {
+        this.makeRoom(id);
         this.memories.set(id, memory);
+        this.indexVector({ ...memory, id });
     }
 
     async get(id: string): Promise<IMemoryUnit | null> {
@@ -152,10 +226,12 @@ export class InMemoryStorage implements IMemoryStorage {
 
     async remove(id: string): Promise<void> {
         this.memories.delete(id);
+        this.vectors.remove(id);
     }
 
     async clear(): Promise<void> {
         this.memories.clear();
+        this.vectors.clear();
     }
 
     async getAll(): Promise<IMemoryUnit[]> {
@@ -170,6 +246,69 @@ export class InMemoryStorage implements IMemoryStorage {
         return this.maxCapacity;
     }
 
+    /**
+     * Evict least recently accessed units until a unit with a new `id` fits
+     */
+    private makeRoom(id: string): void {
+        while (!this.memories.has(id) && this.memories.size > 0 && this.memories.size >= this.maxCapacity) {
+            let evicted: IMemoryUnit | undefined;
+            for (const memory of this.memories.values()) {
+                if (!evicted || this.lastAccessed(memory) < this.lastAccessed(evicted)) {
+                    evicted = memory;
+                }
+            }
+            this.logger.debug('Capacity of %d reached, evicting memory %s', this.maxCapacity, evicted!.id);
+            this.memories.delete(evicted!.id);
+            this.vectors.remove(evicted!.id);
+        }
+    }
+
+    private lastAccessed(memory: IMemoryUnit): number {
+        const lastAccessed = memory.consolidationMetrics?.lastAccessed ?? memory.lastAccessed;
+        return lastAccessed ? new Date(lastAccessed).getTime() : 0;
+    }
+
+    /**
+     * Metadata filter semantics shared with SqliteStorage: null matches a missing
+     * value, objects match by their encoded form, anything else by equality
+     */
+    private matchesValue(actual: any, expected: any): boolean {
+        if (expected === null || expected === undefined) {
+            return actual === null || actual === undefined;
+        }
+        if (typeof expected === 'object') {
+            return actual !== null && typeof actual === 'object' &&
+                JSON.stringify(encodeValue(actual)) === JSON.stringify(encodeValue(expected));
+        }
+        return actual === expected;
+    }
+
+    /**
+     * Range bounds are inclusive; a unit without the field never matches a bound
+     */
+    private inRange(value: Date | undefined, after?: Date, before?: Date): boolean {
+        if (!after && !before) return true;
+        if (!value) return false;
+        const time = new Date(value).getTime();
+        return (!after || time >= after.getTime()) && (!before || time <= before.getTime());
+    }
+
+    /**
+     * Whether `time` lies in [start, end); a missing bound is open
+     */
+    private isBetween(time: Date, start?: Date, end?: Date): boolean {
+        return (!start || new Date(start).getTime() <= time.getTime()) &&
+            (!end || new Date(end).getTime() > time.getTime());
+    }
+
+    private indexVector(memory: IMemoryUnit): void {
+        if (memory.embedding?.length) {
+            this.vectors.add(memory.id, memory.embedding);
+        } else {
+            this.vectors.remove(memory.id);
+        }
+    }
+
     private deepCloneWithMaps<T>(obj: T): T {
         if (obj === null || typeof obj !== 'object') {
             return obj;
@@ -0,0 +1,78 @@
+import { Database } from 'bun:sqlite';
+import { IMemoryIndex } from '../storage';
+import { IMemoryUnit } from '../base';
+import { assertNamespace, openMemoryDatabase } from './SqliteStorage';
+
+/**
+ * SQLite implementation of IMemoryIndex using an FTS5 full-text table.
+ * Like InMemoryIndex, a search matches memories containing all query terms;
+ * results are ordered by relevance.
+ */
+export class SqliteIndex implements IMemoryIndex {
+    private db: Database;
+    private table: string;
+
+    constructor(database: Database | string = ':memory:', options: { namespace?: string } = {}) {
+        this.db = typeof database === 'string' ? openMemoryDatabase(database) : database;
+        this.table = `${assertNamespace(options.namespace ?? 'memory')}_fts`;
+
+        this.db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS ${this.table}
+            USING fts5(id UNINDEXED, text, tokenize = 'porter unicode61')
+        `);
+    }
+
+    async index(memory: IMemoryUnit): Promise<void> {
+        const replace = this.db.transaction((id: string, text: string) => {
+            this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+            this.db.query(`INSERT INTO ${this.table} (id, text) VALUES (?, ?)`).run(id, text);
+        });
+        replace(memory.id, this.extractText(memory));
+    }
+
+    async add(memory: IMemoryUnit): Promise<void> {
+        await this.index(memory);
+    }
+
+    async search(query: string): Promise<string[]> {
+        const terms = query
+            .toLowerCase()
+            .split(/\W+/)
+            .filter(term => term.length > 2);
+        if (terms.length === 0) return [];
+
+        // Quoted terms keep FTS5 operators in user input from being interpreted
+        const match = terms.map(term => `"${term}"`).join(' ');
+        return this.db.query<{ id: string }, [string]>(
+            `SELECT id FROM ${this.table} WHERE ${this.table} MATCH ? ORDER BY rank`
+        ).all(match).map(row => row.id);
+    }
+
+    async update(memory: IMemoryUnit): Promise<void> {
+        await this.index(memory);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.delete(id);
+    }
+
+    async batchIndex(memories: IMemoryUnit[]): Promise<void> {
+        for (const memory of memories) {
+            await this.index(memory);
+        }
+    }
+
+    private extractText(memory: IMemoryUnit): string {
+        if (typeof memory.content === 'string') {
+            return memory.content;
+        }
+        if (typeof memory.content?.text === 'string') {
+            return memory.content.text;
+        }
+        return JSON.stringify(memory.content ?? '');
+    }
+}
@@ -0,0 +1,21 @@
+import type { IMemoryIndex, IMemoryStorage } from '../storage';
+import type { VectorSearchOptions } from './VectorIndex';
+
+/**
+ * Open the SQLite storage and full-text index of one memory type. `bun:sqlite`
+ * is only imported here, on demand, so memory kept in-process also runs on
+ * runtimes without it (Node, Tauri).
+ */
+export async function openSqliteMemory(
+    path: string,
+    namespace: string,
+    options: { maxCapacity?: number } & VectorSearchOptions = {}
+): Promise<{ storage: IMemoryStorage; index: IMemoryIndex }> {
+    const { SqliteStorage, openMemoryDatabase } = await import('./SqliteStorage');
+    const { SqliteIndex } = await import('./SqliteIndex');
+    const db = openMemoryDatabase(path);
+    return {
+        storage: new SqliteStorage(db, { namespace, ...options }),
+        index: new SqliteIndex(db, { namespace })
+    };
+}
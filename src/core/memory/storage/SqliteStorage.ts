@@ -0,0 +1,397 @@
+import { Database, SQLQueryBindings } from 'bun:sqlite';
+import crypto from 'crypto';
+import { IMemoryUnit, MemoryFilter, MemoryType } from '../base';
+import { IMemoryStorage } from '../storage';
+import { logger } from '../../Logger';
+import { EmbeddingProvider, isStaleEmbedding, memoryText } from '../embedding/EmbeddingProvider';
+import { DEFAULT_TOP_K, VectorIndex, VectorSearchOptions, createVectorIndex } from './VectorIndex';
+import { decodeValue, encodeValue } from './ValueCodec';
+
+/**
+ * Open (or create) a SQLite database for memory storage. Pass the result to
+ * SqliteStorage and SqliteIndex to keep a memory type's units and its search
+ * index in the same file.
+ */
+export function openMemoryDatabase(path: string = ':memory:'): Database {
+    const db = new Database(path, { create: true });
+    db.exec('PRAGMA journal_mode = WAL');
+    return db;
+}
+
+/**
+ * Table names are interpolated into SQL, so only plain identifiers are accepted
+ */
+export function assertNamespace(namespace: string): string {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(namespace)) {
+        throw new Error(`Invalid memory namespace: ${namespace}`);
+    }
+    return namespace;
+}
+
+interface MemoryRow {
+    data: string;
+    embedding: string | null;
+    access_count: number;
+    last_accessed: number | null;
+}
+
+/**
+ * SQLite implementation of IMemoryStorage.
+ *
+ * Each unit is stored as encoded JSON together with the columns MemoryFilter
+ * queries on (type, timestamps, temporal fields and access statistics), and its
+ * metadata as a JSON object so metadataFilters can be answered with json_extract.
+ * Embeddings have their own column and are loaded into a vector index when the
+ * storage opens; filters with an `embedding` use the SQL conditions to select
+ * candidates and the index to rank them. Storing a new unit beyond maxCapacity
+ * evicts the least recently accessed one.
+ */
+export class SqliteStorage implements IMemoryStorage {
+    private db: Database;
+    private table: string;
+    private maxCapacity: number;
+    private embeddings?: EmbeddingProvider;
+    private vectors: VectorIndex;
+    private logger = logger.withContext({
+        module: 'memory',
+        component: 'storage',
+        tags: ['persistence']
+    });
+
+    constructor(
+        database: Database | string = ':memory:',
+        options: { namespace?: string; maxCapacity?: number } & VectorSearchOptions = {}
+    ) {
+        this.db = typeof database === 'string' ? openMemoryDatabase(database) : database;
+        this.table = `${assertNamespace(options.namespace ?? 'memory')}_units`;
+        this.maxCapacity = options.maxCapacity ?? 1000;
+        this.embeddings = options.embeddings;
+        this.vectors = createVectorIndex(options.vectorIndex);
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                id TEXT PRIMARY KEY,
+                type TEXT,
+                data TEXT NOT NULL,
+                metadata TEXT NOT NULL,
+                embedding TEXT,
+                timestamp INTEGER NOT NULL,
+                created_at INTEGER,
+                expired_at INTEGER,
+                valid_at INTEGER,
+                invalid_at INTEGER,
+                access_count INTEGER NOT NULL DEFAULT 0,
+                last_accessed INTEGER
+            )
+        `);
+        this.db.exec(`CREATE INDEX IF NOT EXISTS ${this.table}_type ON ${this.table} (type)`);
+        this.db.exec(`CREATE INDEX IF NOT EXISTS ${this.table}_timestamp ON ${this.table} (timestamp)`);
+
+        const rows = this.db.query<{ id: string; embedding: string }, []>(
+            `SELECT id, embedding FROM ${this.table} WHERE embedding IS NOT NULL`
+        ).all();
+        for (const row of rows) {
+            this.vectors.add(row.id, JSON.parse(row.embedding));
+        }
+    }
+
+    async store(memory: IMemoryUnit): Promise<void> {
+        const metadata: Map<string, any> = memory.metadata instanceof Map ?
+            new Map(memory.metadata) :
+            new Map(Object.entries(memory.metadata || {}));
+        if (!metadata.has('type')) {
+            metadata.set('type', MemoryType.WORKING);
+        }
+
+        const unit: IMemoryUnit = {
+            ...memory,
+            id: memory.id || crypto.randomUUID(),
+            metadata,
+            timestamp: memory.timestamp || new Date(),
+            priority: memory.priority || 1.0,
+            consolidationMetrics: memory.consolidationMetrics || {
+                semanticSimilarity: 0,
+                contextualOverlap: 0,
+                temporalProximity: 0,
+                sourceReliability: 0,
+                confidenceScore: 0,
+                accessCount: 0,
+                lastAccessed: new Date(),
+                createdAt: new Date(),
+                importance: 1.0,
+                relevance: 1.0
+            },
+            associations: memory.associations || new Set<string>(),
+            embedding: memory.embedding ?? (this.embeddings ? (await this.embeddings.embed([memoryText(memory)]))[0] : undefined)
+        };
+
+        this.logger.debug('Storing memory: %o', unit);
+        this.makeRoom(unit.id);
+        this.write(unit);
+    }
+
+    async retrieve(id: string): Promise<IMemoryUnit | null> {
+        const row = this.db.query<MemoryRow, [string]>(
+            `SELECT data, embedding, access_count, last_accessed FROM ${this.table} WHERE id = ?`
+        ).get(id);
+        if (!row) return null;
+
+        const now = Date.now();
+        this.db.query(`UPDATE ${this.table} SET access_count = access_count + 1, last_accessed = ? WHERE id = ?`).run(now, id);
+        return this.toUnit({ ...row, access_count: row.access_count + 1, last_accessed: now });
+    }
+
+    async retrieveByFilter(filter: MemoryFilter): Promise<IMemoryUnit[]> {
+        const { where, params } = this.buildWhere(filter);
+
+        if (filter.embedding) {
+            const candidates = where ?
+                new Set(this.db.query<{ id: string }, SQLQueryBindings[]>(`SELECT id FROM ${this.table}${where}`).all(...params).map(row => row.id)) :
+                undefined;
+            return this.vectors
+                .search(filter.embedding, filter.limit || DEFAULT_TOP_K, candidates && (id => candidates.has(id)))
+                .map(match => {
+                    const memory = this.getSync(match.id)!;
+                    memory.metadata.set('similarity', match.score);
+                    return memory;
+                });
+        }
+
+        let sql = `SELECT data, embedding, access_count, last_accessed FROM ${this.table}${where}`;
+        switch (filter.orderBy) {
+            case 'lastAccessed':
+                sql += ' ORDER BY last_accessed DESC';
+                break;
+            case 'accessCount':
+                sql += ' ORDER BY access_count DESC';
+                break;
+            case 'timestamp':
+                sql += ' ORDER BY timestamp DESC';
+                break;
+            default:
+                sql += ' ORDER BY rowid';
+        }
+        if (filter.limit) {
+            sql += ' LIMIT ?';
+            params.push(filter.limit);
+        }
+
+        return this.db.query<MemoryRow, SQLQueryBindings[]>(sql).all(...params).map(row => this.toUnit(row));
+    }
+
+    async update(memory: IMemoryUnit): Promise<void> {
+        const existing = memory.id ? this.getSync(memory.id) : null;
+        if (!existing) {
+            throw new Error(`Memory with id ${memory.id} not found`);
+        }
+
+        // Edited content carrying over the old vector gets embedded again
+        if (this.embeddings && isStaleEmbedding(existing, memory)) {
+            memory = { ...memory, embedding: undefined };
+        }
+        await this.store(memory);
+    }
+
+    async delete(id: string): Promise<void> {
+        const memory = await this.get(id);
+        const deleteUnit = this.db.transaction(() => {
+            // Remove this memory from all associated memories
+            for (const associatedId of memory?.associations || []) {
+                const associated = this.getSync(associatedId);
+                if (associated?.associations?.delete(id)) {
+                    this.write(associated);
+                }
+            }
+            this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+        });
+        deleteUnit();
+        this.vectors.remove(id);
+    }
+
+    async batchStore(memories: IMemoryUnit[]): Promise<void> {
+        for (const memory of memories) {
+            await this.store(memory);
+        }
+    }
+
+    async add(id: string, memory: IMemoryUnit): Promise<void> {
+        this.makeRoom(id);
+        this.write({ ...memory, id });
+    }
+
+    async get(id: string): Promise<IMemoryUnit | null> {
+        return this.getSync(id);
+    }
+
+    async remove(id: string): Promise<void> {
+        this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+        this.vectors.remove(id);
+    }
+
+    async clear(): Promise<void> {
+        this.db.exec(`DELETE FROM ${this.table}`);
+        this.vectors.clear();
+    }
+
+    async getAll(): Promise<IMemoryUnit[]> {
+        return this.db.query<MemoryRow, []>(
+            `SELECT data, embedding, access_count, last_accessed FROM ${this.table} ORDER BY rowid`
+        ).all().map(row => this.toUnit(row));
+    }
+
+    getSize(): number {
+        return this.db.query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM ${this.table}`).get()!.count;
+    }
+
+    getCapacity(): number {
+        return this.maxCapacity;
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private buildWhere(filter: MemoryFilter): { where: string; params: SQLQueryBindings[] } {
+        const conditions: string[] = [];
+        const params: SQLQueryBindings[] = [];
+        const range = (column: string, after?: Date, before?: Date) => {
+            if (after) {
+                conditions.push(`${column} >= ?`);
+                params.push(after.getTime());
+            }
+            if (before) {
+                conditions.push(`${column} <= ?`);
+                params.push(before.getTime());
+            }
+        };
+
+        if (filter.id) {
+            conditions.push('id = ?');
+            params.push(filter.id);
+        }
+        if (filter.ids?.length) {
+            conditions.push(`id IN (${filter.ids.map(() => '?').join(', ')})`);
+            params.push(...filter.ids);
+        }
+        if (filter.types?.length) {
+            conditions.push(`type IN (${filter.types.map(() => '?').join(', ')})`);
+            params.push(...filter.types);
+        }
+        if (filter.dateRange) {
+            range('timestamp', filter.dateRange.start, filter.dateRange.end);
+        }
+        if (filter.temporal) {
+            const t = filter.temporal;
+            range('created_at', t.createdAfter, t.createdBefore);
+            range('expired_at', t.expiredAfter, t.expiredBefore);
+            range('valid_at', t.validAfter, t.validBefore);
+            range('invalid_at', t.invalidAfter, t.invalidBefore);
+        }
+        if (filter.asOf?.systemTime) {
+            // A version superseded by a change (one with invalid_at) stays believed for the period it was valid
+            const time = filter.asOf.systemTime.getTime();
+            conditions.push('(created_at IS NULL OR created_at <= ?) AND (expired_at IS NULL OR expired_at > ? OR invalid_at IS NOT NULL)');
+            params.push(time, time);
+        }
+        if (filter.asOf?.validTime) {
+            const time = filter.asOf.validTime.getTime();
+            // invalid_at is recorded when a version is superseded, so it is unknown before expired_at
+            const unknown = filter.asOf.systemTime ? ' OR expired_at > ?' : '';
+            conditions.push(`(valid_at IS NULL OR valid_at <= ?) AND (invalid_at IS NULL OR invalid_at > ?${unknown})`);
+            params.push(time, time, ...(filter.asOf.systemTime ? [filter.asOf.systemTime.getTime()] : []));
+        }
+        // Every entry of every metadata filter must match
+        for (const metadataFilter of filter.metadataFilters || []) {
+            for (const [key, value] of metadataFilter.entries()) {
+                const path = `$."${String(key).replace(/"/g, '""')}"`;
+                if (value === null || value === undefined) {
+                    conditions.push('json_extract(metadata, ?) IS NULL');
+                    params.push(path);
+                } else if (typeof value === 'object') {
+                    conditions.push('json_extract(metadata, ?) = json(?)');
+                    params.push(path, JSON.stringify(encodeValue(value)));
+                } else {
+                    conditions.push('json_extract(metadata, ?) = ?');
+                    params.push(path, typeof value === 'boolean' ? Number(value) : value);
+                }
+            }
+        }
+
+        return {
+            where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+            params
+        };
+    }
+
+    /**
+     * Evict least recently accessed units until a unit with a new `id` fits
+     */
+    private makeRoom(id: string): void {
+        if (this.db.query(`SELECT 1 FROM ${this.table} WHERE id = ?`).get(id)) return;
+
+        const excess = this.getSize() - this.maxCapacity + 1;
+        if (excess <= 0) return;
+
+        const evicted = this.db.query<{ id: string }, [number]>(
+            `SELECT id FROM ${this.table} ORDER BY COALESCE(last_accessed, 0), rowid LIMIT ?`
+        ).all(excess);
+        for (const { id: evictedId } of evicted) {
+            this.logger.debug('Capacity of %d reached, evicting memory %s', this.maxCapacity, evictedId);
+            this.db.query(`DELETE FROM ${this.table} WHERE id = ?`).run(evictedId);
+            this.vectors.remove(evictedId);
+        }
+    }
+
+    private getSync(id: string): IMemoryUnit | null {
+        const row = this.db.query<MemoryRow, [string]>(
+            `SELECT data, embedding, access_count, last_accessed FROM ${this.table} WHERE id = ?`
+        ).get(id);
+        return row ? this.toUnit(row) : null;
+    }
+
+    private write(unit: IMemoryUnit): void {
+        const metadata = unit.metadata instanceof Map ? unit.metadata : new Map(Object.entries(unit.metadata || {}));
+        const time = (date?: Date) => (date ? new Date(date).getTime() : null);
+        const metrics = unit.consolidationMetrics;
+
+        this.db.query(`
+            INSERT OR REPLACE INTO ${this.table}
+                (id, type, data, metadata, embedding, timestamp, created_at, expired_at, valid_at, invalid_at, access_count, last_accessed)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            unit.id,
+            metadata.get('type') ?? null,
+            JSON.stringify(encodeValue({ ...unit, embedding: undefined })),
+            JSON.stringify(Object.fromEntries(Array.from(metadata, ([key, value]) => [key, encodeValue(value)]))),
+            unit.embedding?.length ? JSON.stringify(unit.embedding) : null,
+            time(unit.timestamp) ?? Date.now(),
+            time(unit.createdAt),
+            time(unit.expiredAt),
+            time(unit.validAt),
+            time(unit.invalidAt),
+            metrics?.accessCount ?? unit.accessCount ?? 0,
+            time(metrics?.lastAccessed ?? unit.lastAccessed)
+        );
+
+        if (unit.embedding?.length) {
+            this.vectors.add(unit.id, unit.embedding);
+        } else {
+            this.vectors.remove(unit.id);
+        }
+    }
+
+    private toUnit(row: MemoryRow): IMemoryUnit {
+        const unit: IMemoryUnit = decodeValue(JSON.parse(row.data));
+        if (row.embedding) {
+            unit.embedding = JSON.parse(row.embedding);
+        }
+        // Access statistics are kept in columns so reads do not rewrite the whole unit
+        if (unit.consolidationMetrics) {
+            unit.consolidationMetrics.accessCount = row.access_count;
+            if (row.last_accessed !== null) {
+                unit.consolidationMetrics.lastAccessed = new Date(row.last_accessed);
+            }
+        }
+        return unit;
+    }
+}
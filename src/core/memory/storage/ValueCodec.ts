@@ -0,0 +1,48 @@
+/**
+ * Encode a value as JSON-safe data, tagging Maps, Sets and Dates so that
+ * decodeValue() can restore them
+ */
+export function encodeValue(value: any): any {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (value instanceof Date) {
+        return { __type: 'Date', value: value.toISOString() };
+    }
+    if (value instanceof Map) {
+        return { __type: 'Map', entries: Array.from(value, ([key, val]) => [key, encodeValue(val)]) };
+    }
+    if (value instanceof Set) {
+        return { __type: 'Set', values: Array.from(value, encodeValue) };
+    }
+    if (Array.isArray(value)) {
+        return value.map(encodeValue);
+    }
+    const encoded: Record<string, any> = {};
+    for (const [key, val] of Object.entries(value)) {
+        encoded[key] = encodeValue(val);
+    }
+    return encoded;
+}
+
+export function decodeValue(value: any): any {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(decodeValue);
+    }
+    switch (value.__type) {
+        case 'Date':
+            return new Date(value.value);
+        case 'Map':
+            return new Map(value.entries.map(([key, val]: [any, any]) => [key, decodeValue(val)]));
+        case 'Set':
+            return new Set(value.values.map(decodeValue));
+    }
+    const decoded: Record<string, any> = {};
+    for (const [key, val] of Object.entries(value)) {
+        decoded[key] = decodeValue(val);
+    }
+    return decoded;
+}
@@ -0,0 +1,290 @@
+import { EmbeddingProvider, normalizeVector } from '../embedding/EmbeddingProvider';
+
+/**
+ * Number of nearest neighbours returned by an embedding query without a limit
+ */
+export const DEFAULT_TOP_K = 10;
+
+export interface VectorMatch {
+    id: string;
+    score: number;  // Cosine similarity with the query (-1 to 1)
+}
+
+/**
+ * Nearest-neighbour index over memory unit embeddings. `accept` restricts the
+ * results to ids that also pass the storage's other filters.
+ */
+export interface VectorIndex {
+    add(id: string, vector: number[]): void;
+    remove(id: string): void;
+    search(vector: number[], k: number, accept?: (id: string) => boolean): VectorMatch[];
+    size(): number;
+    clear(): void;
+}
+
+export type VectorIndexType = 'brute-force' | 'hnsw';
+
+/**
+ * Vector search settings of a memory storage
+ */
+export interface VectorSearchOptions {
+    embeddings?: EmbeddingProvider;  // Embeds units stored without an embedding
+    vectorIndex?: VectorIndexType;   // Defaults to brute-force
+}
+
+export function createVectorIndex(type: VectorIndexType = 'brute-force'): VectorIndex {
+    return type === 'hnsw' ? new HnswVectorIndex() : new BruteForceVectorIndex();
+}
+
+function dot(a: number[], b: number[]): number {
+    let sum = 0;
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+/**
+ * Exact search comparing the query with every vector. Fine up to a few
+ * thousand units, which covers the default memory capacities.
+ */
+export class BruteForceVectorIndex implements VectorIndex {
+    private vectors: Map<string, number[]> = new Map();
+
+    add(id: string, vector: number[]): void {
+        this.vectors.set(id, normalizeVector(vector));
+    }
+
+    remove(id: string): void {
+        this.vectors.delete(id);
+    }
+
+    search(vector: number[], k: number, accept?: (id: string) => boolean): VectorMatch[] {
+        const query = normalizeVector(vector);
+        const matches: VectorMatch[] = [];
+        for (const [id, candidate] of this.vectors) {
+            if (!accept || accept(id)) {
+                matches.push({ id, score: dot(query, candidate) });
+            }
+        }
+        return matches.sort((a, b) => b.score - a.score).slice(0, k);
+    }
+
+    size(): number {
+        return this.vectors.size;
+    }
+
+    clear(): void {
+        this.vectors.clear();
+    }
+}
+
+interface HnswNode {
+    id: string;
+    vector: number[];
+    neighbors: number[][];  // Per layer, indexes into the node list
+    deleted: boolean;
+}
+
+interface Candidate {
+    node: number;
+    distance: number;
+}
+
+export interface HnswOptions {
+    m?: number;               // Links per node and layer (twice as many on layer 0), default 16
+    efConstruction?: number;  // Candidate list size while inserting, default 100
+    efSearch?: number;        // Candidate list size while searching, default 50
+}
+
+/**
+ * Approximate search over a hierarchical navigable small world graph.
+ *
+ * Removed vectors stay in the graph as tombstones so it remains connected;
+ * they are skipped in results, and the graph is rebuilt once they outnumber
+ * the live vectors.
+ */
+export class HnswVectorIndex implements VectorIndex {
+    private nodes: HnswNode[] = [];
+    private ids: Map<string, number> = new Map();
+    private entryPoint = -1;
+    private maxLevel = -1;
+    private m: number;
+    private efConstruction: number;
+    private efSearch: number;
+    private levelFactor: number;
+
+    constructor(options: HnswOptions = {}) {
+        this.m = options.m ?? 16;
+        this.efConstruction = options.efConstruction ?? 100;
+        this.efSearch = options.efSearch ?? 50;
+        this.levelFactor = 1 / Math.log(this.m);
+    }
+
+    add(id: string, vector: number[]): void {
+        if (this.ids.has(id)) {
+            this.remove(id);
+        }
+
+        const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+        const index = this.nodes.length;
+        const node: HnswNode = {
+            id,
+            vector: normalizeVector(vector),
+            neighbors: Array.from({ length: level + 1 }, () => []),
+            deleted: false
+        };
+        this.nodes.push(node);
+        this.ids.set(id, index);
+
+        if (this.entryPoint < 0) {
+            this.entryPoint = index;
+            this.maxLevel = level;
+            return;
+        }
+
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > level; layer--) {
+            entry = this.searchLayer(node.vector, entry, 1, layer)[0]?.node ?? entry;
+        }
+
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(node.vector, entry, this.efConstruction, layer, n => !this.nodes[n].deleted);
+            const maxLinks = this.maxLinks(layer);
+            node.neighbors[layer] = candidates.slice(0, maxLinks).map(c => c.node);
+
+            for (const neighbor of node.neighbors[layer]) {
+                const links = this.nodes[neighbor].neighbors[layer];
+                links.push(index);
+                if (links.length > maxLinks) {
+                    this.nodes[neighbor].neighbors[layer] = this.closest(this.nodes[neighbor].vector, links, maxLinks);
+                }
+            }
+            if (candidates.length > 0) {
+                entry = candidates[0].node;
+            }
+        }
+
+        if (level > this.maxLevel) {
+            this.entryPoint = index;
+            this.maxLevel = level;
+        }
+    }
+
+    remove(id: string): void {
+        const index = this.ids.get(id);
+        if (index === undefined) return;
+
+        this.nodes[index].deleted = true;
+        this.ids.delete(id);
+        if (this.nodes.length > 2 * this.ids.size + this.m) {
+            this.rebuild();
+        }
+    }
+
+    search(vector: number[], k: number, accept?: (id: string) => boolean): VectorMatch[] {
+        if (this.entryPoint < 0 || k <= 0) return [];
+
+        const query = normalizeVector(vector);
+        let entry = this.entryPoint;
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            entry = this.searchLayer(query, entry, 1, layer)[0]?.node ?? entry;
+        }
+
+        const matches = this.searchLayer(
+            query,
+            entry,
+            Math.max(this.efSearch, k),
+            0,
+            n => !this.nodes[n].deleted && (!accept || accept(this.nodes[n].id))
+        );
+        return matches.slice(0, k).map(c => ({ id: this.nodes[c.node].id, score: 1 - c.distance }));
+    }
+
+    size(): number {
+        return this.ids.size;
+    }
+
+    clear(): void {
+        this.nodes = [];
+        this.ids.clear();
+        this.entryPoint = -1;
+        this.maxLevel = -1;
+    }
+
+    private maxLinks(layer: number): number {
+        return layer === 0 ? 2 * this.m : this.m;
+    }
+
+    private distance(a: number[], b: number[]): number {
+        return 1 - dot(a, b);
+    }
+
+    /**
+     * Best-first search of one layer. Every reachable node is traversed, but only
+     * those passing `include` are collected, so selective filters still fill the
+     * result list.
+     */
+    private searchLayer(query: number[], entry: number, ef: number, layer: number, include?: (node: number) => boolean): Candidate[] {
+        const visited = new Set<number>([entry]);
+        const first = { node: entry, distance: this.distance(query, this.nodes[entry].vector) };
+        const candidates: Candidate[] = [first];
+        const results: Candidate[] = !include || include(entry) ? [first] : [];
+
+        while (candidates.length > 0) {
+            const current = candidates.shift()!;
+            if (results.length >= ef && current.distance > results[results.length - 1].distance) {
+                break;
+            }
+
+            for (const neighbor of this.nodes[current.node].neighbors[layer] ?? []) {
+                if (visited.has(neighbor)) continue;
+                visited.add(neighbor);
+
+                const distance = this.distance(query, this.nodes[neighbor].vector);
+                if (results.length < ef || distance < results[results.length - 1].distance) {
+                    this.insertSorted(candidates, { node: neighbor, distance });
+                    if (!include || include(neighbor)) {
+                        this.insertSorted(results, { node: neighbor, distance });
+                        if (results.length > ef) {
+                            results.pop();
+                        }
+                    }
+                }
+            }
+        }
+
+        return results;
+    }
+
+    private closest(vector: number[], nodes: number[], count: number): number[] {
+        return nodes
+            .map(node => ({ node, distance: this.distance(vector, this.nodes[node].vector) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, count)
+            .map(c => c.node);
+    }
+
+    private insertSorted(list: Candidate[], candidate: Candidate): void {
+        let low = 0;
+        let high = list.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (list[mid].distance <= candidate.distance) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        list.splice(low, 0, candidate);
+    }
+
+    private rebuild(): void {
+        const live = this.nodes.filter(node => !node.deleted);
+        this.clear();
+        for (const node of live) {
+            this.add(node.id, node.vector);
+        }
+    }
+}
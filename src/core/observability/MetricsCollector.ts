@@ -1,5 +1,6 @@
-import { AgentEvent } from './event_validation';
-import { Observable, ObservableResult, Observe } from './Observable';
+import type { AgentEvent } from './event_validation';
+import { Observable, Observe } from './Observable';
+import type { ObservableResult } from './Observable';
 import { v4 as uuidv4 } from 'uuid';
 
 export type MetricValue = {
@@ -11,12 +12,18 @@ export type MetricValue = {
 export type MetricName = 
   | 'latency'
   | 'tokens'
+  | 'prompt_tokens'
+  | 'completion_tokens'
   | 'memory_usage'
   | 'cpu_usage'
   | 'success_rate'
   | 'error_rate'
   | 'tool_usage'
-  | 'prompt_length';
+  | 'prompt_length'
+  | 'queue_depth'
+  | 'queue_latency'
+  | 'cache_hits'
+  | 'cache_misses';
 
 export class MetricsCollector extends Observable {
   private static instance: MetricsCollector;
@@ -48,11 +55,13 @@ export class MetricsCollector extends Observable {
   private handleMetricEvent(event: AgentEvent): ObservableResult<void> {
     if (!event.data?.metrics) return { result: undefined };
 
+    // Events from recordMetric carry the original name and dimensions; others are inferred
     const metrics = event.data.metrics;
+    const recorded = event.data.metricInfo;
     const key = this.buildMetricKey(
-      'responseTime' in metrics ? 'latency' : 'tokens',
+      recorded?.name ?? ('responseTime' in metrics ? 'latency' : 'tokens'),
       event.agentId,
-      undefined
+      recorded?.dimensions
     );
 
     if (!this.metrics.has(key)) {
@@ -60,8 +69,9 @@ export class MetricsCollector extends Observable {
     }
 
     const value: MetricValue = {
-      value: 'responseTime' in metrics ? metrics.responseTime! : metrics.tokenUsage!,
-      timestamp: new Date().toISOString()
+      value: recorded?.value ?? ('responseTime' in metrics ? metrics.responseTime! : metrics.tokenUsage!),
+      timestamp: new Date().toISOString(),
+      dimensions: recorded?.dimensions
     };
 
     this.metrics.get(key)!.push(value);
@@ -144,7 +154,8 @@ export class MetricsCollector extends Observable {
       eventType: 'METRIC_REPORT',
       agentId,
       data: {
-        metrics
+        metrics,
+        metricInfo: { name: metricName, value, dimensions }
       },
       metadata: {
         source: 'MetricsCollector',
@@ -12,6 +12,7 @@ const eventSchema = {
         "GENERAL",
         "TASK_STARTED",
         "TASK_COMPLETED",
+        "TASK_CANCELLED",
         "PROMPT_GENERATED",
         "STRATEGY_SELECTION",
         "STRATEGY_SWITCH",
@@ -21,7 +22,13 @@ const eventSchema = {
         "TOOL_COMPLETED",
         "TOOL_ERROR",
         "CONTEXT_SWITCH",
-        "MEMORY_ACCESS"
+        "MEMORY_ACCESS",
+        "MEMORY_UPDATE",
+        "REASONING_STEP",
+        "SELF_REFLECTION",
+        "ERROR",
+        "WARNING",
+        "METRIC_REPORT"
       ]
     },
     "strategyTypes": {
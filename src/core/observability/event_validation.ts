@@ -155,6 +155,13 @@ const Metrics = z.object({
   strategySuccessRate: z.number().optional(),
 });
 
+// A metric recorded through MetricsCollector.recordMetric
+const MetricInfo = z.object({
+  name: z.string(),
+  value: z.number(),
+  dimensions: z.record(z.string()).optional(),
+});
+
 const StateInfo = z.object({
   currentState: z.string(),
   previousState: z.string().optional(),
@@ -207,6 +214,7 @@ export const EventDataSchema = z.object({
   memoryInfo: MemoryInfo.optional(),
   reflectionInfo: ReflectionInfo.optional(),
   metrics: Metrics.optional(),
+  metricInfo: MetricInfo.optional(),
 });
 
 // Base Event Schema
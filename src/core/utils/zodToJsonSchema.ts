@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+/**
+ * Convert a Zod schema into the JSON Schema subset understood by LLM providers
+ * for function parameters and structured output. Unsupported types fall back
+ * to a string.
+ */
+export function zodToJsonSchema(zodSchema: z.ZodTypeAny): Record<string, any> {
+  const description = zodSchema.description;
+
+  if (zodSchema instanceof z.ZodString) {
+    return { type: 'string', description };
+  }
+  if (zodSchema instanceof z.ZodNumber) {
+    return { type: 'number', description };
+  }
+  if (zodSchema instanceof z.ZodBoolean) {
+    return { type: 'boolean', description };
+  }
+  if (zodSchema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(zodSchema.element), description };
+  }
+  if (zodSchema instanceof z.ZodObject) {
+    return {
+      type: 'object',
+      properties: zodObjectProperties(zodSchema),
+      required: zodObjectRequired(zodSchema),
+      description
+    };
+  }
+  if (zodSchema instanceof z.ZodEnum) {
+    return { type: 'string', enum: zodSchema._def.values, description };
+  }
+  if (zodSchema instanceof z.ZodLiteral) {
+    return { type: typeof zodSchema.value, enum: [zodSchema.value], description };
+  }
+  if (zodSchema instanceof z.ZodUnion) {
+    return { anyOf: zodSchema.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)), description };
+  }
+  if (zodSchema instanceof z.ZodIntersection) {
+    return { allOf: [zodToJsonSchema(zodSchema._def.left), zodToJsonSchema(zodSchema._def.right)], description };
+  }
+  if (zodSchema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(zodSchema.valueSchema), description };
+  }
+  if (zodSchema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(zodSchema.unwrap()), { type: 'null' }], description };
+  }
+  if (zodSchema instanceof z.ZodOptional) {
+    return zodToJsonSchema(zodSchema.unwrap());
+  }
+  if (zodSchema instanceof z.ZodDefault) {
+    return zodToJsonSchema(zodSchema._def.innerType);
+  }
+  if (zodSchema instanceof z.ZodEffects) {
+    return zodToJsonSchema(zodSchema.innerType());
+  }
+  if (zodSchema instanceof z.ZodAny || zodSchema instanceof z.ZodUnknown) {
+    return description ? { description } : {};
+  }
+  return { type: 'string' }; // fallback
+}
+
+export function zodObjectProperties(schema: z.ZodTypeAny): Record<string, any> {
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema.shape)) {
+      if (value instanceof z.ZodType) {
+        properties[key] = zodToJsonSchema(value);
+      }
+    }
+    return properties;
+  }
+  return {};
+}
+
+export function zodObjectRequired(schema: z.ZodTypeAny): string[] {
+  if (schema instanceof z.ZodObject) {
+    return Object.entries(schema.shape)
+      .filter(([_, value]) => !(value instanceof z.ZodOptional))
+      .map(([key]) => key);
+  }
+  return [];
+}
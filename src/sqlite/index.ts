@@ -0,0 +1,5 @@
+// SQLite-backed stores. They need `bun:sqlite`, so they are kept out of the
+// main entry point and only load when imported from here.
+export { SqliteSessionStore } from '../core/SqliteSessionStore';
+export { SqliteStorage, openMemoryDatabase } from '../core/memory/storage/SqliteStorage';
+export { SqliteIndex } from '../core/memory/storage/SqliteIndex';
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { SmartHistoryManager } from '../../../src/core/context/SmartHistoryManager';
+import { TokenMetric } from '../../../src/core/context/metrics/TokenMetric';
+import { AgeMetric } from '../../../src/core/context/metrics/AgeMetric';
+import { ConversationMessage } from '../../../src/core/context/types';
+import { WorkingMemoryStorageFactory } from '../../../src/core/memory/modules/working/WorkingMemoryStorageFactory';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../../src/agent/AgentBuilder';
+import { waitFor } from '../../utils/test-helpers';
+
+const message = (id: string, tokens: number, references?: string[]): ConversationMessage => ({
+    id,
+    content: `message ${id}`,
+    role: 'user',
+    timestamp: new Date(),
+    relevanceScore: 1,
+    importance: 1,
+    tokens,
+    metadata: references ? { references } : undefined
+});
+
+const answer = (content: Record<string, any>, description: string) => JSON.stringify({
+    primary_action: {
+        response_purpose: 'DIRECT_RESPONSE',
+        response_content: content,
+        response_description: description
+    }
+});
+
+const createAgent = (provider: MockLLMProvider) => new AgentBuilder(
+    { name: 'GoalAgent', role: 'travel assistant', capabilities: 'books trips', goal: 'help' },
+    { llmConfig: { apiKey: 'unused', model: 'mock' } }
+).withLLMProvider(provider).create();
+
+describe('Goals, domain and references in the prompt', () => {
+    it('should keep the messages the current input refers to', async () => {
+        const manager = new SmartHistoryManager(WorkingMemoryStorageFactory.create(), 100, [new TokenMetric(10000), new AgeMetric()]);
+        const messages = [message('a', 30), message('b', 30, ['a']), message('c', 30), message('d', 10, ['b'])];
+
+        const result = await manager.buildHistory(messages, 75);
+        expect(result.messages.map(m => m.id)).toEqual(['a', 'b', 'd']);
+        expect(result.dropped).toEqual(['c']);
+        expect(result.messages[0].metadata?.pinned).toBe(true);
+        expect(messages[0].metadata).toBeUndefined();
+    });
+
+    it('should open a goal on a question, show it in the system prompt and complete it', async () => {
+        const provider = new MockLLMProvider()
+            .respondWith(answer({ messageType: 'CLARIFICATION_NEEDED', questions: ['Which day?'] }, 'Which day?'))
+            .respondWith(answer({ messageType: 'TASK_COMPLETE', result: 'Booked' }, 'Booked for Friday'));
+        const agent = createAgent(provider);
+        await agent.run();
+
+        const session = await agent.createSession('user', 'Book a flight to Oslo');
+        await waitFor(() => session.getGoals().length === 1);
+        const [goal] = session.getGoals();
+        expect(goal.description).toBe('Book a flight to Oslo');
+        expect(provider.getRequests()[0].messages[0].content).not.toContain('Open user goals');
+
+        session.setDomain('travel', { subDomain: 'flights', rules: { cabin: 'economy only' } });
+        await session.chat('Next Friday');
+        await waitFor(() => session.getGoals().length === 0);
+
+        const systemPrompt = String(provider.getRequests()[1].messages[0].content);
+        expect(systemPrompt).toContain('Current domain: travel / flights\n- cabin: economy only');
+        expect(systemPrompt).toContain('Open user goals, most important first:\n- Book a flight to Oslo');
+        expect(session.getGoals(true).map(g => [g.id, g.status])).toEqual([[goal.id, 'completed']]);
+        await agent.shutdown();
+    });
+
+    it('should let the session edit its goals', async () => {
+        const provider = new MockLLMProvider([], { loop: true }).respondWith(answer({ reply: 'Hi' }, 'Hi'));
+        const agent = createAgent(provider);
+        await agent.run();
+
+        const session = await agent.createSession('user', 'Hello');
+        const visa = session.addGoal('Get a visa');
+        const hotel = session.addGoal('Find a hotel', { priority: 2 });
+        expect(session.getGoals().map(g => g.description)).toEqual(['Find a hotel', 'Get a visa']);
+
+        expect(session.updateGoal(visa, { priority: 3 })).toBe(true);
+        expect(session.completeGoal(hotel)).toBe(true);
+        expect(session.getGoals().map(g => g.description)).toEqual(['Get a visa']);
+        expect(session.removeGoal(visa)).toBe(true);
+        expect(session.updateGoal(visa, { priority: 1 })).toBe(false);
+        expect(session.getGoals(true).map(g => g.description)).toEqual(['Find a hotel']);
+        await agent.shutdown();
+    });
+});
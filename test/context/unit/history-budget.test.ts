@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { SmartHistoryManager } from '../../../src/core/context/SmartHistoryManager';
+import { SummarizationOptimizer } from '../../../src/core/context/optimizers/SummarizationOptimizer';
+import { TokenMetric } from '../../../src/core/context/metrics/TokenMetric';
+import { AgeMetric } from '../../../src/core/context/metrics/AgeMetric';
+import { ConversationMessage } from '../../../src/core/context/types';
+import { WorkingMemoryStorageFactory } from '../../../src/core/memory/modules/working/WorkingMemoryStorageFactory';
+import { contextWindowFor, DEFAULT_CONTEXT_WINDOW } from '../../../src/core/llm/ContextWindows';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../../src/agent/AgentBuilder';
+import { conversation, waitFor } from '../../utils/test-helpers';
+
+const message = (id: string, tokens: number, ageMs: number = 0): ConversationMessage => ({
+    id,
+    content: `message ${id}`,
+    role: 'user',
+    timestamp: new Date(Date.now() - ageMs),
+    relevanceScore: 1,
+    importance: 1,
+    tokens
+});
+
+const createManager = (maxTokens: number = 100) => {
+    const manager = new SmartHistoryManager(WorkingMemoryStorageFactory.create(), 100, [new TokenMetric(maxTokens), new AgeMetric()]);
+    manager.registerOptimizer('summarization', new SummarizationOptimizer(maxTokens, 2));
+    return manager;
+};
+
+describe('History within a context window', () => {
+    it('should leave a history that fits alone', async () => {
+        const messages = ['a', 'b', 'c'].map(id => message(id, 20));
+        const result = await createManager().buildHistory(messages, 1000);
+        expect(result).toEqual({ messages, tokenCount: 60, optimized: false, dropped: [], summarized: [] });
+    });
+
+    it('should summarize older messages once the token metric trips', async () => {
+        const messages = ['a', 'b', 'c', 'd'].map(id => message(id, 40));
+        const result = await createManager().buildHistory(messages, 1000);
+
+        expect(result.optimized).toBe(true);
+        expect(result.summarized).toEqual(['a', 'b']);
+        expect(result.dropped).toEqual([]);
+        expect(result.messages.map(m => m.id).slice(1)).toEqual(['c', 'd']);
+        expect(result.messages[0].role).toBe('system');
+        expect(result.messages[0].content).toContain('message a');
+    });
+
+    it('should drop the oldest messages to fit the budget and keep the last one', async () => {
+        const messages = [message('a', 30), message('b', 30), message('c', 30), message('d', 500)];
+        const result = await createManager(10000).buildHistory(messages, 70);
+        expect(result.messages.map(m => m.id)).toEqual(['d']);
+        expect(result.dropped).toEqual(['a', 'b', 'c']);
+        expect(result.tokenCount).toBe(500);
+
+        const fitting = await createManager(10000).buildHistory(messages.slice(0, 3), 70);
+        expect(fitting.messages.map(m => m.id)).toEqual(['b', 'c']);
+        expect(fitting.dropped).toEqual(['a']);
+    });
+
+    it('should look up context windows by model prefix', () => {
+        expect(contextWindowFor('gpt-4o-2024-08-06')).toBe(128000);
+        expect(contextWindowFor('gpt-4-0613')).toBe(8192);
+        expect(contextWindowFor('llama3.1:8b')).toBe(128000);
+        expect(contextWindowFor('my-model', { 'my-model': 2048 })).toBe(2048);
+        expect(contextWindowFor('unknown')).toBe(DEFAULT_CONTEXT_WINDOW);
+    });
+
+    it('should summarize long sessions in the prompt sent to the LLM', async () => {
+        const provider = new MockLLMProvider([], { loop: true })
+            .respondWith(conversation('Noted'))
+            .addRecording({ match: 'New messages:', response: { content: 'The user opened with a long first message.' } });
+        const agent = new AgentBuilder(
+            { name: 'HistoryAgent', role: 'assistant', capabilities: 'chats', goal: 'help' },
+            { llmConfig: { apiKey: 'unused', model: 'mock', contextWindow: { optimizeAboveTokens: 150 } } }
+        ).withLLMProvider(provider).create();
+        await agent.run();
+
+        const session = await agent.createSession('user', `first ${'x'.repeat(200)}`);
+        for (let turn = 1; turn <= 3; turn++) {
+            await waitFor(() => provider.getRequests().length === turn);
+            await session.chat(`turn ${turn} ${'y'.repeat(200)}`);
+        }
+        await waitFor(() => provider.getRequests().length === 5);
+
+        // The summary is written by the LLM just before the fourth answer
+        expect(provider.getRequests()[3].messages[1].content).toContain('user: first xxx');
+        const prompt = provider.getRequests()[4].messages;
+        const summary = prompt.find(m => m.role === 'system' && String(m.content).startsWith('Summary of earlier messages:'));
+        // The first exchange is summarized, the five latest messages are kept
+        expect(summary?.content).toBe('Summary of earlier messages:\nThe user opened with a long first message.');
+        expect(prompt.filter(m => m.role === 'user').map(m => String(m.content).split(' ').slice(0, 2).join(' ')))
+            .toEqual(['turn 1', 'turn 2', 'turn 3']);
+        expect(provider.getRequests()[0].messages.some(m => String(m.content).startsWith('Summary'))).toBe(false);
+        await agent.shutdown();
+    });
+});
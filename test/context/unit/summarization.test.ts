@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { SummarizationEngine } from '../../../src/core/context/engines/SummarizationEngine';
+import { SummarizationOptimizer } from '../../../src/core/context/optimizers/SummarizationOptimizer';
+import { ConversationMessage } from '../../../src/core/context/types';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+
+const message = (id: string, role: string, content: string, metadata: ConversationMessage['metadata'] = {}): ConversationMessage => ({
+    id,
+    content,
+    role,
+    timestamp: new Date(),
+    relevanceScore: 1,
+    importance: 1,
+    tokens: 10,
+    metadata
+});
+
+const turns = (count: number) => Array.from({ length: count }, (_, i) =>
+    message(`m${i}`, i % 2 === 0 ? 'user' : 'assistant', `message ${i}`)
+);
+
+const promptOf = (provider: MockLLMProvider, index: number) => String(provider.getRequests()[index].messages[1].content);
+
+describe('LLM summarization', () => {
+    it('should roll the latest summary forward as the conversation grows', async () => {
+        const provider = new MockLLMProvider()
+            .respondWith('Summary of messages 0 to 3')
+            .respondWith('Summary of messages 0 to 5');
+        const optimizer = new SummarizationOptimizer(0, 2, new SummarizationEngine({ llm: () => provider, model: 'mock' }));
+
+        const first = await optimizer.optimize(turns(6));
+        expect(first.map(m => m.id)).toEqual(['summary-m3', 'm4', 'm5']);
+        expect(first[0]).toMatchObject({
+            role: 'system',
+            content: 'Summary of earlier messages:\nSummary of messages 0 to 3',
+            metadata: { pinned: true, summarizes: ['m0', 'm1', 'm2', 'm3'] }
+        });
+        expect(promptOf(provider, 0)).toBe('New messages:\nuser: message 0\nassistant: message 1\nuser: message 2\nassistant: message 3');
+
+        const second = await optimizer.optimize(turns(8));
+        expect(second[0].metadata?.summarizes).toHaveLength(6);
+        expect(promptOf(provider, 1)).toBe(
+            'Existing summary:\nSummary of messages 0 to 3\n\nNew messages:\nuser: message 4\nassistant: message 5'
+        );
+
+        // Already summarized messages are not sent again
+        expect((await optimizer.optimize(turns(8)))[0].content).toContain('Summary of messages 0 to 5');
+        expect(provider.getRequests()).toHaveLength(2);
+    });
+
+    it('should keep tool calls with their results and track goals', async () => {
+        const provider = new MockLLMProvider()
+            .respondWith('The user asked about Lisbon')
+            .respondWith('The forecast for Lisbon is sunny');
+        const engine = new SummarizationEngine({
+            llm: () => provider,
+            model: 'mock',
+            goals: () => [{ id: 'g1', description: 'Plan a weekend in Lisbon', priority: 1, status: 'active', createdAt: new Date(), updatedAt: new Date() }]
+        });
+        const call = { id: 'c1', type: 'function', function: { name: 'forecast', arguments: '{"city":"Lisbon"}' } };
+        const messages = [
+            message('u1', 'user', 'What is the weather in Lisbon?'),
+            message('a1', 'assistant', '', { toolCalls: [call] }),
+            message('t1', 'tool', 'sunny'),
+            message('a2', 'assistant', 'It is sunny'),
+            message('u2', 'user', 'Thanks')
+        ];
+
+        // Keeping the two latest messages would separate the call from its result
+        const result = await new SummarizationOptimizer(0, 3, engine).optimize(messages);
+        expect(result.map(m => m.id)).toEqual(['summary-u1', 'a1', 't1', 'a2', 'u2']);
+
+        const summarized = await new SummarizationOptimizer(0, 2, engine).optimize(messages);
+        expect(summarized.map(m => m.id)).toEqual(['summary-t1', 'a2', 'u2']);
+        expect(summarized[0].metadata?.summary).toBe('The forecast for Lisbon is sunny');
+        expect(promptOf(provider, 1)).toBe([
+            'User goals to keep track of:\n- Plan a weekend in Lisbon',
+            'New messages:\nuser: What is the weather in Lisbon?\nassistant called forecast({"city":"Lisbon"})\ntool result: sunny'
+        ].join('\n\n'));
+    });
+
+    it('should condense messages when the LLM is unavailable', async () => {
+        const provider = new MockLLMProvider().failWith(503, 'Service unavailable');
+        const engine = new SummarizationEngine({ llm: () => provider, model: 'mock' });
+        const summary = await engine.summarize([message('u1', 'user', 'x'.repeat(150))], 'Earlier summary');
+        expect(summary).toBe(`Earlier summary\nuser: ${'x'.repeat(94)}...`);
+    });
+});
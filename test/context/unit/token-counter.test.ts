@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { BpeTokenizer } from '../../../src/core/context/metrics/BpeTokenizer';
+import { ENCODING_PATTERNS, encodingForModel, getTokenizer } from '../../../src/core/context/metrics/Encodings';
+import { TokenCounter } from '../../../src/core/context/metrics/TokenCounter';
+
+// Every single byte, then a few merges: "he", "ll", "hell" and " w"
+const vocabulary = () => {
+    const tokens = Array.from({ length: 256 }, (_, byte) => String.fromCharCode(byte));
+    tokens.push('he', 'll', 'hell', ' w');
+    return tokens.map((token, rank) => `${Buffer.from(token, 'latin1').toString('base64')} ${rank}`).join('\n');
+};
+
+describe('BpeTokenizer', () => {
+    const tokenizer = BpeTokenizer.fromTiktoken('toy', vocabulary(), ENCODING_PATTERNS.cl100k_base);
+
+    it('should merge byte pairs by rank within each piece', () => {
+        expect(tokenizer.encode('hello')).toEqual([258, 'o'.charCodeAt(0)]);
+        expect(tokenizer.encode('hello world')).toEqual([258, 111, 259, 111, 114, 108, 100]);
+        expect(tokenizer.count('hello world')).toBe(7);
+    });
+
+    it('should encode multi-byte characters as their UTF-8 bytes', () => {
+        expect(tokenizer.encode('é')).toEqual([0xc3, 0xa9]);
+        expect(tokenizer.count('日本')).toBe(6);
+    });
+
+    it('should split text like tiktoken', () => {
+        const pieces = (pattern: RegExp, text: string) => Array.from(text.matchAll(pattern), match => match[0]);
+        expect(pieces(ENCODING_PATTERNS.cl100k_base, "Hello world's 12345 !!\n")).toEqual(
+            ['Hello', ' world', "'s", ' ', '123', '45', ' !!\n']
+        );
+        expect(pieces(ENCODING_PATTERNS.o200k_base, "HelloWorld isn't")).toEqual(['Hello', 'World', " isn't"]);
+    });
+});
+
+describe('Encodings', () => {
+    it('should encode with the published cl100k_base vocabulary', () => {
+        const tokenizer = getTokenizer('cl100k_base')!;
+        expect(tokenizer.encode('hello world')).toEqual([15339, 1917]);
+        expect(tokenizer.encode("Hello world's 12345 !!\n")).toEqual([9906, 1917, 596, 220, 4513, 1774, 758, 4999]);
+        expect(tokenizer.count('The quick brown fox jumps over the lazy dog.')).toBe(10);
+    });
+
+    it('should encode with the published o200k_base vocabulary', () => {
+        const tokenizer = getTokenizer('o200k_base')!;
+        expect(tokenizer.encode('hello world')).toEqual([24912, 2375]);
+        expect(tokenizer.encode('こんにちは世界')).toEqual([95839, 28428]);
+    });
+
+    it('should count exact tokens for GPT-4', () => {
+        const counter = new TokenCounter('gpt-4');
+        expect(counter.isExact()).toBe(true);
+        expect(counter.count('hello world')).toBe(2);
+    });
+});
+
+describe('TokenCounter', () => {
+    it('should pick the encoding from the model', () => {
+        expect(encodingForModel('gpt-4o-mini')).toBe('o200k_base');
+        expect(encodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+        expect(encodingForModel()).toBe('cl100k_base');
+    });
+
+    it('should estimate CJK text per character', () => {
+        const counter = new TokenCounter();
+        expect(counter.estimateTokens('こんにちは世界')).toBe(7);
+        expect(counter.estimateTokens('hello world!')).toBe(3);
+    });
+
+    it('should add message framing and tool schemas', () => {
+        const counter = new TokenCounter('gpt-4o');
+        const message = { role: 'user' as const, content: 'What is the weather in Lisbon?' };
+        const content = counter.count(message.content) + counter.count('user');
+        expect(counter.countMessage(message)).toBe(content + 3);
+        expect(counter.countMessages([message, message])).toBe(2 * (content + 3) + 3);
+
+        const tool = {
+            type: 'function' as const,
+            function: { name: 'forecast', description: 'Weather forecast', parameters: { type: 'object', properties: {} } }
+        };
+        expect(counter.countTools([])).toBe(0);
+        expect(counter.countTools([tool])).toBe(12 + 8 + counter.count(JSON.stringify(tool.function)));
+    });
+});
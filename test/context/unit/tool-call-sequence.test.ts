@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { groupToolCalls, llmMessageInfo, repairToolCallSequence } from '../../../src/core/context/ToolCallSequence';
+import { SmartHistoryManager } from '../../../src/core/context/SmartHistoryManager';
+import { ConversationMessage } from '../../../src/core/context/types';
+import { LLMMessage } from '../../../src/core/llm/LLMProvider';
+import { WorkingMemoryStorageFactory } from '../../../src/core/memory/modules/working/WorkingMemoryStorageFactory';
+import { AgentMemorySystem } from '../../../src/core/memory/AgentMemorySystem';
+
+const call = (id: string, name: string = 'forecast') => ({ id, type: 'function' as const, function: { name, arguments: '{}' } });
+const result = (id: string, content: string = 'sunny'): LLMMessage => ({ role: 'tool', content, tool_call_id: id });
+
+describe('Tool call groups', () => {
+    it('should group a tool call with its results', () => {
+        const messages: LLMMessage[] = [
+            { role: 'user', content: 'Weather?' },
+            { role: 'assistant', tool_calls: [call('c1'), call('c2')] },
+            result('c1'),
+            result('c2'),
+            result('c3'),
+            { role: 'assistant', content: 'Sunny' }
+        ];
+        expect(groupToolCalls(messages, llmMessageInfo).map(group => group.length)).toEqual([1, 3, 1, 1]);
+    });
+
+    it('should leave a valid sequence untouched', () => {
+        const messages: LLMMessage[] = [
+            { role: 'user', content: 'Weather?' },
+            { role: 'assistant', tool_calls: [call('c1')] },
+            result('c1'),
+            { role: 'assistant', content: 'Sunny' }
+        ];
+        expect(repairToolCallSequence(messages)).toEqual({ messages, issues: [] });
+    });
+
+    it('should drop orphaned results and calls left without a result', () => {
+        const { messages, issues } = repairToolCallSequence([
+            result('c0'),
+            { role: 'user', content: 'Weather and time?' },
+            { role: 'assistant', tool_calls: [call('c1'), call('c2', 'clock')] },
+            result('c1'),
+            result('c1', 'rainy'),
+            { role: 'assistant', content: 'Let me check', tool_calls: [call('c3')] },
+            { role: 'assistant', tool_calls: [call('c4')] },
+            { role: 'user', content: 'Thanks' }
+        ]);
+
+        expect(messages).toEqual([
+            { role: 'user', content: 'Weather and time?' },
+            { role: 'assistant', tool_calls: [call('c1')] },
+            result('c1'),
+            { role: 'assistant', content: 'Let me check' },
+            { role: 'user', content: 'Thanks' }
+        ]);
+        expect(issues).toEqual([
+            'Dropped tool result c0 without a matching tool call',
+            'Dropped duplicate result of tool call c1',
+            'Removed tool call c2 (clock) without a result',
+            'Removed tool call c3 (forecast) without a result',
+            'Removed tool call c4 (forecast) without a result'
+        ]);
+    });
+});
+
+describe('Tool-call aware pruning', () => {
+    const message = (id: string, role: string, tokens: number, metadata: ConversationMessage['metadata'] = {}): ConversationMessage => ({
+        id, content: id, role, timestamp: new Date(), relevanceScore: 1, importance: 1, tokens, metadata
+    });
+
+    it('should drop a tool call together with its results to fit the budget', async () => {
+        const manager = new SmartHistoryManager(WorkingMemoryStorageFactory.create());
+        const messages = [
+            message('u1', 'user', 10),
+            message('a1', 'assistant', 10, { toolCalls: [call('c1'), call('c2')] }),
+            message('t1', 'tool', 10, { toolCallId: 'c1' }),
+            message('t2', 'tool', 10, { toolCallId: 'c2' }),
+            message('a2', 'assistant', 10),
+            message('u2', 'user', 10)
+        ];
+
+        const result = await manager.buildHistory(messages, 35);
+        expect(result.messages.map(m => m.id)).toEqual(['a2', 'u2']);
+        expect(result.dropped).toEqual(['u1', 'a1', 't1', 't2']);
+    });
+
+    it('should not orphan results when recalling a limited number of messages', async () => {
+        const memories = new AgentMemorySystem();
+        const remember = (content: string, metadata: [string, any][]) => memories.remember(content, undefined, new Map(metadata), 's1');
+        await remember('Weather and time?', [['role', 'user']]);
+        await remember('', [['role', 'assistant'], ['tool_calls', [call('c1'), call('c2', 'clock')]]]);
+        await remember('sunny', [['role', 'tool'], ['tool_call_id', 'c1']]);
+        await remember('10:00', [['role', 'tool'], ['tool_call_id', 'c2']]);
+
+        const recalled = await memories.recallRecentMessages('s1', 3);
+        expect(recalled.map(m => [m.role, m.tool_calls?.map((c: any) => c.id), m.tool_call_id])).toEqual([
+            ['user', undefined, undefined],
+            ['assistant', ['c1'], undefined],
+            ['tool', undefined, 'c1']
+        ]);
+        memories.stop();
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { MockLLMProvider } from '../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+import { ToolBuilder, StringOutput } from '../../src/core/Tool';
+import { AgentRunError } from '../../src/core/AgentRun';
+import { getEventEmitter } from '../../src/core/observability/AgentEventEmitter';
+import { conversation } from '../utils/test-helpers';
+
+async function createAgent(provider: MockLLMProvider) {
+  const agent = new AgentBuilder(
+    { name: 'RunAgent', role: 'calculator', capabilities: 'adds numbers', goal: 'add numbers' },
+    { llmConfig: { apiKey: 'unused', model: 'mock' } }
+  ).withLLMProvider(provider).create();
+
+  agent.registerTool(new ToolBuilder({
+    name: 'add',
+    description: 'Adds two numbers',
+    inputSchema: z.object({ a: z.number(), b: z.number() }),
+    handler: async (input) => new StringOutput(String(input.a + input.b))
+  }));
+
+  await agent.run();
+  const session = await agent.createSession('tester', 'Hello');
+  // Let the greeting turn finish before starting a run
+  await new Promise<void>(resolve => session.onConversation(() => resolve()));
+  return { agent, session };
+}
+
+describe('AgentRun', () => {
+  it('should loop through tool calls until a final answer', async () => {
+    const provider = new MockLLMProvider()
+      .respondWith(conversation('Hi'))
+      .respondWithToolCalls([{ name: 'add', arguments: { a: 2, b: 3 }, id: 'call_add' }])
+      .respondWith(conversation('The sum is 5'));
+    const { agent, session } = await createAgent(provider);
+
+    const steps: any[] = [];
+    getEventEmitter().on('REASONING_STEP', event => steps.push(event));
+
+    const result = await session.run('What is 2 + 3?');
+
+    expect(result.status).toBe('completed');
+    expect(result.answer).toContain('The sum is 5');
+    expect(result.steps.map(step => step.type)).toEqual(['think', 'act', 'observe', 'think']);
+    expect(result.steps[2]).toMatchObject({ toolName: 'add', status: 'success', content: '5' });
+    expect(result.iterations).toBe(2);
+    expect(result.toolCalls).toBe(1);
+
+    const runSteps = steps.filter(event => event.data.taskInfo.taskId === result.runId);
+    expect(runSteps.map(event => event.data.stateInfo.currentState)).toEqual(['think', 'act', 'observe', 'think']);
+    expect(session.getActiveRun()).toBeNull();
+
+    await agent.shutdown();
+  });
+
+  it('should stop with limit_exceeded when the LLM keeps calling tools', async () => {
+    const provider = new MockLLMProvider()
+      .respondWith(conversation('Hi'))
+      .respondWithToolCalls([{ name: 'add', arguments: { a: 1, b: 1 }, id: 'call_1' }])
+      .respondWithToolCalls([{ name: 'add', arguments: { a: 2, b: 2 }, id: 'call_2' }])
+      .respondWithToolCalls([{ name: 'add', arguments: { a: 3, b: 3 }, id: 'call_3' }]);
+    const { agent, session } = await createAgent(provider);
+
+    const error = await session.run('Keep adding', { maxIterations: 2 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentRunError);
+    expect(error.result.status).toBe('limit_exceeded');
+    expect(error.result.iterations).toBe(2);
+    // The third tool-call response is never requested
+    expect(provider.getRequests()).toHaveLength(3);
+
+    await agent.shutdown();
+  });
+
+  it('should fail as soon as the LLM answers with something that cannot be parsed', async () => {
+    const provider = new MockLLMProvider()
+      .respondWith(conversation('Hi'))
+      .respondWith('this is not JSON {');
+    const { agent, session } = await createAgent(provider);
+
+    const error = await session.run('What is 2 + 3?', { maxDurationMs: 60_000 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentRunError);
+    expect(error.result.status).toBe('failed');
+    expect(error.result.reason).toContain('could not be parsed');
+    expect(session.getActiveRun()).toBeNull();
+
+    await agent.shutdown();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { MockLLMProvider } from '../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+import { MemoryRetrievalConfig } from '../../src/core/configs';
+import { conversation, waitFor } from '../utils/test-helpers';
+
+const createAgent = async (provider: MockLLMProvider, retrieval?: MemoryRetrievalConfig) => {
+  const agent = new AgentBuilder(
+    { name: 'RecallAgent', role: 'assistant', capabilities: 'remembers', goal: 'help', memoryConfig: { retrieval } },
+    { llmConfig: { apiKey: 'unused', model: 'mock' } }
+  ).withLLMProvider(provider).create();
+
+  const semantic = (agent as any).core.memories.semanticMemory;
+  for (const fact of ['The user is allergic to peanuts', 'The user lives in Lisbon', 'Cats sleep a lot']) {
+    await semantic.storage.store(semantic.createMemoryUnit(fact));
+  }
+  await agent.run();
+  return agent;
+};
+
+describe('Memory-augmented prompting', () => {
+  it('should add relevant long-term memories to the prompt as a system block', async () => {
+    const provider = new MockLLMProvider().respondWith(conversation('Skip the satay'));
+    const agent = await createAgent(provider, { topK: 2 });
+
+    const session = await agent.createSession('user', 'Can I eat peanuts in Lisbon?');
+    await waitFor(() => provider.getRequests().length === 1);
+
+    const memoryBlocks = provider.getRequests()[0].messages
+      .filter(m => m.role === 'system' && String(m.content).startsWith('Relevant memories:'));
+    expect(memoryBlocks).toHaveLength(1);
+    expect(memoryBlocks[0].content).toContain('- The user is allergic to peanuts');
+    expect(memoryBlocks[0].content).toContain('- The user lives in Lisbon');
+    expect(memoryBlocks[0].content).not.toContain('Cats');
+
+    const sessionContext = (agent as any).core.sessionContextManager[session.sessionId];
+    expect((agent.debugPrompt(sessionContext, 'Can I eat peanuts?', {}) as any).memories).toBe(memoryBlocks[0].content);
+    await agent.shutdown();
+  });
+
+  it('should respect the token budget and leave prompts alone unless configured', async () => {
+    const budgeted = new MockLLMProvider().respondWith(conversation('Noted'));
+    const agent = await createAgent(budgeted, { maxTokens: 15 });
+    await agent.createSession('user', 'Can I eat peanuts in Lisbon?');
+    await waitFor(() => budgeted.getRequests().length === 1);
+
+    const block = budgeted.getRequests()[0].messages.find(m => String(m.content).startsWith('Relevant memories:'));
+    expect(String(block?.content).split('\n')).toHaveLength(2);
+    await agent.shutdown();
+
+    const plain = new MockLLMProvider().respondWith(conversation('Noted'));
+    const unconfigured = await createAgent(plain);
+    await unconfigured.createSession('user', 'Can I eat peanuts in Lisbon?');
+    await waitFor(() => plain.getRequests().length === 1);
+    expect(plain.getRequests()[0].messages.some(m => String(m.content).startsWith('Relevant memories:'))).toBe(false);
+    await unconfigured.shutdown();
+  });
+
+  it('should only recall what was learned from the session owner or from no user', async () => {
+    const provider = new MockLLMProvider([], { loop: true }).respondWith(conversation('Noted'));
+    const agent = await createAgent(provider, { topK: 10 });
+
+    const semantic = (agent as any).core.memories.semanticMemory;
+    await semantic.assertFact({ subject: 'alice', predicate: 'allergic_to', object: 'peanuts', statement: 'Alice is allergic to peanuts in Lisbon', subjectId: 'alice' });
+    await semantic.assertFact({ subject: 'bob', predicate: 'allergic_to', object: 'shellfish', statement: 'Bob is allergic to shellfish in Lisbon', subjectId: 'bob' });
+
+    await agent.createSession('alice', 'What am I allergic to in Lisbon?');
+    await waitFor(() => provider.getRequests().length === 1);
+    await agent.createSession('bob', 'What am I allergic to in Lisbon?');
+    await waitFor(() => provider.getRequests().length === 2);
+
+    const block = (index: number) => String(provider.getRequests()[index].messages
+      .find(m => m.role === 'system' && String(m.content).startsWith('Relevant memories:'))?.content);
+    expect(block(0)).toContain('Alice is allergic to peanuts');
+    expect(block(0)).toContain('The user lives in Lisbon');
+    expect(block(0)).not.toContain('Bob');
+    expect(block(1)).toContain('Bob is allergic to shellfish');
+    expect(block(1)).not.toContain('Alice');
+    await agent.shutdown();
+  });
+});
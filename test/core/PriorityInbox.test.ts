@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { PriorityInbox, InboxFullError } from '../../src/core/PriorityInbox';
+import { Message } from '../../src/core/Message';
+import { MetricsCollector, MetricValue } from '../../src/core/observability/MetricsCollector';
+import { SessionStore, StoredSession } from '../../src/core/SessionStore';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+
+const message = (sessionId: string, content: string) => new Message(sessionId, content);
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PriorityInbox', () => {
+  it('should dispatch higher priority messages first', async () => {
+    const inbox = new PriorityInbox({ maxConcurrent: 1 });
+    const processed: string[] = [];
+
+    inbox.enqueue(message('s1', 'low'), 'low');
+    inbox.enqueue(message('s2', 'normal'));
+    inbox.enqueue(message('s3', 'high'), 'high');
+    inbox.init(async m => { processed.push(m.payload.input); });
+    await flush();
+
+    expect(processed).toEqual(['high', 'normal', 'low']);
+    expect(inbox.hasPendingMessages()).toBe(false);
+  });
+
+  it('should process messages immediately without polling', async () => {
+    const inbox = new PriorityInbox();
+    const processed: string[] = [];
+    inbox.init(async m => { processed.push(m.payload.input); });
+
+    inbox.enqueue(message('s1', 'hello'));
+    await flush();
+
+    expect(processed).toEqual(['hello']);
+  });
+
+  it('should keep a busy session from blocking other sessions', async () => {
+    const inbox = new PriorityInbox({ maxConcurrent: 2, perSessionConcurrency: 1 });
+    const gate = deferred();
+    const started: string[] = [];
+
+    inbox.init(async m => {
+      started.push(m.payload.input);
+      if (m.payload.input === 's1-first') await gate.promise;
+    });
+    inbox.enqueue(message('s1', 's1-first'));
+    inbox.enqueue(message('s1', 's1-second'));
+    inbox.enqueue(message('s2', 's2-first'));
+    await flush();
+
+    expect(started).toEqual(['s1-first', 's2-first']);
+    expect(inbox.size()).toBe(1);
+
+    gate.resolve();
+    await flush();
+    expect(started).toEqual(['s1-first', 's2-first', 's1-second']);
+  });
+
+  it('should drop queued messages of a removed session only', () => {
+    const inbox = new PriorityInbox();
+    inbox.enqueue(message('s1', 'one'));
+    inbox.enqueue(message('s2', 'two'), 'high');
+    inbox.enqueue(message('s1', 'three'), 'low');
+
+    expect(inbox.removeSession('s1')).toBe(2);
+    expect(inbox.size()).toBe(1);
+    expect(inbox.dequeue()?.payload.input).toBe('two');
+    expect(inbox.hasPendingMessages()).toBe(false);
+  });
+
+  it('should reject messages beyond maxQueueSize', () => {
+    const inbox = new PriorityInbox({ maxQueueSize: 2 });
+    inbox.enqueue(message('s1', 'one'));
+    inbox.enqueue(message('s1', 'two'));
+
+    expect(() => inbox.enqueue(message('s1', 'three'))).toThrow(InboxFullError);
+    expect(inbox.size()).toBe(2);
+  });
+
+  it('should report queue depth and latency to MetricsCollector', async () => {
+    const inbox = new PriorityInbox({}, 'inbox-metrics-agent');
+    inbox.enqueue(message('s1', 'one'));
+    inbox.enqueue(message('s1', 'two'));
+    inbox.init(async () => {});
+    await flush();
+
+    const collector = MetricsCollector.getInstance();
+    // @Observe-decorated methods resolve to the unwrapped result
+    const depth = await (collector.getMetric('inbox-metrics-agent', 'queue_depth') as unknown as Promise<MetricValue[]>);
+    const latency = await (collector.getMetric('inbox-metrics-agent', 'queue_latency') as unknown as Promise<MetricValue[]>);
+
+    // Up on each enqueue, down as each message is taken off for processing
+    expect(depth.map(m => m.value)).toEqual([1, 2, 1, 0]);
+    expect(latency).toHaveLength(2);
+  });
+
+  it('should not save a session whose first message does not fit into the inbox', async () => {
+    const saved: StoredSession[] = [];
+    const sessionStore = {
+      saveSession: async (session: StoredSession) => { saved.push(session); },
+      deleteSession: async () => {},
+    } as unknown as SessionStore;
+    const agent = new AgentBuilder(
+      { name: 'FullInboxAgent', role: 'assistant', capabilities: 'chats', goal: 'help', sessionStore, inboxConfig: { maxQueueSize: 0 } },
+      { llmConfig: { apiKey: 'unused', model: 'mock' } }
+    ).create();
+
+    await expect(agent.createSession('user', 'Hello')).rejects.toBeInstanceOf(InboxFullError);
+    expect(saved).toEqual([]);
+  });
+
+  it('should keep the stream output of concurrent sessions apart', () => {
+    const agent = new AgentBuilder(
+      { name: 'StreamingAgent', role: 'assistant', capabilities: 'chats', goal: 'help' },
+      { llmConfig: { apiKey: 'unused', model: 'mock' } }
+    ).create();
+    const core = (agent as any).core;
+    const received: Array<[string, string | undefined]> = [];
+    core.registerStreamCallback((delta: string, _control: unknown, sessionId?: string) => received.push([delta, sessionId]));
+
+    core.bufferStreamDelta('hello from ', 's1');
+    core.bufferStreamDelta('hi from s2\n', 's2');
+    core.bufferStreamDelta('s1\n', 's1');
+
+    expect(received).toEqual([['hi from s2\n', 's2'], ['hello from s1\n', 's1']]);
+  });
+});
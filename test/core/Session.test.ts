@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { MockLLMProvider } from '../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+import { ToolBuilder, StringOutput } from '../../src/core/Tool';
+import { getEventEmitter } from '../../src/core/observability/AgentEventEmitter';
+import { waitFor } from '../utils/test-helpers';
+
+describe('Session.cancel', () => {
+  it('should abort a running tool and emit a cancellation event', async () => {
+    const provider = new MockLLMProvider()
+      .respondWithToolCalls([{ name: 'slow', arguments: {}, id: 'call_slow' }])
+      .respondWith('should never be requested');
+
+    const agent = new AgentBuilder(
+      { name: 'CancelAgent', role: 'tester', capabilities: 'waits', goal: 'wait' },
+      { llmConfig: { apiKey: 'unused', model: 'mock' } }
+    ).withLLMProvider(provider).create();
+
+    let toolSignal: AbortSignal | undefined;
+    agent.registerTool(new ToolBuilder({
+      name: 'slow',
+      description: 'Waits until aborted',
+      inputSchema: z.object({}),
+      handler: async (_input, _context, options) => {
+        toolSignal = options.signal;
+        await new Promise(() => {});
+        return new StringOutput('unreachable');
+      }
+    }));
+
+    const cancelled: any[] = [];
+    getEventEmitter().on('TASK_CANCELLED', event => cancelled.push(event));
+
+    await agent.run();
+    const session = await agent.createSession('tester', 'Start waiting');
+    await waitFor(() => toolSignal !== undefined);
+
+    session.cancel('user pressed stop');
+
+    expect(toolSignal!.aborted).toBe(true);
+    expect(cancelled[0].data.taskInfo).toMatchObject({ taskId: session.sessionId, status: 'CANCELLED' });
+
+    // The aborted tool must not feed a result back to the LLM
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(provider.getRequests()).toHaveLength(1);
+    expect(session.getAbortSignal().aborted).toBe(false);
+
+    await agent.shutdown();
+  });
+
+  it('should release the caller signal once a tool run ends', async () => {
+    const tool = new ToolBuilder({
+      name: 'quick',
+      description: 'Returns right away',
+      inputSchema: z.object({}),
+      handler: async () => new StringOutput('done')
+    });
+
+    const caller = new AbortController();
+    let listeners = 0;
+    const add = caller.signal.addEventListener.bind(caller.signal);
+    const remove = caller.signal.removeEventListener.bind(caller.signal);
+    caller.signal.addEventListener = ((...args: Parameters<typeof add>) => { listeners++; add(...args); }) as typeof add;
+    caller.signal.removeEventListener = ((...args: Parameters<typeof remove>) => { listeners--; remove(...args); }) as typeof remove;
+
+    for (let i = 0; i < 3; i++) {
+      await tool.run({}, { signal: caller.signal });
+    }
+    expect(listeners).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockLLMProvider } from '../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+import { FileSessionStore, StoredMessage, StoredSession } from '../../src/core/SessionStore';
+import { SessionState } from '../../src/core/SessionContext';
+import { SqliteSessionStore } from '../../src/core/SqliteSessionStore';
+import { conversation, waitFor } from '../utils/test-helpers';
+
+const createAgent = (directory: string, provider: MockLLMProvider) => new AgentBuilder(
+  { name: 'MemoAgent', role: 'assistant', capabilities: 'remembers', goal: 'remember', sessionStore: new FileSessionStore(directory) },
+  { llmConfig: { apiKey: 'unused', model: 'mock' } }
+).withLLMProvider(provider).create();
+
+describe('Session persistence', () => {
+  let directory: string;
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should resume a session with its history after a restart', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'sessions-'));
+    const store = new FileSessionStore(directory);
+
+    const first = createAgent(directory, new MockLLMProvider().respondWith(conversation('Nice to meet you, Ada')));
+    await first.run();
+    const session = await first.createSession('user', 'My name is Ada');
+    await waitFor(async () => ((await store.loadSession(session.sessionId))?.messages.length ?? 0) >= 2);
+    await first.shutdown();
+
+    const provider = new MockLLMProvider().respondWith(conversation('Your name is Ada'));
+    const second = createAgent(directory, provider);
+    await second.run();
+
+    const resumed = second.getSession(session.sessionId);
+    expect(resumed?.owner).toBe('user');
+    expect(resumed?.description).toBe('My name is Ada');
+    expect(await second.resumeSession(session.sessionId)).toBe(resumed);
+
+    await resumed!.chat('What is my name?', 'user');
+    await waitFor(() => provider.getRequests().length === 1);
+
+    const history = provider.getRequests()[0].messages.filter(m => m.role === 'user' || m.role === 'assistant');
+    expect(history.map(m => m.content)).toEqual(
+      expect.arrayContaining(['My name is Ada', JSON.stringify({ response: 'Nice to meet you, Ada' }), 'What is my name?'])
+    );
+    await waitFor(async () => ((await store.loadSession(session.sessionId))?.messages.length ?? 0) === 4);
+
+    await second.shutdown();
+    await expect(createAgent(directory, provider).resumeSession('missing')).rejects.toThrow('Session not found');
+  });
+
+  it('should restore the goals and domain of a resumed session', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'sessions-'));
+    const store = new FileSessionStore(directory);
+
+    const first = createAgent(directory, new MockLLMProvider().respondWith(conversation('Where to?')));
+    await first.run();
+    const session = await first.createSession('user', 'Book me a flight');
+    await waitFor(async () => ((await store.loadSession(session.sessionId))?.messages.length ?? 0) >= 2);
+    const context = (first as any).core.getSessionContext(session.sessionId).getConversationContext();
+    const goalId = context.addUserGoal({ description: 'Book a flight to Lisbon', priority: 2 });
+    context.setDomainContext({ domain: 'travel', confidence: 0.9, rules: new Map([['currency', 'EUR']]), priority: 1, activeSince: new Date() });
+    await (first as any).core.persistSession(session.sessionId);
+    await first.shutdown();
+
+    const second = createAgent(directory, new MockLLMProvider());
+    const resumed = (second as any).core.getSessionContext((await second.resumeSession(session.sessionId)).sessionId).getConversationContext();
+
+    expect(resumed.getActiveGoals()).toEqual([expect.objectContaining({ id: goalId, description: 'Book a flight to Lisbon', priority: 2 })]);
+    expect(resumed.getActiveGoals()[0].createdAt).toBeInstanceOf(Date);
+    expect(resumed.getCurrentDomain()?.rules.get('currency')).toBe('EUR');
+    expect(resumed.describeForPrompt()).toContain('Current domain: travel');
+    await second.shutdown();
+  });
+
+  it('should keep sessions in a SQLite file across connections', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'sessions-'));
+    const file = join(directory, 'sessions.db');
+    const now = new Date().toISOString();
+    const session: StoredSession = {
+      sessionId: 's1', owner: 'user', description: 'Hello', state: SessionState.Active, currentTopic: '',
+      currentInstruction: null, currentMode: null, startTime: now, lastInteractionTime: now
+    };
+    const message = (id: string): StoredMessage => ({ id, sender: 'user', content: `message ${id}`, timestamp: now, priority: 'NORMAL', context: {} });
+
+    const store = new SqliteSessionStore(file);
+    await store.saveSession(session);
+    await store.saveSession({ ...session, description: 'Hello again' });
+    await store.appendMessage('s1', message('m1'));
+    await store.appendMessage('s1', message('m2'));
+    await store.close();
+
+    const reopened = new SqliteSessionStore(file);
+    const record = await reopened.loadSession('s1');
+    expect(record?.session.description).toBe('Hello again');
+    expect(record?.messages.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect((await reopened.listSessions()).map(s => s.sessionId)).toEqual(['s1']);
+
+    await reopened.deleteSession('s1');
+    expect(await reopened.loadSession('s1')).toBeUndefined();
+    await reopened.close();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { StructuredOutputValidator, templateToZod } from '../../src/core/StructuredOutput';
+import { MockLLMProvider } from '../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+import { ReActClassifier } from '../../src/agent/ReActClassifier';
+import { ReActPromptTemplate } from '../../src/agent/ReActPromptTemplate';
+
+const forecastTypes = [
+  {
+    name: 'FORECAST',
+    description: 'Weather forecast for a city',
+    schema: { city: '<CITY>', temperature: 'number' },
+    zodSchema: z.object({ city: z.string(), temperature: z.number() })
+  }
+] as const;
+
+const answer = (content: Record<string, any>) => JSON.stringify({
+  question_nature: 'SIMPLE',
+  primary_action: {
+    response_purpose: 'DIRECT_RESPONSE',
+    response_description: 'Here is the forecast',
+    response_content: content
+  }
+});
+
+describe('StructuredOutputValidator', () => {
+  it('should derive schemas from templates and report readable errors', () => {
+    const validator = new StructuredOutputValidator(templateToZod({
+      answer: '<ANSWER>',
+      sources: ['<URL>', '...'],
+      confident: 'boolean'
+    }));
+
+    expect(validator.validate('{"answer":"42","sources":["a"],"confident":true}').success).toBe(true);
+
+    const invalid = validator.validate('{"answer":42,"sources":"a"}');
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.errors).toEqual([
+        'answer: Expected string, received number',
+        'sources: Expected array, received string',
+        'confident: Required'
+      ]);
+    }
+
+    expect(validator.validate('not json').success).toBe(false);
+    expect(validator.getResponseFormat().schema).toMatchObject({
+      type: 'object',
+      properties: { sources: { type: 'array', items: { type: 'string' } }, confident: { type: 'boolean' } },
+      required: ['answer', 'sources', 'confident']
+    });
+  });
+
+  it('should re-ask with validation errors and deliver the typed result to onEvent', async () => {
+    const provider = new MockLLMProvider()
+      .respondWith(answer({ messageType: 'FORECAST', city: 'Oslo', temperature: 'cold' }))
+      .respondWith(answer({ messageType: 'FORECAST', city: 'Oslo', temperature: -3 }));
+
+    const agent = new AgentBuilder(
+      { name: 'ForecastAgent', role: 'forecaster', capabilities: 'forecasts weather', goal: 'forecast' },
+      { llmConfig: { apiKey: 'unused', model: 'mock', structuredOutput: { maxRepairAttempts: 1 } } }
+    ).withLLMProvider(provider).build('ForecastAgent', forecastTypes, ReActClassifier, ReActPromptTemplate);
+
+    await agent.run();
+    const session = await agent.createSession('tester', 'Weather in Oslo?');
+    const event = await new Promise<any>(resolve => session.onEvent(result => resolve(result)));
+
+    expect(event).toEqual({ messageType: 'FORECAST', city: 'Oslo', temperature: -3 });
+
+    const [first, repair] = provider.getRequests();
+    expect(first.responseFormat?.schema.properties.primary_action.required).toContain('response_content');
+    const lastMessage = repair.messages[repair.messages.length - 1];
+    expect(lastMessage.role).toBe('user');
+    expect(lastMessage.content).toContain('primary_action.response_content.temperature: Expected number, received string');
+
+    await agent.shutdown();
+  });
+});
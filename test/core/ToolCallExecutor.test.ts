@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ToolCallExecutor, ToolCallRequest, ToolCallResult } from '../../src/core/ToolCallExecutor';
+import { MockLLMProvider } from '../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../src/agent/AgentBuilder';
+import { ToolBuilder, StringOutput } from '../../src/core/Tool';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const call = (id: string, dependsOn?: string[]): ToolCallRequest => ({ toolCallId: id, toolName: 'work', arguments: {}, dependsOn });
+
+describe('ToolCallExecutor', () => {
+  it('should run calls concurrently up to the limit and keep results in call order', async () => {
+    let running = 0;
+    let peak = 0;
+    const delays: Record<string, number> = { a: 30, b: 5, c: 15, d: 1 };
+
+    const batch = await new ToolCallExecutor(2).execute(
+      ['a', 'b', 'c', 'd'].map(id => call(id)),
+      async ({ toolCallId, toolName }): Promise<ToolCallResult> => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(delays[toolCallId]);
+        running--;
+        return { status: 'success', toolCallId, toolName };
+      }
+    );
+
+    expect(peak).toBe(2);
+    expect(batch.status).toBe('success');
+    expect(batch.results.map(r => r.toolCallId)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should wait for dependencies and skip calls whose dependency failed', async () => {
+    const started: string[] = [];
+    const batch = await new ToolCallExecutor(4).execute(
+      [call('fetch'), call('parse', ['fetch']), call('broken'), call('report', ['broken']), call('loop', ['loop2']), call('loop2', ['loop'])],
+      async ({ toolCallId, toolName }): Promise<ToolCallResult> => {
+        started.push(toolCallId);
+        await sleep(toolCallId === 'fetch' ? 10 : 1);
+        if (toolCallId === 'broken') throw new Error('boom');
+        return { status: 'success', toolCallId, toolName };
+      }
+    );
+
+    expect(started.indexOf('parse')).toBeGreaterThan(started.indexOf('fetch'));
+    expect(started).not.toContain('report');
+    expect(batch.status).toBe('partial');
+    expect(batch.failed).toBe(4);
+    expect(batch.results.find(r => r.toolCallId === 'broken')!.error).toBe('boom');
+    expect(batch.results.find(r => r.toolCallId === 'report')!.error).toContain('broken failed');
+    expect(batch.results.find(r => r.toolCallId === 'loop')!.error).toContain('circular');
+  });
+
+  it('should send all results of one turn back to the LLM together', async () => {
+    const provider = new MockLLMProvider()
+      .respondWithToolCalls([
+        { name: 'lookup', arguments: { city: 'Oslo' }, id: 'call_oslo' },
+        { name: 'lookup', arguments: { city: 'Nowhere' }, id: 'call_nowhere' },
+        { name: 'lookup', arguments: { city: 'Paris' }, id: 'call_paris' }
+      ])
+      .respondWith(JSON.stringify({
+        primary_action: {
+          response_purpose: 'CONVERSATION',
+          response_content: { response: 'Done' },
+          response_description: 'Done'
+        }
+      }));
+
+    const agent = new AgentBuilder(
+      { name: 'BatchAgent', role: 'forecaster', capabilities: 'looks up weather', goal: 'report weather' },
+      { llmConfig: { apiKey: 'unused', model: 'mock' } }
+    ).withLLMProvider(provider).create();
+
+    agent.registerTool(new ToolBuilder({
+      name: 'lookup',
+      description: 'Looks up the weather',
+      inputSchema: z.object({ city: z.string() }),
+      handler: async ({ city }) => {
+        // Finish in reverse order to make sure ordering comes from the executor
+        await sleep(city === 'Oslo' ? 20 : 1);
+        if (city === 'Nowhere') throw new Error('unknown city');
+        return new StringOutput(`${city}: sunny`);
+      },
+      options: { maxRetries: 0 }
+    }));
+
+    await agent.run();
+    await agent.createSession('tester', 'Weather in Oslo, Nowhere and Paris?');
+
+    const start = Date.now();
+    while (provider.getRequests().length < 2 && Date.now() - start < 2000) {
+      await sleep(5);
+    }
+    await sleep(20);
+
+    expect(provider.getRequests()).toHaveLength(2);
+    const toolMessages = provider.getRequests()[1].messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call_oslo', 'call_nowhere', 'call_paris']);
+    expect(toolMessages[0].content).toBe('Oslo: sunny');
+    expect(toolMessages[1].content).toContain('unknown city');
+
+    await agent.shutdown();
+  });
+
+  it('should answer malformed tool calls with an error instead of dropping them', async () => {
+    const provider = new MockLLMProvider()
+      .addRecording({
+        response: {
+          content: '',
+          finishReason: 'tool_calls',
+          toolCalls: [
+            { id: 'call_ok', type: 'function', function: { name: 'lookup', arguments: '{"city":"Oslo"}' } },
+            { id: 'call_broken', type: 'function', function: { name: 'lookup', arguments: '{"city":' } },
+            { id: 'call_nameless', type: 'function', function: { name: '', arguments: '{}' } }
+          ]
+        }
+      })
+      .respondWith(JSON.stringify({
+        primary_action: {
+          response_purpose: 'CONVERSATION',
+          response_content: { response: 'Done' },
+          response_description: 'Done'
+        }
+      }));
+
+    const agent = new AgentBuilder(
+      { name: 'MalformedAgent', role: 'forecaster', capabilities: 'looks up weather', goal: 'report weather' },
+      { llmConfig: { apiKey: 'unused', model: 'mock' } }
+    ).withLLMProvider(provider).create();
+
+    const cities: string[] = [];
+    agent.registerTool(new ToolBuilder({
+      name: 'lookup',
+      description: 'Looks up the weather',
+      inputSchema: z.object({ city: z.string() }),
+      handler: async ({ city }) => {
+        cities.push(city);
+        return new StringOutput(`${city}: sunny`);
+      }
+    }));
+
+    await agent.run();
+    await agent.createSession('tester', 'Weather in Oslo?');
+
+    const start = Date.now();
+    while (provider.getRequests().length < 2 && Date.now() - start < 2000) {
+      await sleep(5);
+    }
+
+    expect(cities).toEqual(['Oslo']);
+    const toolMessages = provider.getRequests()[1].messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call_ok', 'call_broken', 'call_nameless']);
+    expect(toolMessages[1].content).toContain('not valid JSON');
+    expect(toolMessages[2].content).toContain('missing a function name');
+
+    await agent.shutdown();
+  });
+});
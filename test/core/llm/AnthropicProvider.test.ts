@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnthropicProvider } from '../../../src/core/llm/AnthropicProvider';
+import { LLMProviderError } from '../../../src/core/llm/LLMProvider';
+
+function sseResponse(events: any[]): Response {
+  const body = events.map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('');
+  return new Response(body, { status: 200 });
+}
+
+describe('AnthropicProvider', () => {
+  const originalFetch = globalThis.fetch;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let provider: AnthropicProvider;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    provider = new AnthropicProvider({ provider: 'anthropic', apiKey: 'test-key', model: 'claude-test' });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should translate OpenAI-style history into the Messages API format', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      content: [{ type: 'text', text: 'done' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 2 }
+    }), { status: 200 }));
+
+    await provider.chat({
+      model: 'claude-test',
+      messages: [
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: 'What is the weather?' },
+        { role: 'assistant', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' }
+      ]
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('test-key');
+    expect(body.system).toBe('You are helpful');
+    expect(body.max_tokens).toBe(4096);
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'What is the weather?' }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' }] }
+    ]);
+  });
+
+  it('should map tool_use blocks to OpenAI-style tool calls', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'calculator', input: { expression: '1+1' } }],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 5, output_tokens: 7 }
+    }), { status: 200 }));
+
+    const response = await provider.chat({ model: 'claude-test', messages: [{ role: 'user', content: '1+1?' }] });
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([
+      { id: 'toolu_1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"1+1"}' } }
+    ]);
+    expect(response.usage).toEqual({ promptTokens: 5, completionTokens: 7, totalTokens: 12 });
+  });
+
+  it('should assemble streamed text and tool input deltas', async () => {
+    fetchMock.mockResolvedValue(sseResponse([
+      { type: 'message_start', message: { usage: { input_tokens: 3 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me ' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'check.' } },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_2', name: 'weather' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Oslo"}' } },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+      { type: 'message_stop' }
+    ]));
+
+    const deltas: string[] = [];
+    const response = await provider.stream(
+      { model: 'claude-test', messages: [{ role: 'user', content: 'Weather in Oslo?' }] },
+      delta => deltas.push(delta)
+    );
+
+    expect(deltas).toEqual(['Let me ', 'check.']);
+    expect(response.content).toBe('Let me check.');
+    expect(response.toolCalls?.[0].function).toEqual({ name: 'weather', arguments: '{"city":"Oslo"}' });
+    expect(response.usage?.totalTokens).toBe(12);
+  });
+
+  it('should mark cacheable system prompts and count cached prompt tokens', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      content: [{ type: 'text', text: 'hi' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 4, cache_read_input_tokens: 100, output_tokens: 1 }
+    }), { status: 200 }));
+
+    const response = await provider.chat({
+      model: 'claude-test',
+      messages: [
+        { role: 'system', content: 'You are helpful', cache: true },
+        { role: 'system', content: 'Context: today' },
+        { role: 'user', content: 'hi' }
+      ]
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.system).toEqual([
+      { type: 'text', text: 'You are helpful', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'Context: today' }
+    ]);
+    expect(response.usage).toEqual({ promptTokens: 104, completionTokens: 1, totalTokens: 105 });
+  });
+
+  it('should surface HTTP failures as LLMProviderError with status', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      type: 'error',
+      error: { type: 'rate_limit_error', message: 'Too many requests' }
+    }), { status: 429 }));
+
+    const error = await provider.chat({ model: 'claude-test', messages: [{ role: 'user', content: 'hi' }] }).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.status).toBe(429);
+    expect(error.message).toBe('Too many requests');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { FallbackLLMProvider } from '../../../src/core/llm/FallbackLLMProvider';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { LLMProviderFactory } from '../../../src/core/llm/LLMProviderFactory';
+import { LLMRouter } from '../../../src/core/llm/LLMRouter';
+
+const request = (model: string) => ({ model, messages: [{ role: 'user' as const, content: 'hi' }] });
+
+describe('FallbackLLMProvider', () => {
+  it('should fail over to the next candidate on rate limits and report the model used', async () => {
+    const primary = new MockLLMProvider().failWith(429, 'Rate limit reached');
+    const secondary = new MockLLMProvider().respondWith('from secondary');
+    const provider = new FallbackLLMProvider([
+      { model: 'gpt-4o', provider: primary },
+      { model: 'gpt-4o-mini', provider: secondary }
+    ]);
+
+    const response = await provider.chat(request('gpt-4o'));
+
+    expect(response.content).toBe('from secondary');
+    expect(response.model).toBe('gpt-4o-mini');
+    expect(secondary.getRequests()[0].model).toBe('gpt-4o-mini');
+  });
+
+  it('should fail over on context length errors but not on authentication errors', async () => {
+    const contextProvider = new FallbackLLMProvider([
+      { model: 'small', provider: new MockLLMProvider().failWith(400, 'too long', 'context_length_exceeded') },
+      { model: 'large', provider: new MockLLMProvider().respondWith('ok') }
+    ]);
+    expect((await contextProvider.chat(request('small'))).content).toBe('ok');
+
+    const secondary = new MockLLMProvider().respondWith('unused');
+    const authProvider = new FallbackLLMProvider([
+      { model: 'a', provider: new MockLLMProvider().failWith(401, 'Invalid API key') },
+      { model: 'b', provider: secondary }
+    ]);
+    const error = await authProvider.chat(request('a')).catch(e => e);
+    expect(error.status).toBe(401);
+    expect(secondary.getRequests()).toHaveLength(0);
+  });
+
+  it('should start the chain at the routed model', async () => {
+    const strong = new MockLLMProvider().respondWith('strong');
+    const cheap = new MockLLMProvider().respondWith('cheap');
+    const provider = new FallbackLLMProvider([
+      { model: 'strong', provider: strong },
+      { model: 'cheap', provider: cheap }
+    ]);
+    const router = new LLMRouter([{ mode: 'direct', model: 'cheap' }, { mode: 'react', model: 'strong' }]);
+
+    const model = router.selectModel('strong', { mode: 'direct', priority: 'normal' });
+    const response = await provider.stream(request(model), () => {});
+
+    expect(response.content).toBe('cheap');
+    expect(strong.getRequests()).toHaveLength(0);
+  });
+
+  it('should be created by the factory when fallbacks are configured', () => {
+    const provider = LLMProviderFactory.create({
+      apiKey: 'key',
+      model: 'gpt-4o',
+      fallbacks: [{ model: 'llama3', provider: 'ollama' }]
+    });
+
+    expect(provider).toBeInstanceOf(FallbackLLMProvider);
+    expect(provider.name).toBe('fallback(openai:gpt-4o,ollama:llama3)');
+  });
+
+  it('should only pass the endpoint and key on to fallbacks of the same provider', () => {
+    const provider = LLMProviderFactory.create({
+      apiKey: 'openai-key',
+      model: 'gpt-4o',
+      baseURL: 'https://gateway.example.com/v1',
+      fallbacks: [{ model: 'gpt-4o-mini' }, { model: 'claude-3-5-haiku', provider: 'anthropic', apiKey: 'anthropic-key' }]
+    });
+
+    const [, sameProvider, otherProvider] = (provider as any).candidates.map((c: any) => c.provider);
+    expect(sameProvider.client.baseURL).toBe('https://gateway.example.com/v1');
+    expect(sameProvider.client.apiKey).toBe('openai-key');
+    expect(otherProvider.baseURL).toBe('https://api.anthropic.com');
+    expect(otherProvider.apiKey).toBe('anthropic-key');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { z } from 'zod';
+import { MockLLMProvider, RecordingLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { LLMProviderError } from '../../../src/core/llm/LLMProvider';
+import { AgentBuilder } from '../../../src/agent/AgentBuilder';
+import { ToolBuilder, StringOutput } from '../../../src/core/Tool';
+
+describe('MockLLMProvider', () => {
+  const request = (content: string) => ({ model: 'mock', messages: [{ role: 'user' as const, content }] });
+
+  it('should replay scripted responses in order and record requests', async () => {
+    const provider = new MockLLMProvider()
+      .respondWithToolCalls([{ name: 'calculator', arguments: { a: 1, b: 2 }, id: 'call_1' }])
+      .respondWith('3');
+
+    const first = await provider.chat(request('1+2?'));
+    const second = await provider.chat(request('result'));
+
+    expect(first.finishReason).toBe('tool_calls');
+    expect(first.toolCalls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'calculator', arguments: '{"a":1,"b":2}' } }
+    ]);
+    expect(second.content).toBe('3');
+    expect(provider.getRequests().map(r => r.messages[0].content)).toEqual(['1+2?', 'result']);
+
+    const error = await provider.chat(request('again')).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.code).toBe('mock_exhausted');
+  });
+
+  it('should stream recorded chunks and prefer matching recordings', async () => {
+    const provider = new MockLLMProvider([
+      { match: 'weather', response: { content: 'Sunny', finishReason: 'stop' } },
+      { response: { content: 'Hello there', finishReason: 'stop' }, chunks: ['Hello', ' there'] }
+    ]);
+
+    const deltas: string[] = [];
+    const streamed = await provider.stream(request('hi'), delta => deltas.push(delta));
+    const matched = await provider.chat(request('what is the weather?'));
+
+    expect(deltas).toEqual(['Hello', ' there']);
+    expect(streamed.content).toBe('Hello there');
+    expect(matched.content).toBe('Sunny');
+  });
+
+  describe('record and replay', () => {
+    const file = path.join(os.tmpdir(), `mock-llm-${process.pid}.json`);
+
+    afterEach(() => {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    });
+
+    it('should replay what RecordingLLMProvider captured', async () => {
+      const recorder = new RecordingLLMProvider(new MockLLMProvider().respondWith('recorded', ['rec', 'orded']));
+      await recorder.stream(request('hi'), () => {});
+      await recorder.save(file);
+
+      const replay = await MockLLMProvider.fromFile(file);
+      const deltas: string[] = [];
+      const response = await replay.stream(request('hi'), delta => deltas.push(delta));
+
+      expect(deltas).toEqual(['rec', 'orded']);
+      expect(response.content).toBe('recorded');
+    });
+  });
+
+  it('should drive an agent through a tool call without network access', async () => {
+    const provider = new MockLLMProvider()
+      .respondWithToolCalls([{ name: 'add', arguments: { a: 2, b: 3 }, id: 'call_add' }])
+      .respondWith(JSON.stringify({
+        primary_action: {
+          response_purpose: 'CONVERSATION',
+          response_content: { response: 'The sum is 5' },
+          response_description: 'The sum is 5'
+        }
+      }));
+
+    const agent = new AgentBuilder(
+      { name: 'MockAgent', role: 'calculator', capabilities: 'adds numbers', goal: 'add numbers' },
+      { llmConfig: { apiKey: 'unused', model: 'mock' } }
+    ).withLLMProvider(provider).create();
+
+    agent.registerTool(new ToolBuilder({
+      name: 'add',
+      description: 'Adds two numbers',
+      inputSchema: z.object({ a: z.number(), b: z.number() }),
+      handler: async (input) => new StringOutput(String(input.a + input.b))
+    }));
+
+    await agent.run();
+    const session = await agent.createSession('tester', 'What is 2 + 3?');
+    const answer = new Promise<any>(resolve => session.onConversation(obj => resolve(obj)));
+
+    expect(JSON.stringify(await answer)).toContain('The sum is 5');
+    const toolMessage = provider.getRequests()[1].messages.find(m => m.role === 'tool');
+    expect(toolMessage).toMatchObject({ tool_call_id: 'call_add', content: '5' });
+
+    await agent.shutdown();
+  });
+});
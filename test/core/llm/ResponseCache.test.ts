@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { CachingLLMProvider, FileResponseCacheStore, InMemoryResponseCacheStore } from '../../../src/core/llm/ResponseCache';
+import { LLMChatRequest } from '../../../src/core/llm/LLMProvider';
+
+const request = (question: string, temperature = 0): LLMChatRequest => ({
+  model: 'mock-model',
+  temperature,
+  messages: [
+    { role: 'system', content: 'You are helpful', cache: true },
+    { role: 'user', content: question }
+  ]
+});
+
+describe('CachingLLMProvider', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should serve repeated deterministic requests from the cache', async () => {
+    const mock = new MockLLMProvider().respondWith('Paris').respondWith('Berlin').respondWith('Rome');
+    const lookups: boolean[] = [];
+    const provider = new CachingLLMProvider(mock, new InMemoryResponseCacheStore(), { onLookup: hit => lookups.push(hit) });
+
+    expect((await provider.chat(request('Capital of France?'))).content).toBe('Paris');
+    const cached = await provider.chat(request('  Capital of\nFrance? '));
+    expect(cached.content).toBe('Paris');
+    expect(cached.usage?.totalTokens).toBe(0);
+
+    const streamed: string[] = [];
+    await provider.stream(request('Capital of France?'), delta => streamed.push(delta));
+    expect(streamed.join('')).toBe('Paris');
+
+    // Sampled requests always reach the provider
+    expect((await provider.chat(request('Capital of France?', 0.7))).content).toBe('Berlin');
+    expect((await provider.chat({ ...request('Capital of France?'), temperature: undefined })).content).toBe('Rome');
+
+    expect(mock.getRequests()).toHaveLength(3);
+    expect(lookups).toEqual([false, true, true]);
+    expect(provider.getStats()).toEqual({ hits: 2, misses: 1 });
+  });
+
+  it('should evict least recently used entries and honour the ttl', async () => {
+    const mock = new MockLLMProvider([], { loop: true }).respondWith('fresh');
+    const provider = new CachingLLMProvider(mock, new InMemoryResponseCacheStore(2), { ttlMs: 50 });
+
+    await provider.chat(request('a'));
+    await provider.chat(request('b'));
+    await provider.chat(request('a'));
+    await provider.chat(request('c'));   // evicts 'b', the least recently used
+    await provider.chat(request('b'));
+    expect(provider.getStats()).toEqual({ hits: 1, misses: 4 });
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await provider.chat(request('b'));
+    expect(provider.getStats().misses).toBe(5);
+  });
+
+  it('should persist entries with the file store', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'response-cache-'));
+    const path = join(dir, 'cache.json');
+
+    const first = new CachingLLMProvider(new MockLLMProvider().respondWith('Paris'), new FileResponseCacheStore(path));
+    await first.chat(request('Capital of France?'));
+    await first.flush();
+
+    const mock = new MockLLMProvider().respondWith('not cached');
+    const second = new CachingLLMProvider(mock, new FileResponseCacheStore(path));
+    expect((await second.chat(request('Capital of France?'))).content).toBe('Paris');
+    expect(mock.getRequests()).toHaveLength(0);
+  });
+
+  it('should write the file store once for a burst of changes', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'response-cache-'));
+    const path = join(dir, 'cache.json');
+    const store = new FileResponseCacheStore(path, 10, 20);
+    const entry = { response: { content: 'cached' }, createdAt: 0 } as any;
+
+    await store.set('a', entry);
+    await store.set('b', entry);
+    expect(existsSync(path)).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(Object.keys(JSON.parse(readFileSync(path, 'utf8')))).toEqual(['a', 'b']);
+  });
+
+  it('should still answer when the store fails to save', async () => {
+    const store = new InMemoryResponseCacheStore();
+    store.set = async () => { throw new Error('disk full'); };
+    const provider = new CachingLLMProvider(new MockLLMProvider().respondWith('Paris'), store);
+
+    expect((await provider.chat(request('Capital of France?'))).content).toBe('Paris');
+  });
+});
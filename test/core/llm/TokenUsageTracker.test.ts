@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { TokenUsageTracker, TokenBudgetExceededError } from '../../../src/core/llm/TokenUsageTracker';
+import { LLMErrorHandler } from '../../../src/core/LLMErrorHandler';
+import { Session } from '../../../src/core/Session';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../../src/agent/AgentBuilder';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens
+});
+
+describe('TokenUsageTracker', () => {
+  it('should roll usage up per session, per day and in total with cost', () => {
+    const tracker = new TokenUsageTracker({}, { 'gpt-4o': { promptPer1K: 0.005, completionPer1K: 0.015 } });
+    const today = new Date('2026-03-01T10:00:00Z');
+    const tomorrow = new Date('2026-03-02T10:00:00Z');
+
+    tracker.record('s1', 'gpt-4o', usage(1000, 1000), today);
+    tracker.record('s1', 'gpt-4o', usage(500, 0), today);
+    tracker.record('s2', 'unpriced-model', usage(100, 50), tomorrow);
+
+    const s1 = tracker.getSessionUsage('s1');
+    expect(s1).toMatchObject({ promptTokens: 1500, completionTokens: 1000, totalTokens: 2500, calls: 2 });
+    expect(s1.cost).toBeCloseTo(0.0225);
+    expect(tracker.getSessionUsage('s2').cost).toBe(0);
+    expect(tracker.getDailyUsage(today).totalTokens).toBe(2500);
+    expect(tracker.getDailyUsage(tomorrow).totalTokens).toBe(150);
+    expect(tracker.getTotalUsage()).toMatchObject({ totalTokens: 2650, calls: 3 });
+  });
+
+  it('should refuse once the session budget is used up', () => {
+    const tracker = new TokenUsageTracker({ perSession: 100 });
+
+    expect(tracker.checkBudget('s1', 'gpt-4o')).toEqual({ action: 'allow', model: 'gpt-4o' });
+    tracker.record('s1', 'gpt-4o', usage(80, 20));
+
+    expect(tracker.checkBudget('s1', 'gpt-4o').action).toBe('refuse');
+    expect(tracker.checkBudget('s2', 'gpt-4o').action).toBe('allow');
+  });
+
+  it('should downgrade the model once the daily budget is used up', () => {
+    const tracker = new TokenUsageTracker({ perDay: 100, onExceeded: 'downgrade', downgradeModel: 'gpt-4o-mini' });
+    tracker.record('s1', 'gpt-4o', usage(100, 10));
+
+    expect(tracker.checkBudget('s2', 'gpt-4o')).toMatchObject({ action: 'downgrade', model: 'gpt-4o-mini' });
+  });
+
+  it('should count calls outside a session towards the day only', () => {
+    const tracker = new TokenUsageTracker({ perDay: 100, perSession: 1000 });
+    tracker.record(undefined, 'gpt-4o', usage(90, 10));
+
+    expect(tracker.getDailyUsage().totalTokens).toBe(100);
+    expect(tracker.getTotalUsage().calls).toBe(1);
+    expect(tracker.checkBudget(undefined, 'gpt-4o').action).toBe('refuse');
+  });
+
+  it('should check the budget before enhancing a prompt', async () => {
+    const provider = new MockLLMProvider([], { loop: true }).respondWith('Improved prompt');
+    const agent = new AgentBuilder(
+      { name: 'BudgetAgent', role: 'assistant', capabilities: 'chats', goal: 'help' },
+      { llmConfig: { apiKey: 'unused', model: 'mock', tokenBudget: { perDay: 1 } } }
+    ).withLLMProvider(provider).create();
+
+    expect(await agent.enhancePrompt('Write a poem')).toBe('Improved prompt');
+    expect(agent.getTokenUsage().calls).toBe(1);
+    await expect(agent.enhancePrompt('Write a poem')).rejects.toBeInstanceOf(TokenBudgetExceededError);
+    expect(provider.getRequests()).toHaveLength(1);
+  });
+
+  it('should produce a non-recoverable, user-facing error when refusing', async () => {
+    const error = new TokenBudgetExceededError('Session token budget of 100 exceeded (100 used)');
+    const result = JSON.parse(await LLMErrorHandler.handleError(error, { sessionId: 's1' } as Session));
+
+    expect(LLMErrorHandler.extractErrorDetails(error).recoverable).toBe(false);
+    expect(result.userMessage).toBe('The token budget for this conversation has been used up.');
+  });
+});
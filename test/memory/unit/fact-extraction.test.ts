@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../../src/agent/AgentBuilder';
+import { SemanticMemoryStorageFactory } from '../../../src/core/memory/modules/semantic/SemanticMemoryStorageFactory';
+import { RelationType } from '../../../src/core/memory/modules/semantic/types';
+import { conversation, waitFor } from '../../utils/test-helpers';
+
+const livesIn = (city: string, validFrom?: string) => ({
+    subject: 'user',
+    predicate: 'lives_in',
+    object: city,
+    statement: `The user lives in ${city}`,
+    exclusive: true,
+    confidence: 0.9,
+    ...(validFrom ? { validFrom } : {})
+});
+
+describe('SemanticMemory knowledge updates', () => {
+    it('should merge concepts with the same name and relations between them', async () => {
+        const memory = SemanticMemoryStorageFactory.create();
+        const first = await memory.upsertConcept('Lisbon', 'city', new Map([['country', 'Portugal']]));
+        const second = await memory.upsertConcept('  lisbon ', 'city', new Map([['population', 545000]]), 0.8);
+        expect(second.id).toBe(first.id);
+        expect(second.properties.get('country')).toBe('Portugal');
+        expect(second.properties.get('population')).toBe(545000);
+
+        const portugal = await memory.upsertConcept('Portugal', 'country');
+        const relation = await memory.upsertRelation(first.id, portugal.id, RelationType.PART_OF, 0.7);
+        expect((await memory.upsertRelation(first.id, portugal.id, RelationType.PART_OF)).id).toBe(relation.id);
+        expect(await memory.query({})).toHaveLength(3);
+    });
+
+    it('should expire superseded exclusive facts and keep accumulating ones', async () => {
+        const memory = SemanticMemoryStorageFactory.create();
+        const lisbon = await memory.assertFact({ ...livesIn('Lisbon'), validAt: new Date('2020-01-01') });
+        const moved = new Date('2024-06-01');
+        const porto = await memory.assertFact({ ...livesIn('Porto'), validAt: moved });
+        expect((await memory.assertFact(livesIn('porto'))).id).toBe(porto.id);
+
+        const old = await memory.retrieve(lisbon.id);
+        expect(old!.expiredAt).toBeInstanceOf(Date);
+        expect(old!.invalidAt).toEqual(moved);
+        expect(old!.content.name).toBe('The user lives in Lisbon');
+        expect((await memory.retrieve(porto.id))!.validAt).toEqual(moved);
+
+        const likes = (food: string) => ({ subject: 'user', predicate: 'likes', object: food, statement: `The user likes ${food}` });
+        await memory.assertFact(likes('sushi'));
+        await memory.assertFact(likes('pizza'));
+        const current = (await memory.query({})).filter(unit => !unit.expiredAt);
+        expect(current.map(unit => unit.content.name).sort()).toEqual([
+            'The user likes pizza', 'The user likes sushi', 'The user lives in Porto'
+        ]);
+    });
+
+    it('should forget the concept properties a subject supplied', async () => {
+        const memory = SemanticMemoryStorageFactory.create();
+        const lisbon = await memory.upsertConcept('Lisbon', 'city', new Map([['country', 'Portugal']]));
+        await memory.upsertConcept('Lisbon', 'city', new Map([['favourite_cafe', 'A Brasileira'], ['country', 'Portugal']]), 0.9, 'extracted', 'alice');
+        await memory.upsertConcept('Lisbon', 'city', new Map([['neighbourhood', 'Alfama']]), 0.9, 'extracted', 'alice');
+        await memory.upsertConcept('Lisbon', 'city', new Map([['neighbourhood', 'Alfama']]), 0.9, 'extracted', 'bob');
+
+        await memory.forgetSubject('alice');
+
+        const [unit] = await memory.query({});
+        expect(unit.content.id).toBe(lisbon.id);
+        expect(Object.fromEntries(unit.content.properties)).toEqual({ country: 'Portugal', neighbourhood: 'Alfama' });
+        expect(memory.getConceptGraph().concepts[0].properties.has('favourite_cafe')).toBe(false);
+
+        await memory.forgetSubject('bob');
+        expect(Object.fromEntries((await memory.query({}))[0].content.properties)).toEqual({ country: 'Portugal' });
+    });
+});
+
+describe('Fact extraction after assistant turns', () => {
+    it('should extract knowledge from new messages with the agent\'s LLM', async () => {
+        const provider = new MockLLMProvider()
+            .respondWith(conversation('Lisbon is lovely!'))
+            .respondWith(conversation('Enjoy Porto!'))
+            .addRecording({
+                match: 'User: I live in Lisbon',
+                response: { content: JSON.stringify({
+                    entities: [{ name: 'Lisbon', type: 'city', properties: { country: 'Portugal' }, confidence: 0.9 }],
+                    relations: [{ source: 'Lisbon', target: 'Portugal', type: 'PART_OF', confidence: 0.9 }],
+                    facts: [livesIn('Lisbon'), { ...livesIn('Faro'), confidence: 0.2 }]
+                }) }
+            })
+            .addRecording({
+                match: 'User: I moved to Porto',
+                response: { content: JSON.stringify({
+                    entities: [{ name: 'lisbon', type: 'city', confidence: 0.8 }],
+                    relations: [],
+                    facts: [livesIn('Porto', '2024-06-01')]
+                }) }
+            });
+
+        const agent = new AgentBuilder(
+            { name: 'FactAgent', role: 'assistant', capabilities: 'remembers', goal: 'help', memoryConfig: { factExtraction: { model: 'mock-small' } } },
+            { llmConfig: { apiKey: 'unused', model: 'mock' } }
+        ).withLLMProvider(provider).create();
+        await agent.run();
+        const semantic = (agent as any).core.memories.semanticMemory;
+        const names = async () => (await semantic.query({})).map((unit: any) => unit.content.name);
+
+        const session = await agent.createSession('user', 'I live in Lisbon');
+        await waitFor(async () => (await names()).includes('The user lives in Lisbon'));
+
+        const extraction = provider.getRequests()[1];
+        expect(extraction.model).toBe('mock-small');
+        expect(extraction.responseFormat?.name).toBe('fact_extraction');
+        expect(extraction.messages[1].content).toContain('Lisbon is lovely!');
+        expect(await names()).not.toContain('The user lives in Faro');
+        expect(session.getTokenUsage().totalTokens).toBeGreaterThan(0);
+
+        await session.run('I moved to Porto');
+        await waitFor(async () => (await names()).includes('The user lives in Porto'));
+
+        // Only the new exchange is sent, and known concepts are not duplicated
+        expect(provider.getRequests()[3].messages[1].content).not.toContain('Lisbon');
+        const units = await semantic.query({});
+        expect(units.filter((unit: any) => unit.content.type === 'concept').map((unit: any) => unit.content.name).sort())
+            .toEqual(['Lisbon', 'Portugal']);
+        const lisbon = units.find((unit: any) => unit.content.name === 'The user lives in Lisbon');
+        expect(lisbon.expiredAt).toBeInstanceOf(Date);
+        expect(lisbon.invalidAt).toEqual(new Date('2024-06-01'));
+        await agent.shutdown();
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { MockLLMProvider } from '../../../src/core/llm/MockLLMProvider';
+import { AgentBuilder } from '../../../src/agent/AgentBuilder';
+import { PiiRedactor, RegexPiiDetector, DEFAULT_PII_DETECTORS } from '../../../src/core/memory/PiiRedactor';
+import { MemoryType } from '../../../src/core/memory/base';
+import { conversation, waitFor } from '../../utils/test-helpers';
+
+const livesIn = (city: string) => JSON.stringify({
+    entities: [{ name: city, type: 'city', confidence: 0.9 }],
+    relations: [],
+    facts: [{
+        subject: 'user', predicate: 'lives_in', object: city, statement: `The user lives in ${city}`, exclusive: true, confidence: 0.9
+    }]
+});
+
+describe('PiiRedactor', () => {
+    it('should redact emails, phone and card numbers in nested content', () => {
+        const redactor = new PiiRedactor();
+        const { value, found } = redactor.redact({
+            text: 'Write to ana@example.com or call +351 912 345 678',
+            payment: ['Card 4111 1111 1111 1111'],
+            notes: new Map([['call', '(415) 555-2671']]),
+            untouched: 'Order 123456789012 shipped on 2024-06-01'
+        });
+
+        expect(value.text).toBe('Write to [REDACTED:email] or call [REDACTED:phone]');
+        expect(value.payment).toEqual(['Card [REDACTED:card]']);
+        expect(value.notes.get('call')).toBe('[REDACTED:phone]');
+        expect(value.untouched).toBe('Order 123456789012 shipped on 2024-06-01');
+        expect(found).toEqual({ email: 1, phone: 2, card: 1 });
+    });
+
+    it('should accept custom detectors and placeholders', () => {
+        const iban = new RegexPiiDetector('iban', /\bPT50\d{21}\b/);
+        const redactor = new PiiRedactor([...DEFAULT_PII_DETECTORS, iban], type => `<${type}>`);
+        expect(redactor.redact('IBAN PT50000201231234567890154').value).toBe('IBAN <iban>');
+    });
+});
+
+describe('Forgetting a subject', () => {
+    it('should redact before storage and purge one user\'s data with an audit record', async () => {
+        const provider = new MockLLMProvider()
+            .respondWith(conversation('Noted, Alice'))
+            .respondWith(conversation('Noted, Bob'))
+            .addRecording({ match: 'User: I live in Lisbon', response: { content: livesIn('Lisbon') } })
+            .addRecording({ match: 'User: I live in Porto', response: { content: livesIn('Porto') } });
+
+        const agent = new AgentBuilder(
+            {
+                name: 'PrivateAgent', role: 'assistant', capabilities: 'remembers', goal: 'help',
+                memoryConfig: { factExtraction: {}, privacy: {} }
+            },
+            { llmConfig: { apiKey: 'unused', model: 'mock' } }
+        ).withLLMProvider(provider).create();
+        await agent.run();
+        const memories = (agent as any).core.memories;
+        const facts = async () => (await memories.semanticMemory.query({}))
+            .filter((unit: any) => unit.content.type === 'fact' && !unit.expiredAt)
+            .map((unit: any) => unit.content.name)
+            .sort();
+
+        const alice = await agent.createSession('alice', 'I live in Lisbon, write to alice@example.com');
+        await waitFor(async () => (await facts()).includes('The user lives in Lisbon'));
+        const bob = await agent.createSession('bob', 'I live in Porto');
+        await waitFor(async () => (await facts()).includes('The user lives in Porto'));
+
+        // Each user's facts are kept apart, and the address never reaches memory or the extraction prompt
+        expect(await facts()).toEqual(['The user lives in Lisbon', 'The user lives in Porto']);
+        const messages = await memories.ephemeralMemory.getAll();
+        const aliceMessage = messages.find((unit: any) => unit.metadata.get('sessionId') === alice.sessionId);
+        expect(aliceMessage.content).toBe('I live in Lisbon, write to [REDACTED:email]');
+        expect(aliceMessage.metadata.get('subjectId')).toBe('alice');
+        expect(JSON.stringify(provider.getRequests()[1].messages)).not.toContain('alice@example.com');
+
+        const audit = await agent.forgetSubject('alice');
+        expect(audit.subjectId).toBe('alice');
+        expect(audit.sessionIds).toEqual([alice.sessionId]);
+        expect(audit.removed[MemoryType.EPHEMERAL]).toBe(2);
+        expect(audit.removed[MemoryType.SEMANTIC]).toBe(2);
+        expect(memories.getAuditLog()).toEqual([audit]);
+
+        expect(await facts()).toEqual(['The user lives in Porto']);
+        const remaining = await memories.ephemeralMemory.getAll();
+        expect(remaining.every((unit: any) => unit.metadata.get('sessionId') === bob.sessionId)).toBe(true);
+        expect(agent.getSession(alice.sessionId)).toBeUndefined();
+        expect(memories.semanticMemory.getConceptGraph().concepts.map((concept: any) => concept.name)).toEqual(['Porto']);
+        await agent.shutdown();
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { IMemoryUnit, MemoryType } from '../../../src/core/memory/base';
+import { MemoryRanker } from '../../../src/core/memory/MemoryRanker';
+import { AgentMemorySystem } from '../../../src/core/memory/AgentMemorySystem';
+
+const now = new Date('2024-06-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const createMemory = (id: string, text: string, ageMs: number, metadata: [string, any][] = [], accessCount = 0): IMemoryUnit => ({
+    id,
+    content: text,
+    metadata: new Map<string, any>([['type', MemoryType.SEMANTIC], ...metadata]),
+    timestamp: new Date(now.getTime() - ageMs),
+    memoryType: MemoryType.SEMANTIC,
+    createdAt: new Date(now.getTime() - ageMs),
+    accessCount
+});
+
+describe('MemoryRanker', () => {
+    const ranker = new MemoryRanker();
+
+    it('should not let recency drown out relevance', () => {
+        const relevant = createMemory('relevant', 'The user is allergic to peanuts', 30 * 24 * HOUR);
+        const recent = createMemory('recent', 'The weather was sunny today', 0);
+
+        const ranked = ranker.rank([recent, relevant], 'peanuts allergy', undefined, { now });
+        expect(ranked.map(m => m.id)).toEqual(['relevant', 'recent']);
+    });
+
+    it('should decay recency by the half-life and use similarity, importance and access counts', () => {
+        const memory = createMemory('m', 'anything', 2 * HOUR, [['similarity', 0.8], ['importanceScore', 0.6]], 3);
+        const score = ranker.score(memory, 'query', undefined, { now, recencyHalfLifeMs: 2 * HOUR });
+
+        expect(score.recency).toBeCloseTo(0.5);
+        expect(score.relevance).toBeCloseTo(0.8);
+        expect(score.importance).toBeCloseTo(0.6);
+        expect(score.frequency).toBe(1);
+        expect(score.total).toBeCloseTo(0.5 * 0.8 + 0.2 * 0.5 + 0.15 * 0.6 + 0.05 * 1);
+    });
+
+    it('should apply custom weights and limits', () => {
+        const important = createMemory('important', 'old note', 10 * 24 * HOUR, [['importanceScore', 1]]);
+        const popular = createMemory('popular', 'old note', 10 * 24 * HOUR, [], 20);
+        const fresh = createMemory('fresh', 'new note', 0);
+        const memories = [fresh, popular, important];
+
+        expect(ranker.rank(memories, undefined, undefined, { now, weights: { importance: 1 } })[0].id).toBe('important');
+        expect(ranker.rank(memories, undefined, undefined, { now, weights: { frequency: 1 } })[0].id).toBe('popular');
+        expect(ranker.rank(memories, undefined, undefined, { now, limit: 1 }).map(m => m.id)).toEqual(['fresh']);
+    });
+});
+
+describe('AgentMemorySystem.recall', () => {
+    it('should rank recalled messages by the query and honour the limit', async () => {
+        const memory = new AgentMemorySystem();
+        try {
+            const user = new Map([['role', 'user']]);
+            await memory.remember('I drink black coffee every morning', undefined, user, 's1');
+            await memory.remember('My favourite colour is green', undefined, user, 's1');
+            await memory.remember('Remind me to call the dentist', undefined, user, 's1');
+
+            const [best] = await memory.recall('what colour do I like? favourite colour', { limit: 1 });
+            expect(best.content).toBe('My favourite colour is green');
+            expect(await memory.recall('coffee', { limit: 2 })).toHaveLength(2);
+        } finally {
+            memory.stop();
+        }
+    });
+});
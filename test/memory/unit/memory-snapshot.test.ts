@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { AgentMemorySystem } from '../../../src/core/memory/AgentMemorySystem';
+import { MemoryType } from '../../../src/core/memory/base';
+import { encodeValue } from '../../../src/core/memory/storage/ValueCodec';
+import { MEMORY_SNAPSHOT_VERSION } from '../../../src/core/memory/MemorySnapshot';
+import { RelationType } from '../../../src/core/memory/modules/semantic/types';
+import { HashingEmbeddingProvider } from '../../../src/core/memory/embedding/EmbeddingProvider';
+
+const internals = (memories: AgentMemorySystem) => memories as any;
+
+async function populate(memories: AgentMemorySystem) {
+    const { semanticMemory, episodicMemory } = internals(memories);
+    const lisbon = await semanticMemory.upsertConcept('Lisbon', 'city', new Map([['country', 'Portugal']]));
+    const portugal = await semanticMemory.upsertConcept('Portugal', 'country');
+    await semanticMemory.upsertRelation(lisbon.id, portugal.id, RelationType.PART_OF);
+    await semanticMemory.assertFact({ subject: 'user', predicate: 'lives_in', object: 'Lisbon', statement: 'The user lives in Lisbon' });
+
+    const trip = episodicMemory.createMemoryUnit('Visited Sintra with the user');
+    trip.associations = new Set([lisbon.id]);
+    await episodicMemory.store(trip);
+
+    await memories.updateContext('goal', 'plan a trip');
+    await memories.updateContext('preference', { key: 'units', value: 'metric' });
+    return { lisbon, trip };
+}
+
+describe('Memory snapshots', () => {
+    it('should round-trip every store, the concept graph and the working context', async () => {
+        const source = new AgentMemorySystem({ embeddings: new HashingEmbeddingProvider(32) });
+        const { lisbon, trip } = await populate(source);
+        const snapshot = await source.exportSnapshot();
+
+        const lines = snapshot.trim().split('\n').map(line => JSON.parse(line));
+        expect(lines[0]).toMatchObject({ kind: 'header', format: 'agent-memory-snapshot', version: MEMORY_SNAPSHOT_VERSION });
+        expect(lines.filter(line => line.kind === 'association')).toEqual([
+            { kind: 'association', sourceId: trip.id, targetId: lisbon.id }
+        ]);
+        expect(lines.every(line => line.unit?.embedding === undefined)).toBe(true);
+
+        const target = new AgentMemorySystem();
+        const result = await target.importSnapshot(snapshot);
+        expect(result).toEqual({ version: MEMORY_SNAPSHOT_VERSION, imported: 6, skipped: 0 });
+
+        const semantic = internals(target).semanticMemory;
+        const concept = (await semantic.query({})).find((unit: any) => unit.content.name === 'Lisbon');
+        expect(concept.content.properties.get('country')).toBe('Portugal');
+        expect(concept.createdAt).toBeInstanceOf(Date);
+        expect(semantic.getConceptGraph().relations).toHaveLength(1);
+
+        const episode = await internals(target).episodicMemory.retrieve(trip.id);
+        expect(episode.associations).toEqual(new Set([lisbon.id]));
+
+        const context = internals(target).contextManager.getCurrentContext();
+        expect(context.userGoals).toEqual(new Set(['plan a trip']));
+        expect(context.userPreferences.get('units')).toBe('metric');
+
+        const recalled = await target.recall('Where does the user live?', { memoryTypes: [MemoryType.SEMANTIC] });
+        expect(recalled.map(unit => unit.content.name)).toContain('The user lives in Lisbon');
+        source.stop();
+        target.stop();
+    });
+
+    it('should merge into or replace current memories', async () => {
+        const source = new AgentMemorySystem();
+        await populate(source);
+        const snapshot = await source.exportSnapshot();
+
+        const target = new AgentMemorySystem();
+        const semantic = internals(target).semanticMemory;
+        await semantic.upsertConcept('Porto', 'city');
+        await target.updateContext('goal', 'book a hotel');
+
+        await target.importSnapshot(snapshot);
+        expect(await target.importSnapshot(snapshot)).toMatchObject({ imported: 0, skipped: 6 });
+        const names = async () => (await semantic.query({})).map((unit: any) => unit.content.name).filter(Boolean).sort();
+        expect(await names()).toEqual(['Lisbon', 'Porto', 'Portugal', 'The user lives in Lisbon']);
+        expect(internals(target).contextManager.getCurrentContext().userGoals)
+            .toEqual(new Set(['book a hotel', 'plan a trip']));
+
+        await target.importSnapshot(snapshot, { mode: 'replace' });
+        expect(await names()).not.toContain('Porto');
+        expect(internals(target).contextManager.getCurrentContext().userGoals).toEqual(new Set(['plan a trip']));
+        source.stop();
+        target.stop();
+    });
+
+    it('should migrate version 1 snapshots and reject unknown versions', async () => {
+        const memories = new AgentMemorySystem();
+        const semantic = internals(memories).semanticMemory;
+        const unit = semantic.createMemoryUnit('The user likes jazz');
+        unit.associations = new Set(['other']);
+        const legacy = [unit].map(u => JSON.stringify(encodeValue(u))).join('\n');
+
+        expect(await memories.importSnapshot(legacy)).toEqual({ version: 1, imported: 1, skipped: 0 });
+        const restored = await semantic.retrieve(unit.id);
+        expect(restored.content.name).toBe('The user likes jazz');
+        expect(restored.associations).toEqual(new Set(['other']));
+
+        const future = JSON.stringify({ kind: 'header', format: 'agent-memory-snapshot', version: 99, createdAt: '2030-01-01' });
+        await expect(memories.importSnapshot(future)).rejects.toThrow('Unsupported memory snapshot version 99');
+        await expect(memories.importSnapshot('not json')).rejects.toThrow('line 1 is not JSON');
+        memories.stop();
+    });
+});
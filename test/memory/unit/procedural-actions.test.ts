@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ToolBuilder, StringOutput, JSONOutput, Tool } from '../../../src/core/Tool';
+import { AgentRunResult, AgentRunStep } from '../../../src/core/AgentRun';
+import { ProceduralMemoryStorageFactory } from '../../../src/core/memory/modules/procedural/ProceduralMemoryStorageFactory';
+import { procedureSchema, Procedure } from '../../../src/core/memory/modules/procedural/ProceduralMemory';
+
+const tools = new Map<string, Tool<any, any, any>>([
+    ['geocode', new ToolBuilder({
+        name: 'geocode',
+        description: 'Finds the coordinates of a city',
+        inputSchema: z.object({ city: z.string() }),
+        handler: async (input) => new JSONOutput({ lat: 38.7, lon: -9.1, city: input.city })
+    })],
+    ['forecast', new ToolBuilder({
+        name: 'forecast',
+        description: 'Forecast for coordinates',
+        inputSchema: z.object({ lat: z.number(), lon: z.number() }),
+        handler: async (input) => new StringOutput(input.lat > 0 ? 'sunny' : 'rainy')
+    })],
+    ['notify', new ToolBuilder({
+        name: 'notify',
+        description: 'Sends a message',
+        inputSchema: z.object({ message: z.string() }),
+        handler: async (input) => {
+            if (input.message.includes('fail')) throw new Error('Notification service unavailable');
+            return new StringOutput(`sent: ${input.message}`);
+        }
+    })]
+]);
+
+const createMemory = () => {
+    const memory = ProceduralMemoryStorageFactory.create();
+    memory.useTools(name => tools.get(name));
+    return memory;
+};
+
+const store = async (memory: ReturnType<typeof createMemory>, procedure: Procedure) => {
+    const unit = memory.createMemoryUnit(procedure, procedureSchema);
+    await memory.store(unit);
+    return unit.id;
+};
+
+const weatherReport: Procedure = {
+    name: 'weather report',
+    actions: [
+        { type: 'tool', id: 'place', tool: 'geocode', params: { city: '{{inputs.city}}' } },
+        { type: 'tool', id: 'weather', tool: 'forecast', params: { lat: '{{steps.place.data.lat}}', lon: '{{steps.place.data.lon}}' } },
+        { type: 'tool', tool: 'notify', when: '{{steps.weather.output}} == sunny', params: { message: 'Go outside in {{inputs.city}}' } },
+        { type: 'tool', tool: 'notify', when: '{{steps.weather.output}} != sunny', params: { message: 'Take an umbrella' } }
+    ]
+};
+
+describe('Procedural actions', () => {
+    it('should run tools with templated params and conditions', async () => {
+        const memory = createMemory();
+        const id = await store(memory, weatherReport);
+
+        const execution = await memory.execute(id, { city: 'Lisbon' });
+        expect(execution.success).toBe(true);
+        expect(execution.steps.map(step => step.status)).toEqual(['success', 'success', 'success', 'skipped']);
+        expect(JSON.parse(execution.steps[0].output!)).toMatchObject({ city: 'Lisbon' });
+        expect(execution.steps[2].output).toBe('sent: Go outside in Lisbon');
+
+        const unit = await memory.retrieve(id);
+        expect(unit!.metadata.get('successCount')).toBe(1);
+        expect(unit!.metadata.get('proficiency')).toBe(1);
+        expect(unit!.metadata.get('stepStats')).toEqual({
+            place: { successCount: 1, failureCount: 0 },
+            weather: { successCount: 1, failureCount: 0 },
+            '2': { successCount: 1, failureCount: 0 }
+        });
+    });
+
+    it('should stop at a failing step and record it', async () => {
+        const memory = createMemory();
+        const id = await store(memory, {
+            name: 'announce',
+            actions: [
+                { type: 'tool', tool: 'notify', params: { message: 'fail once' }, continueOnError: true },
+                { type: 'tool', id: 'missing', tool: 'translate', params: { text: 'hi' } },
+                { type: 'log', params: { message: 'never logged' } }
+            ]
+        });
+
+        const execution = await memory.execute(id);
+        expect(execution.success).toBe(false);
+        expect(execution.error).toBe('Step missing failed: Tool "translate" is not registered');
+        expect(execution.steps.map(step => step.status)).toEqual(['failure', 'failure', 'skipped']);
+        expect(execution.steps[0].error).toBe('Notification service unavailable');
+
+        const unit = await memory.retrieve(id);
+        expect(unit!.metadata.get('failureCount')).toBe(1);
+        expect(unit!.metadata.get('lastRun')).toHaveLength(3);
+        expect(unit!.metadata.get('stepStats')['0']).toEqual({ successCount: 0, failureCount: 1 });
+    });
+
+    it('should support custom action types', async () => {
+        const memory = createMemory();
+        memory.registerActionHandler('upper', async (_, params) => String(params.text).toUpperCase());
+        const id = await store(memory, {
+            name: 'shout',
+            actions: [
+                { type: 'upper', id: 'loud', params: { text: 'hello {{inputs.name}}' } },
+                { type: 'log', params: { message: '{{steps.loud.output}}!' } }
+            ]
+        });
+
+        const execution = await memory.execute(id, { name: 'ana' });
+        expect(execution.steps.map(step => step.output)).toEqual(['HELLO ANA', 'HELLO ANA!']);
+        await expect(memory.execute('unknown')).rejects.toThrow('Procedural memory not found');
+    });
+});
+
+describe('Learning procedures from runs', () => {
+    const steps: Omit<AgentRunStep, 'index' | 'timestamp'>[] = [
+        { type: 'think', content: 'Find the city first' },
+        { type: 'act', toolName: 'geocode', toolCallId: 'c1', arguments: { city: 'Lisbon' } },
+        { type: 'observe', toolName: 'geocode', toolCallId: 'c1', status: 'success', content: '{"lat":38.7,"lon":-9.1,"city":"Lisbon"}' },
+        { type: 'act', toolName: 'forecast', toolCallId: 'c2', arguments: { lat: -1, lon: -9.1 } },
+        { type: 'observe', toolName: 'forecast', toolCallId: 'c2', status: 'failure', content: 'bad coordinates' },
+        { type: 'act', toolName: 'notify', toolCallId: 'c3', arguments: { message: '{"lat":38.7,"lon":-9.1,"city":"Lisbon"}' } },
+        { type: 'observe', toolName: 'notify', toolCallId: 'c3', status: 'success', content: 'sent' },
+        { type: 'think', content: 'Done' }
+    ];
+    const run = (status: AgentRunResult['status']): AgentRunResult => ({
+        runId: 'run-1',
+        sessionId: 'session-1',
+        status,
+        answer: 'Sent the location of Lisbon',
+        steps: steps.map((step, index) => ({ ...step, index, timestamp: new Date().toISOString() })),
+        iterations: 3,
+        toolCalls: 3,
+        durationMs: 10
+    });
+
+    it('should turn successful tool calls into a reusable procedure', async () => {
+        const memory = createMemory();
+        const unit = await memory.learnFromRun(run('completed'), { name: 'share location', inputs: { city: 'Lisbon' } });
+
+        expect(unit.content.actions).toEqual([
+            { type: 'tool', id: 'step1', tool: 'geocode', params: { city: '{{inputs.city}}' } },
+            { type: 'tool', id: 'step2', tool: 'notify', params: { message: '{{steps.step1.output}}' } }
+        ]);
+        expect(unit.applicableContext).toEqual(['share location']);
+        expect(unit.expectedOutcomes).toEqual(['Sent the location of Lisbon']);
+
+        const execution = await memory.execute(unit.id, { city: 'Porto' });
+        expect(execution.success).toBe(true);
+        expect(execution.steps[1].output).toContain('"city": "Porto"');
+    });
+
+    it('should only learn from completed runs with several tool calls', async () => {
+        const memory = createMemory();
+        await expect(memory.learnFromRun(run('failed'))).rejects.toThrow('did not complete');
+
+        const single = run('completed');
+        single.steps = single.steps.slice(0, 3);
+        await expect(memory.learnFromRun(single)).rejects.toThrow('fewer than two successful tool calls');
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IMemoryUnit, MemoryType } from '../../../src/core/memory/base';
+import { SqliteStorage, openMemoryDatabase } from '../../../src/core/memory/storage/SqliteStorage';
+import { SqliteIndex } from '../../../src/core/memory/storage/SqliteIndex';
+import { SemanticMemoryStorageFactory } from '../../../src/core/memory/modules/semantic/SemanticMemoryStorageFactory';
+
+const createMemory = (id: string, text: string, overrides: Partial<IMemoryUnit> = {}): IMemoryUnit => ({
+    id,
+    content: { text, tags: new Set(['fact']) },
+    metadata: new Map<string, any>([['type', MemoryType.SEMANTIC], ['sessionId', 's1'], ['verified', true]]),
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    memoryType: MemoryType.SEMANTIC,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    associations: new Set<string>(),
+    ...overrides
+});
+
+describe('SqliteStorage', () => {
+    let directory: string | undefined;
+
+    afterEach(() => {
+        if (directory) rmSync(directory, { recursive: true, force: true });
+        directory = undefined;
+    });
+
+    it('should round-trip units with maps, sets, dates and associations across reopen', async () => {
+        directory = mkdtempSync(join(tmpdir(), 'memory-'));
+        const path = join(directory, 'memory.db');
+
+        const storage = new SqliteStorage(path, { namespace: 'semantic' });
+        await storage.store(createMemory('a', 'Paris is the capital of France', {
+            validAt: new Date('2020-05-01T00:00:00Z'),
+            associations: new Set(['b'])
+        }));
+        await storage.store(createMemory('b', 'Berlin is the capital of Germany', { associations: new Set(['a']) }));
+        storage.close();
+
+        const reopened = new SqliteStorage(path, { namespace: 'semantic' });
+        const memory = await reopened.retrieve('a');
+        expect(memory!.metadata).toBeInstanceOf(Map);
+        expect(memory!.metadata.get('sessionId')).toBe('s1');
+        expect(memory!.content.tags).toEqual(new Set(['fact']));
+        expect(memory!.validAt).toEqual(new Date('2020-05-01T00:00:00Z'));
+        expect(memory!.associations).toEqual(new Set(['b']));
+        expect(memory!.consolidationMetrics!.accessCount).toBe(1);
+
+        await reopened.delete('a');
+        expect(reopened.getSize()).toBe(1);
+        expect((await reopened.get('b'))!.associations).toEqual(new Set());
+        reopened.close();
+    });
+
+    it('should open a memory type in a database file through its factory', async () => {
+        directory = mkdtempSync(join(tmpdir(), 'memory-'));
+        const path = join(directory, 'memory.db');
+
+        const semantic = await SemanticMemoryStorageFactory.open(path, { maxCapacity: 10 });
+        await semantic.assertFact({ subject: 'user', predicate: 'lives_in', object: 'Lisbon', statement: 'The user lives in Lisbon' });
+
+        const reopened = await SemanticMemoryStorageFactory.open(path);
+        expect((await reopened.getAll()).map(unit => unit.content.name)).toEqual(['The user lives in Lisbon']);
+    });
+
+    it('should answer memory filters in SQL', async () => {
+        const db = openMemoryDatabase();
+        const storage = new SqliteStorage(db);
+        await storage.store(createMemory('old', 'old fact', {
+            timestamp: new Date('2023-01-01T00:00:00Z'),
+            validAt: new Date('2023-01-01T00:00:00Z')
+        }));
+        await storage.store(createMemory('new', 'new fact', {
+            timestamp: new Date('2024-06-01T00:00:00Z'),
+            validAt: new Date('2024-06-01T00:00:00Z')
+        }));
+        await storage.store(createMemory('other', 'other session', {
+            metadata: new Map<string, any>([['type', MemoryType.EPISODIC], ['sessionId', 's2']])
+        }));
+
+        const ids = async (filter: Parameters<SqliteStorage['retrieveByFilter']>[0]) =>
+            (await storage.retrieveByFilter(filter)).map(m => m.id);
+
+        expect(await ids({ types: [MemoryType.SEMANTIC], orderBy: 'timestamp' })).toEqual(['new', 'old']);
+        expect(await ids({ dateRange: { start: new Date('2024-01-01T00:00:00Z') } })).toEqual(['new', 'other']);
+        expect(await ids({ temporal: { validBefore: new Date('2023-12-31T00:00:00Z') } })).toEqual(['old']);
+        expect(await ids({ metadataFilters: [new Map<string, any>([['sessionId', 's1'], ['verified', true]])] })).toEqual(['old', 'new']);
+        expect(await ids({ metadataFilters: [new Map([['sessionId', 's2']])], limit: 5 })).toEqual(['other']);
+        expect(await ids({ orderBy: 'timestamp', limit: 1 })).toEqual(['new']);
+        db.close();
+    });
+});
+
+describe('SqliteIndex', () => {
+    it('should find memories containing all query terms', async () => {
+        const index = new SqliteIndex();
+        await index.add(createMemory('a', 'Paris is the capital of France'));
+        await index.add(createMemory('b', 'Berlin is the capital of Germany'));
+        await index.add({ ...createMemory('c', ''), content: 'Capitals of Europe: Paris, Berlin' });
+
+        // Terms are stemmed, so "capital" also matches "Capitals"
+        expect((await index.search('capital')).sort()).toEqual(['a', 'b', 'c']);
+        expect((await index.search('paris france')).sort()).toEqual(['a']);
+        expect(await index.search('"OR Germany')).toEqual(['b']);
+
+        await index.update(createMemory('a', 'Madrid is the capital of Spain'));
+        expect(await index.search('paris')).toEqual(['c']);
+        await index.remove('c');
+        expect(await index.search('paris')).toEqual([]);
+    });
+});
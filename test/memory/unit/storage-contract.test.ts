@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { IMemoryUnit, MemoryFilter, MemoryType } from '../../../src/core/memory/base';
+import { IMemoryStorage } from '../../../src/core/memory/storage';
+import { InMemoryStorage } from '../../../src/core/memory/storage/InMemoryStorage';
+import { SqliteStorage } from '../../../src/core/memory/storage/SqliteStorage';
+
+const createMemory = (id: string, metadata: [string, any][], lastAccessed = new Date('2024-01-01T00:00:00Z')): IMemoryUnit => ({
+    id,
+    content: `memory ${id}`,
+    metadata: new Map<string, any>([['type', MemoryType.SEMANTIC], ...metadata]),
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    consolidationMetrics: {
+        semanticSimilarity: 0,
+        contextualOverlap: 0,
+        temporalProximity: 0,
+        sourceReliability: 0,
+        confidenceScore: 0,
+        accessCount: 0,
+        lastAccessed,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        importance: 1,
+        relevance: 1
+    }
+});
+
+const backends: [string, (maxCapacity?: number) => IMemoryStorage][] = [
+    ['InMemoryStorage', maxCapacity => new InMemoryStorage(maxCapacity)],
+    ['SqliteStorage', maxCapacity => new SqliteStorage(':memory:', { maxCapacity })]
+];
+
+for (const [name, createStorage] of backends) {
+    describe(`${name} contract`, () => {
+        it('should filter by id, ids and metadata', async () => {
+            const storage = createStorage();
+            await storage.store(createMemory('a', [['sessionId', 's1'], ['verified', true], ['source', { kind: 'web', tags: ['news'] }]]));
+            await storage.store(createMemory('b', [['sessionId', 's1'], ['verified', false]]));
+            await storage.store(createMemory('c', [['sessionId', 's2']]));
+
+            const ids = async (filter: MemoryFilter) => (await storage.retrieveByFilter(filter)).map(m => m.id);
+
+            expect(await ids({ id: 'b' })).toEqual(['b']);
+            expect(await ids({ ids: ['c', 'a', 'missing'] })).toEqual(['a', 'c']);
+            expect(await ids({ ids: ['a', 'b'], metadataFilters: [new Map([['sessionId', 's1']])] })).toEqual(['a', 'b']);
+            expect(await ids({ metadataFilters: [new Map<string, any>([['sessionId', 's1'], ['verified', true]])] })).toEqual(['a']);
+            expect(await ids({ metadataFilters: [new Map([['sessionId', 's1']]), new Map([['verified', false]])] })).toEqual(['b']);
+            expect(await ids({ metadataFilters: [new Map([['verified', null]])] })).toEqual(['c']);
+            expect(await ids({ metadataFilters: [new Map([['source', { kind: 'web', tags: ['news'] }]])] })).toEqual(['a']);
+            expect(await ids({ metadataFilters: [new Map([['source', { kind: 'web' }]])] })).toEqual([]);
+        });
+
+        it('should evict the least recently accessed unit beyond maxCapacity', async () => {
+            const storage = createStorage(2);
+            await storage.store(createMemory('a', [], new Date('2024-01-02T00:00:00Z')));
+            await storage.store(createMemory('b', [], new Date('2024-01-01T00:00:00Z')));
+
+            // Replacing a stored unit does not count against the capacity
+            await storage.store(createMemory('a', [['edited', true]], new Date('2024-01-02T00:00:00Z')));
+            expect(storage.getSize()).toBe(2);
+
+            await storage.store(createMemory('c', [], new Date('2024-01-03T00:00:00Z')));
+            expect(storage.getSize()).toBe(2);
+            expect(await storage.get('b')).toBeNull();
+            expect((await storage.getAll()).map(m => m.id).sort()).toEqual(['a', 'c']);
+        });
+    });
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { IMemoryUnit, MemoryType } from '../../../src/core/memory/base';
+import { IMemoryStorage } from '../../../src/core/memory/storage';
+import { InMemoryStorage } from '../../../src/core/memory/storage/InMemoryStorage';
+import { SqliteStorage, openMemoryDatabase } from '../../../src/core/memory/storage/SqliteStorage';
+import { SemanticMemoryStorageFactory } from '../../../src/core/memory/modules/semantic/SemanticMemoryStorageFactory';
+import { AgentMemorySystem } from '../../../src/core/memory/AgentMemorySystem';
+
+const date = (day: string) => new Date(`${day}T00:00:00Z`);
+
+const createMemory = (id: string, text: string, times: Partial<IMemoryUnit>): IMemoryUnit => ({
+    id,
+    content: { text },
+    metadata: new Map<string, any>([['type', MemoryType.SEMANTIC]]),
+    timestamp: times.createdAt!,
+    memoryType: MemoryType.SEMANTIC,
+    createdAt: times.createdAt!,
+    ...times
+});
+
+// Learned on Jan 10 that the user lived in Lisbon since 2020; learned on Mar 1 that they moved to Porto on Feb 15
+const versions = [
+    createMemory('lisbon', 'The user lives in Lisbon', {
+        createdAt: date('2024-01-10'), validAt: date('2020-01-01'), expiredAt: date('2024-03-01'), invalidAt: date('2024-02-15')
+    }),
+    createMemory('porto', 'The user lives in Porto', { createdAt: date('2024-03-01'), validAt: date('2024-02-15') }),
+    createMemory('cats', 'The user has a cat', { createdAt: date('2024-01-10') }),
+    // Corrected on Jan 20: the user never had a dog
+    createMemory('dog', 'The user has a dog', { createdAt: date('2024-01-10'), expiredAt: date('2024-01-20') })
+];
+
+const storages: [string, () => IMemoryStorage][] = [
+    ['InMemoryStorage', () => new InMemoryStorage()],
+    ['SqliteStorage', () => new SqliteStorage(openMemoryDatabase(), { namespace: 'semantic' })]
+];
+
+describe.each(storages)('Bi-temporal queries on %s', (_, createStorage) => {
+    const texts = async (storage: IMemoryStorage, asOf: { systemTime?: Date; validTime?: Date }) =>
+        (await storage.retrieveByFilter({ asOf })).map(m => m.content.text).sort();
+
+    it('should answer what was believed at a system time about a business time', async () => {
+        const storage = createStorage();
+        await storage.batchStore(versions);
+
+        // Before the move was known, the agent believed the user still lived in Lisbon
+        expect(await texts(storage, { systemTime: date('2024-02-20'), validTime: date('2024-02-20') }))
+            .toEqual(['The user has a cat', 'The user lives in Lisbon']);
+        // Looking back at the same day with today's knowledge
+        expect(await texts(storage, { systemTime: date('2024-04-01'), validTime: date('2024-02-20') }))
+            .toEqual(['The user has a cat', 'The user lives in Porto']);
+        expect(await texts(storage, { systemTime: date('2024-04-01'), validTime: date('2024-01-01') }))
+            .toEqual(['The user has a cat', 'The user lives in Lisbon']);
+        expect(await texts(storage, { systemTime: date('2024-01-01') })).toEqual([]);
+        expect(await texts(storage, { systemTime: date('2024-01-15'), validTime: date('2024-01-15') }))
+            .toEqual(['The user has a cat', 'The user has a dog', 'The user lives in Lisbon']);
+    });
+
+    it('should apply temporal ranges to units that have the field', async () => {
+        const storage = createStorage();
+        await storage.batchStore(versions);
+
+        const expired = await storage.retrieveByFilter({ temporal: { expiredAfter: date('2024-01-01') } });
+        expect(expired.map(m => m.id).sort()).toEqual(['dog', 'lisbon']);
+        const learned = await storage.retrieveByFilter({ temporal: { createdBefore: date('2024-02-01') } });
+        expect(learned.map(m => m.id).sort()).toEqual(['cats', 'dog', 'lisbon']);
+    });
+});
+
+describe('Fact versioning', () => {
+    it('should supersede a unit and keep every version in its history', async () => {
+        const memory = SemanticMemoryStorageFactory.create();
+        const first = memory.createMemoryUnit('The user lives in Lisbon');
+        await memory.store(first);
+
+        const moved = date('2024-02-15');
+        const second = await memory.supersede(first.id, 'The user lives in Porto', { validAt: moved });
+        await expect(memory.supersede(first.id, 'The user lives in Faro')).rejects.toThrow('already been superseded');
+
+        // A correction replaces a version that was never right and keeps its validity
+        const third = await memory.supersede(second.id, 'The user lives in Braga', { correction: true });
+        expect(third.validAt).toEqual(moved);
+
+        const history = await memory.history(third.id);
+        expect(history.map(unit => unit.content.name))
+            .toEqual(['The user lives in Lisbon', 'The user lives in Porto', 'The user lives in Braga']);
+        expect(history.map(unit => unit.metadata.get('version'))).toEqual([1, 2, 3]);
+        expect(history[0].invalidAt).toEqual(moved);
+        expect(history[1].expiredAt).toBeInstanceOf(Date);
+        expect(history[1].invalidAt).toBeUndefined();
+        expect(history[1].metadata.get('supersededBy')).toBe(third.id);
+        expect(await memory.history(first.id)).toHaveLength(3);
+    });
+
+    it('should recall only current versions unless asked for another time', async () => {
+        const memories = new AgentMemorySystem();
+        const semantic = (memories as any).semanticMemory;
+        const unit = semantic.createMemoryUnit('The user lives in Lisbon');
+        await semantic.store(unit);
+        const learnedAt = new Date();
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        const next = await memories.supersede(unit.id, 'The user lives in Porto');
+        const current = await memories.recall('Where does the user live?', { memoryTypes: [MemoryType.SEMANTIC] });
+        expect(current.map(m => m.id)).toEqual([next.id]);
+
+        const before = await memories.recall(
+            { query: 'Where does the user live?', asOf: { systemTime: learnedAt } },
+            { memoryTypes: [MemoryType.SEMANTIC] }
+        );
+        expect(before.map(m => m.id)).toEqual([unit.id]);
+        expect((await memories.history(next.id)).map(m => m.id)).toEqual([unit.id, next.id]);
+        memories.stop();
+    });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { IMemoryUnit, MemoryType } from '../../../src/core/memory/base';
+import { HashingEmbeddingProvider } from '../../../src/core/memory/embedding/EmbeddingProvider';
+import { BruteForceVectorIndex, HnswVectorIndex } from '../../../src/core/memory/storage/VectorIndex';
+import { InMemoryStorage } from '../../../src/core/memory/storage/InMemoryStorage';
+import { SqliteStorage, openMemoryDatabase } from '../../../src/core/memory/storage/SqliteStorage';
+
+const createMemory = (id: string, text: string, type: MemoryType = MemoryType.SEMANTIC): IMemoryUnit => ({
+    id,
+    content: { text },
+    metadata: new Map<string, any>([['type', type]]),
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    memoryType: type,
+    createdAt: new Date('2024-01-01T00:00:00Z')
+});
+
+const facts = [
+    createMemory('paris', 'Paris is the capital city of France'),
+    createMemory('python', 'Python is a popular programming language'),
+    createMemory('coffee', 'The user drinks black coffee every morning', MemoryType.EPISODIC)
+];
+
+// Deterministic pseudo-random vectors
+const randomVectors = (count: number, dimension: number, seed: number = 42): number[][] => {
+    let state = seed;
+    const next = () => {
+        state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+        return state / 0x100000000 - 0.5;
+    };
+    return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+};
+
+describe('HashingEmbeddingProvider', () => {
+    it('should embed deterministically into normalized vectors of shared vocabulary', async () => {
+        const provider = new HashingEmbeddingProvider(128);
+        const [a, b, c] = await provider.embed(['capital of France', 'capital of France', 'black coffee']);
+
+        expect(a).toHaveLength(128);
+        expect(a).toEqual(b);
+        expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+
+        const index = new BruteForceVectorIndex();
+        index.add('france', a);
+        index.add('coffee', c);
+        const [query] = await provider.embed(['What is the capital of France?']);
+        expect(index.search(query, 2).map(m => m.id)).toEqual(['france', 'coffee']);
+    });
+});
+
+describe('HnswVectorIndex', () => {
+    it('should find nearly the same neighbours as exact search', () => {
+        const vectors = randomVectors(400, 16);
+        const exact = new BruteForceVectorIndex();
+        const hnsw = new HnswVectorIndex({ m: 8 });
+        vectors.forEach((vector, i) => {
+            exact.add(`v${i}`, vector);
+            hnsw.add(`v${i}`, vector);
+        });
+
+        let found = 0;
+        for (const query of randomVectors(20, 16, 7)) {
+            const expected = new Set(exact.search(query, 5).map(m => m.id));
+            found += hnsw.search(query, 5).filter(m => expected.has(m.id)).length;
+        }
+        expect(found / 100).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('should honour accept filters and removals', () => {
+        const hnsw = new HnswVectorIndex();
+        randomVectors(50, 8).forEach((vector, i) => hnsw.add(`v${i}`, vector));
+        const [query] = randomVectors(1, 8, 3);
+
+        const even = hnsw.search(query, 5, id => Number(id.slice(1)) % 2 === 0);
+        expect(even).toHaveLength(5);
+        expect(even.every(m => Number(m.id.slice(1)) % 2 === 0)).toBe(true);
+
+        const best = hnsw.search(query, 1)[0].id;
+        hnsw.remove(best);
+        expect(hnsw.search(query, 10).map(m => m.id)).not.toContain(best);
+        expect(hnsw.size()).toBe(49);
+    });
+});
+
+describe('Vector search in memory storage', () => {
+    it('should embed units on store and return the nearest ones with their similarity', async () => {
+        const storage = new InMemoryStorage(100, { embeddings: new HashingEmbeddingProvider(), vectorIndex: 'hnsw' });
+        await storage.batchStore(facts);
+        expect((await storage.get('paris'))!.embedding).toHaveLength(256);
+
+        const [query] = await new HashingEmbeddingProvider().embed(['Which city is the capital of France?']);
+        const [best] = await storage.retrieveByFilter({ embedding: query, limit: 1 });
+        expect(best.id).toBe('paris');
+        expect(best.metadata.get('similarity')).toBeGreaterThan(0);
+
+        // Other filters narrow the candidates
+        const episodic = await storage.retrieveByFilter({ embedding: query, types: [MemoryType.EPISODIC] });
+        expect(episodic.map(m => m.id)).toEqual(['coffee']);
+
+        // Edited content is embedded again
+        const paris = (await storage.get('paris'))!;
+        await storage.update({ ...paris, content: { text: 'Python code runs on the server' } });
+        const [language] = await new HashingEmbeddingProvider().embed(['python programming']);
+        expect((await storage.retrieveByFilter({ embedding: language, limit: 2 })).map(m => m.id).sort()).toEqual(['paris', 'python']);
+    });
+
+    it('should keep embeddings in SQLite and rebuild the index when reopened', async () => {
+        const db = openMemoryDatabase();
+        const storage = new SqliteStorage(db, { namespace: 'semantic', embeddings: new HashingEmbeddingProvider() });
+        await storage.batchStore(facts);
+
+        const reopened = new SqliteStorage(db, { namespace: 'semantic' });
+        const [query] = await new HashingEmbeddingProvider().embed(['coffee in the morning']);
+        const results = await reopened.retrieveByFilter({ embedding: query, limit: 2 });
+        expect(results[0].id).toBe('coffee');
+        expect(results[0].embedding).toHaveLength(256);
+        expect(await reopened.retrieveByFilter({ embedding: query, ids: ['paris', 'python'], limit: 1 })).toHaveLength(1);
+
+        await reopened.delete('coffee');
+        expect((await reopened.retrieveByFilter({ embedding: query })).map(m => m.id)).not.toContain('coffee');
+        db.close();
+    });
+});
@@ -0,0 +1,23 @@
+/**
+ * Poll until the condition holds, failing after timeoutMs
+ */
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+    const start = Date.now();
+    while (!(await condition())) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+/**
+ * A CONVERSATION answer in the ReAct JSON format of the default prompt template
+ */
+export function conversation(response: string): string {
+    return JSON.stringify({
+        primary_action: {
+            response_purpose: 'CONVERSATION',
+            response_content: { response },
+            response_description: response
+        }
+    });
+}